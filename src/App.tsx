@@ -1,11 +1,33 @@
 import OrgTree from './org-tree/OrgTree';
-import { makeServer } from './services/mock-server'
+import { EmployeeServiceContext } from './org-tree/hooks/useEmployeeService';
+import { ChangeFeedContext } from './org-tree/hooks/useChangeFeed';
+import { OfflineStoreContext } from './org-tree/hooks/useOfflineStore';
+import { ScenarioServiceContext } from './org-tree/hooks/useScenarioService';
+import { createHttpEmployeeService } from './services/employeeService';
+import { createEventStreamChangeFeed } from './services/changeFeed';
+import { createOfflineStore } from './services/offlineStore';
+import { createHttpScenarioService } from './services/scenarioService';
+import { createMockEmployeeService } from './services/mock-server'
 
-makeServer();
+const apiBaseUrl = import.meta.env.VITE_API_BASE_URL;
+const employeeService = apiBaseUrl
+  ? createHttpEmployeeService({ baseUrl: apiBaseUrl })
+  : createMockEmployeeService();
+const changeFeed = createEventStreamChangeFeed({ baseUrl: apiBaseUrl });
+const offlineStore = createOfflineStore();
+const scenarioService = createHttpScenarioService({ baseUrl: apiBaseUrl });
 
 function App() {
   return (
-    <OrgTree />
+    <EmployeeServiceContext.Provider value={employeeService}>
+      <ChangeFeedContext.Provider value={changeFeed}>
+        <OfflineStoreContext.Provider value={offlineStore}>
+          <ScenarioServiceContext.Provider value={scenarioService}>
+            <OrgTree />
+          </ScenarioServiceContext.Provider>
+        </OfflineStoreContext.Provider>
+      </ChangeFeedContext.Provider>
+    </EmployeeServiceContext.Provider>
   )
 }
 
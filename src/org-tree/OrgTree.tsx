@@ -1,150 +1,1042 @@
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { Employee } from "../services/types";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
+  CustomFieldDefinition,
+  Employee,
+  EmployeeEvent,
+  ImportedEmployee,
+  NewEmployee,
+  Reassignment,
+  Scenario,
+  ScenarioSummary,
+  VacancyFiller,
+} from "../services/types";
+import {
+  Announcements,
   DndContext,
   DragEndEvent,
   DragOverEvent,
   DragStartEvent,
   DragOverlay,
+  CollisionDetection,
+  KeyboardSensor,
+  PointerSensor,
+  pointerWithin,
+  rectIntersection,
+  useSensor,
+  useSensors,
 } from "@dnd-kit/core";
 import { EmployeeNode } from "./components/EmployeeNode";
-import { ELKLayout, calculateOrgChartLayout } from "./utils/elkUtils";
-import { notification, Select, Skeleton } from "antd";
-import axios from "axios";
+import { AddEmployeeModal } from "./components/AddEmployeeModal";
+import { AddVacancyModal } from "./components/AddVacancyModal";
+import { FillVacancyModal } from "./components/FillVacancyModal";
+import { TeamGroup } from "./components/TeamGroup";
+import { ReassignModal } from "./components/ReassignModal";
+import { RemoveEmployeeModal } from "./components/RemoveEmployeeModal";
+import {
+  DEFAULT_LAYOUT_OPTIONS,
+  ELKLayout,
+  calculateOrgChartLayout,
+} from "./utils/elkUtils";
+import { getConnectorPath, getDottedLinePath, getRoutedPath } from "./utils/connectors";
+import { Button, notification, Select, Skeleton } from "antd";
+import {
+  EmployeeServiceError,
+  describeApiError,
+  isNetworkError,
+} from "../services/apiErrors";
+import {
+  DATA_EXPORT_FILES,
+  DataExportFormat,
+  serializeEmployees,
+} from "../services/employeeFormats";
+import { useOptimisticReassignments } from "./hooks/useOptimisticReassignments";
+import {
+  HistoryEntry,
+  useReassignmentHistory,
+} from "./hooks/useReassignmentHistory";
+import { ChartToolbar } from "./components/ChartToolbar";
+import { LayoutSettings } from "./components/LayoutSettingsPanel";
+import { ExportModal, ExportOptions } from "./components/ExportModal";
+import { ImportEmployeesModal } from "./components/ImportEmployeesModal";
+import {
+  ExportFormat,
+  buildChartSvg,
+  downloadBlob,
+  svgToPdf,
+  svgToPng,
+} from "./utils/exportChart";
+import { IssuesPanel } from "./components/IssuesPanel";
+import { EmployeeList } from "./components/EmployeeList";
+import {
+  countReports,
+  getCollapsedDescendantIds,
+  isSubordinate as isInReportingChain,
+  removeSecondaryManager,
+  validateHierarchy,
+  withManager,
+} from "../services/hierarchy";
+import { usePersistedState } from "./hooks/usePersistedState";
+import { useEmployeeService } from "./hooks/useEmployeeService";
+import { useChangeFeed } from "./hooks/useChangeFeed";
+import { useHighlights } from "./hooks/useHighlights";
+import { applyEmployeeChanges, diffEmployees } from "../services/changeFeed";
+import { mergeImport } from "../services/importEmployees";
+import {
+  countHeadcount,
+  countHeadcountByTeam,
+  describeHeadcount,
+  fillVacancy,
+  validateFill,
+} from "../services/vacancies";
+import {
+  countScenarioChanges,
+  createDraftEmployeeId,
+  diffScenario,
+} from "../services/scenarios";
+import { useScenarioService } from "./hooks/useScenarioService";
+import { ScenarioBar } from "./components/ScenarioBar";
+import { ScenarioModal } from "./components/ScenarioModal";
+import { ScenarioDiffModal } from "./components/ScenarioDiffModal";
+import { TimelineBar } from "./components/TimelineBar";
+import { applyOutboxItems } from "../services/offlineStore";
+import { useOfflineStore } from "./hooks/useOfflineStore";
+import { useOutbox } from "./hooks/useOutbox";
+import { OfflineBanner } from "./components/OfflineBanner";
+import {
+  encodeFieldFilter,
+  formatFieldValue,
+  getEmployeeFields,
+  getFilterGroups,
+  matchesFieldFilter,
+  matchesSearch,
+} from "../services/employeeFields";
+import { usePanZoom } from "./hooks/usePanZoom";
+import { Minimap } from "./components/Minimap";
+import { getNodesBounds, getVisibleBounds, intersects } from "./utils/viewport";
+import {
+  chartKeyboardCoordinates,
+  createChartTree,
+  getTreeMove,
+} from "./utils/keyboardNavigation";
+
+// Droppable rects are measured on screen, after the zoom transform, so the
+// pointer position is the most reliable signal at any scale. Keyboard drags
+// have no pointer and fall back to rectangle overlap.
+const zoomAwareCollisionDetection: CollisionDetection = (args) => {
+  const pointerCollisions = pointerWithin(args);
+  return pointerCollisions.length > 0 ? pointerCollisions : rectIntersection(args);
+};
+
+// Extra screen pixels rendered around the viewport so panning doesn't reveal blank space
+const RENDER_MARGIN = 300;
+
+// How often to try reaching the API again while offline
+const RECONNECT_INTERVAL_MS = 15000;
+
+// How long a node changed elsewhere stays highlighted
+const REMOTE_CHANGE_HIGHLIGHT_MS = 2000;
+
+// Holding Alt when a drag starts draws or removes a dotted line instead of moving
+const isDottedLineGesture = (event: Event | null) =>
+  Boolean(event && "altKey" in event && event.altKey);
+
+// Drags are described in the chart's own live region, which also covers moves
+// made without dragging, so dnd-kit's built-in announcements are left silent
+const SILENT_ANNOUNCEMENTS: Announcements = {
+  onDragStart: () => undefined,
+  onDragOver: () => undefined,
+  onDragEnd: () => undefined,
+  onDragCancel: () => undefined,
+};
+
+const KEYBOARD_INSTRUCTIONS =
+  "Use the arrow keys to move between managers, reports and colleagues. " +
+  "Press Space or Enter to pick up an employee, the arrow keys to choose a new manager, " +
+  "Space or Enter to drop and Escape to cancel. Press M to pick the new manager from a list.";
 
 export default function OrgTree() {
+  const employeeService = useEmployeeService();
   const [employees, setEmployees] = useState<Employee[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
-  const [selectedTeam, setSelectedTeam] = useState("");
+  // An encoded field and value from the filter dropdown, or "" for everyone
+  const [selectedFilter, setSelectedFilter] = useState("");
+  const [fieldSchema, setFieldSchema] = useState<CustomFieldDefinition[]>([]);
   const [layout, setLayout] = useState<ELKLayout | null>(null);
   const [overNodeId, setOverNodeId] = useState<string | null>(null);
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [draggedIds, setDraggedIds] = useState<string[]>([]);
+  const [isDrawingDottedLine, setIsDrawingDottedLine] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [addingReportTo, setAddingReportTo] = useState<Employee | null>(null);
+  const [addingVacancyTo, setAddingVacancyTo] = useState<Employee | null>(null);
+  const [fillingVacancy, setFillingVacancy] = useState<Employee | null>(null);
+  const [removingEmployee, setRemovingEmployee] = useState<Employee | null>(null);
+  const [reassigningIds, setReassigningIds] = useState<string[] | null>(null);
+  // The card holding the chart's single tab stop, and the last thing said in its live region
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const pendingFocusRef = useRef<string | null>(null);
+  const treeRef = useRef<HTMLDivElement>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const offlineStore = useOfflineStore();
+  const [isOffline, setIsOffline] = useState(false);
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [isRetrying, setIsRetrying] = useState(false);
+  // While a draft scenario or a past date is shown, `employees` holds that
+  // org and the live one is kept here so syncing and other tabs' changes
+  // still reach it
+  const scenarioService = useScenarioService();
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [asOf, setAsOf] = useState<string | null>(null);
+  const [liveEmployees, setLiveEmployees] = useState<Employee[]>([]);
+  const [scenarios, setScenarios] = useState<ScenarioSummary[]>([]);
+  const [isManagingScenarios, setIsManagingScenarios] = useState(false);
+  const [isLoadingScenarios, setIsLoadingScenarios] = useState(false);
+  const [isReviewingScenario, setIsReviewingScenario] = useState(false);
+  const [isSavingScenario, setIsSavingScenario] = useState(false);
+  const [isTimelineOpen, setIsTimelineOpen] = useState(false);
+  const [timelineEvents, setTimelineEvents] = useState<EmployeeEvent[]>([]);
+  const [selectedHistory, setSelectedHistory] = useState<EmployeeEvent[]>([]);
+  const isShowingLiveOrg = !scenario && !asOf;
+  const isShowingLiveOrgRef = useRef(true);
+  useEffect(() => {
+    isShowingLiveOrgRef.current = isShowingLiveOrg;
+  }, [isShowingLiveOrg]);
+  const setLiveOrg = useCallback((update: React.SetStateAction<Employee[]>) => {
+    (isShowingLiveOrgRef.current ? setEmployees : setLiveEmployees)(update);
+  }, []);
+  const {
+    viewportRef,
+    transform,
+    viewportSize,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitTo,
+    panTo,
+    panHandlers,
+  } = usePanZoom(activeId !== null);
+  const [collapsedIds, setCollapsedIds] = usePersistedState<string[]>(
+    "org-tree:collapsed",
+    []
+  );
+
+  const [collapsedTeams, setCollapsedTeams] = usePersistedState<string[]>(
+    "org-tree:collapsed-teams",
+    []
+  );
+
+  const [storedLayoutSettings, setLayoutSettings] = usePersistedState<LayoutSettings>(
+    "org-tree:layout",
+    DEFAULT_LAYOUT_OPTIONS
+  );
+  const [showArrowheads, setShowArrowheads] = usePersistedState(
+    "org-tree:arrowheads",
+    false
+  );
+  const [showDottedLines, setShowDottedLines] = usePersistedState(
+    "org-tree:dotted-lines",
+    true
+  );
+  // Settings saved by older versions may lack newer keys
+  const layoutSettings = useMemo(
+    () => ({ ...DEFAULT_LAYOUT_OPTIONS, ...storedLayoutSettings }),
+    [storedLayoutSettings]
+  );
+
+  const employeeFields = useMemo(() => getEmployeeFields(fieldSchema), [fieldSchema]);
+
+  const filterGroups = useMemo(
+    () => getFilterGroups(employees, employeeFields),
+    [employees, employeeFields]
+  );
+
+  const employeesById = useMemo(() => {
+    const byId = new Map<string, Employee>();
+    employees.forEach((emp) => {
+      if (!byId.has(emp.id)) byId.set(emp.id, emp);
+    });
+    return byId;
+  }, [employees]);
+
+  const collapsedIdSet = useMemo(() => new Set(collapsedIds), [collapsedIds]);
 
-  const teams = [...new Set(employees.map((e) => e.team || ""))];
+  const hierarchyIssues = useMemo(() => validateHierarchy(employees), [employees]);
 
   const filteredEmployees = useMemo(() => {
     let filtered = employees;
 
     if (searchTerm) {
-      filtered = filtered.filter(
-        (emp) =>
-          emp.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          emp.designation.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          emp.team.toLowerCase().includes(searchTerm.toLowerCase())
-      );
+      filtered = filtered.filter((emp) => matchesSearch(emp, searchTerm, employeeFields));
     }
 
-    if (selectedTeam) {
-      filtered = filtered.filter((emp) => emp.team === selectedTeam);
+    if (selectedFilter) {
+      filtered = filtered.filter((emp) =>
+        matchesFieldFilter(emp, selectedFilter, employeeFields)
+      );
     }
 
     return filtered;
-  }, [searchTerm, selectedTeam, employees]);
+  }, [searchTerm, selectedFilter, employees, employeeFields]);
+
+  const reportCounts = useMemo(() => countReports(employees), [employees]);
+  const headcount = useMemo(() => countHeadcount(employees), [employees]);
+  const teamHeadcounts = useMemo(() => countHeadcountByTeam(employees), [employees]);
+
+  // Collapsed subtrees are left out of the graph entirely so they take no space in the layout
+  const hiddenIds = useMemo(
+    () => getCollapsedDescendantIds(employees, collapsedIds),
+    [employees, collapsedIds]
+  );
+
+  const visibleEmployees = useMemo(
+    () => employees.filter((emp) => !hiddenIds.has(emp.id)),
+    [employees, hiddenIds]
+  );
+
+  const visibleFilteredEmployees = useMemo(
+    () => filteredEmployees.filter((emp) => !hiddenIds.has(emp.id)),
+    [filteredEmployees, hiddenIds]
+  );
+
+  const toggleCollapsed = useCallback((employeeId: string) => {
+    setCollapsedIds((prev) =>
+      prev.includes(employeeId)
+        ? prev.filter((id) => id !== employeeId)
+        : [...prev, employeeId]
+    );
+  }, [setCollapsedIds]);
+
+  const toggleTeamCollapsed = useCallback((team: string) => {
+    setCollapsedTeams((prev) =>
+      prev.includes(team) ? prev.filter((t) => t !== team) : [...prev, team]
+    );
+  }, [setCollapsedTeams]);
 
   useEffect(() => {
+    // Each edit supersedes the layout still queued for the previous one
+    const controller = new AbortController();
     const calculateLayout = async () => {
-      const graph = await calculateOrgChartLayout(employees, filteredEmployees);
-      setLayout(graph);
+      const graph = await calculateOrgChartLayout(visibleEmployees, visibleFilteredEmployees, {
+        ...layoutSettings,
+        collapsedTeams,
+        signal: controller.signal,
+      });
+      if (!controller.signal.aborted) setLayout(graph);
     };
     
     if (employees.length !== 0) {
       calculateLayout();
     }
-  }, [filteredEmployees, employees]);
+    return () => controller.abort();
+  }, [visibleFilteredEmployees, visibleEmployees, employees, layoutSettings, collapsedTeams]);
+
+  const updateEmployeeManager = useCallback(async ({ employeeId, managerId }: Reassignment) => {
+    await employeeService.update(employeeId, { managerId });
+  }, [employeeService]);
 
+  const outbox = useOutbox(offlineStore, updateEmployeeManager);
+  const { flush: flushOutbox, load: loadOutbox } = outbox;
+  const queuedIds = useMemo(
+    () => new Set(outbox.items.map((item) => item.employeeId)),
+    [outbox.items]
+  );
+
+  // Loads the org from the server, first sending any moves queued while offline
+  const syncEmployees = useCallback(async () => {
+    const current = await employeeService.list();
+    const { sent } = await flushOutbox(current);
+    setLiveOrg(sent > 0 ? await employeeService.list() : current);
+    setIsOffline(false);
+    setCachedAt(null);
+  }, [employeeService, flushOutbox, setLiveOrg]);
+
+  // The cached org is shown straight away, marked as stale until the server
+  // answers. If the server cannot be reached or fails, it stays up offline.
   const fetchEmployees = useCallback(async () => {
     setIsLoading(true);
+    const cached = offlineStore ? await offlineStore.loadEmployees() : null;
+    if (cached) {
+      setLiveOrg(applyOutboxItems(cached.employees, await loadOutbox()));
+      setCachedAt(cached.savedAt);
+      setIsLoading(false);
+    }
     try {
-      const response = await axios.get("/api/employees");
-      console.log("employees list response", response);
-      const employees = response?.data?.employees || [];
-      setEmployees(employees);
+      await syncEmployees();
     } catch (error) {
       console.error("Error fetching employees:", error);
-      notification.error({
-        title: "Error fetching employees",
-        description: "Please try again later",
-        duration: 2000,
-      });
+      if (cached) {
+        setIsOffline(true);
+      } else {
+        notification.error({
+          title: "Error fetching employees",
+          description: "Please try again later",
+          duration: 2000,
+        });
+      }
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [syncEmployees, offlineStore, loadOutbox, setLiveOrg]);
 
   useEffect(() => {
     fetchEmployees();
   }, [fetchEmployees]);
 
-  const handleDragStart = (event: DragStartEvent) => {
-    setActiveId(event.active.id.toString());
-  };
+  // Without the schema the chart still works with the built-in fields
+  useEffect(() => {
+    let cancelled = false;
+    employeeService
+      .getFieldSchema()
+      .then((fields) => {
+        if (!cancelled) setFieldSchema(fields);
+      })
+      .catch((error) => console.error("Error fetching employee fields:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeService]);
 
-  const updateEmployeeManager = useCallback(async (draggedId: string, newManagerId: string) => {
+  const retrySync = useCallback(async () => {
+    setIsRetrying(true);
     try {
-        const employee = employees.find((e) => e.id === draggedId);
-        const response = await axios.patch(`/api/employees/${draggedId}`, {
-            managerId: newManagerId,
-            ...employee
-        });
-        console.log("update employee manager response", response.data);
+      await syncEmployees();
     } catch (error) {
-        console.error("Error updating employee manager:", error);
+      // While the cached org is up, any failure just means still offline
+      if (cachedAt === null && !isNetworkError(error)) {
         notification.error({
-            title: "Error updating employee manager",
-            description: "Please try again later",
-            duration: 2000,
+          title: "Error syncing employees",
+          description: describeApiError(error),
+          duration: 2000,
         });
+      }
+    } finally {
+      setIsRetrying(false);
     }
-  }, [employees]);
+  }, [syncEmployees, cachedAt]);
 
-  const isSubordinate = useCallback((empId: string, potentialSubId: string) => {
-    const emp = employees.find((e) => e.id === potentialSubId);
-    if (!emp || !emp.managerId) return false;
-    if (emp.managerId === empId) return true;
-    return isSubordinate(empId, emp.managerId);
-  }, [employees]);
+  // While offline, try again when the browser reports a connection and every
+  // so often in case only the API was down
+  useEffect(() => {
+    if (!isOffline) return;
+    window.addEventListener("online", retrySync);
+    const timer = setInterval(retrySync, RECONNECT_INTERVAL_MS);
+    return () => {
+      window.removeEventListener("online", retrySync);
+      clearInterval(timer);
+    };
+  }, [isOffline, retrySync]);
 
-  const handleDragEnd = (event: DragEndEvent) => {
-    const { active, over } = event;
-    setOverNodeId(null);
-    setActiveId(null);
+  // The cache holds the server's view, so it is only refreshed while online
+  // and never from itself, a draft or a past date
+  useEffect(() => {
+    if (offlineStore && !isOffline && !isLoading && cachedAt === null && isShowingLiveOrg && employees.length > 0) {
+      offlineStore.saveEmployees(employees);
+    }
+  }, [offlineStore, isOffline, isLoading, cachedAt, isShowingLiveOrg, employees]);
 
-    if (!over || active.id === over.id) return;
+  // A short drag threshold lets plain and modifier clicks reach the nodes for selection
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: chartKeyboardCoordinates })
+  );
 
-    const draggedId = active.id.toString();
-    const newManagerId = over.id.toString().replace("drop-", "");
+  const handleSelect = useCallback((employeeId: string, event: React.MouseEvent) => {
+    const additive = event.shiftKey || event.ctrlKey || event.metaKey;
+    setSelectedIds((prev) => {
+      if (!additive) {
+        return prev.size === 1 && prev.has(employeeId) ? new Set() : new Set([employeeId]);
+      }
+      const next = new Set(prev);
+      if (next.has(employeeId)) {
+        next.delete(employeeId);
+      } else {
+        next.add(employeeId);
+      }
+      return next;
+    });
+  }, []);
 
-    if (draggedId === newManagerId) return;
+  // "Jane Smith", or "Jane Smith and 2 others" for a group
+  const describeGroup = useCallback((ids: string[]) => {
+    const first = employeesById.get(ids[0])?.name ?? "Employee";
+    if (ids.length <= 1) return first;
+    return `${first} and ${ids.length - 1} ${ids.length === 2 ? "other" : "others"}`;
+  }, [employeesById]);
 
-    if (isSubordinate(draggedId, newManagerId)) {
+  const nameOf = useCallback(
+    (id: string) => employeesById.get(id)?.name ?? "the chosen manager",
+    [employeesById]
+  );
+
+  const handleDragStart = (event: DragStartEvent) => {
+    const id = event.active.id.toString();
+    // Dragging a selected node carries the whole selection along
+    const group = selectedIds.has(id) ? [...selectedIds] : [id];
+    const isDottedLine = isDottedLineGesture(event.activatorEvent);
+    setActiveId(id);
+    setDraggedIds(group);
+    setIsDrawingDottedLine(isDottedLine);
+    setAnnouncement(
+      `Picked up ${describeGroup(group)}${isDottedLine ? " to draw a dotted line" : ""}.` +
+        (event.activatorEvent instanceof KeyboardEvent
+          ? " Use the arrow keys to choose a manager, Space to drop, or Escape to cancel."
+          : "")
+    );
+  };
+
+  const { enqueue } = outbox;
+  const saveReassignments = useCallback(async (
+    reassignments: Reassignment[],
+    previousManagerIds: Map<string, string>
+  ) => {
+    // Moves in a draft stay local until the draft is saved
+    if (scenario) return;
+    const queue = () => enqueue(
+      reassignments.map(({ employeeId, managerId }) => ({
+        employeeId,
+        fromManagerId: previousManagerIds.get(employeeId) ?? "",
+        toManagerId: managerId,
+      }))
+    );
+    if (offlineStore && isOffline) {
+      return queue();
+    }
+    try {
+      if (reassignments.length === 1) {
+        return await updateEmployeeManager(reassignments[0]);
+      }
+      await employeeService.batch(reassignments);
+    } catch (error) {
+      if (!offlineStore || !isNetworkError(error)) throw error;
+      setIsOffline(true);
+      return queue();
+    }
+  }, [employeeService, updateEmployeeManager, offlineStore, isOffline, enqueue, scenario]);
+
+  const { reassign, isPending } = useOptimisticReassignments(
+    employees,
+    setEmployees,
+    saveReassignments
+  );
+
+  const reassignEmployees = useCallback(async function replay(
+    reassignments: Reassignment[],
+    onSaved?: () => void
+  ) {
+    try {
+      await reassign(reassignments);
+      onSaved?.();
+    } catch (error) {
+      console.error("Error updating employee manager:", error);
+      const key = `reassign-${reassignments.map((r) => r.employeeId).join(",")}`;
+      notification.error({
+        key,
+        title: "Error updating employee manager",
+        description: describeApiError(error),
+        duration: 2000,
+        actions: (
+          <Button
+            size="small"
+            onClick={() => {
+              notification.destroy(key);
+              replay(reassignments, onSaved);
+            }}
+          >
+            Retry
+          </Button>
+        ),
+      });
+    }
+  }, [reassign]);
+
+  const history = useReassignmentHistory(reassignEmployees);
+  const { undo, redo, discard, clear: clearHistory } = history;
+
+  // Queued moves that could not be applied leave their undo entries stale
+  useEffect(() => {
+    outbox.conflicts.forEach(({ item }) => discard(item.employeeId));
+  }, [outbox.conflicts, discard]);
+
+  const { highlightedIds, highlight } = useHighlights(REMOTE_CHANGE_HIGHLIGHT_MS);
+
+  // Merge changes made in other tabs or by other people into the current view.
+  // Echoes of this tab's own edits leave the data as it is and are skipped.
+  // A draft or past date is left as it is; the diff against the live org
+  // picks the changes up.
+  useChangeFeed((changes) => {
+    if (!isShowingLiveOrg) {
+      setLiveEmployees((prev) => applyEmployeeChanges(prev, changes).employees);
+      return;
+    }
+    const { changedIds } = applyEmployeeChanges(employees, changes);
+    if (changedIds.length === 0) return;
+    setEmployees((prev) => applyEmployeeChanges(prev, changes).employees);
+    // Undo entries were recorded against the old data
+    changedIds.forEach((id) => discard(id));
+    const deletedIds = new Set(
+      changes.flatMap((change) => (change.type === "deleted" ? [change.id] : []))
+    );
+    if (deletedIds.size > 0) {
+      setSelectedIds((prev) => new Set([...prev].filter((id) => !deletedIds.has(id))));
+    }
+    highlight(changedIds.filter((id) => !deletedIds.has(id)));
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target;
+      // Leave text fields to their own undo behaviour
+      if (
+        target instanceof Element &&
+        target.closest("input, textarea, [contenteditable='true']")
+      )
+        return;
+
+      if (event.key === "Escape") {
+        setSelectedIds(new Set());
+        return;
+      }
+      if (!(event.ctrlKey || event.metaKey) || asOf) return;
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [undo, redo, asOf]);
+
+  const createEmployee = useCallback(async (newEmployee: NewEmployee) => {
+    try {
+      const created = scenario
+        ? { ...newEmployee, id: createDraftEmployeeId(employees, liveEmployees) }
+        : await employeeService.create(newEmployee);
+      setEmployees((prev) => [...prev, created]);
+      setAddingReportTo(null);
+      setAddingVacancyTo(null);
+    } catch (error) {
+      console.error("Error creating employee:", error);
+      notification.error({
+        title: newEmployee.vacancy ? "Error adding open position" : "Error adding employee",
+        description: describeApiError(error),
+        duration: 2000,
+      });
+    }
+  }, [employeeService, scenario, employees, liveEmployees]);
+
+  const removeEmployee = useCallback(async (employee: Employee, reassignTo: string) => {
+    try {
+      if (!scenario) await employeeService.delete(employee.id, reassignTo);
+      setEmployees((prev) =>
+        removeSecondaryManager(
+          prev
+            .filter((emp) => emp.id !== employee.id)
+            .map((emp) =>
+              emp.managerId === employee.id ? withManager(emp, reassignTo) : emp
+            ),
+          employee.id
+        )
+      );
+      discard(employee.id);
+      setRemovingEmployee(null);
+    } catch (error) {
+      console.error("Error removing employee:", error);
+      notification.error({
+        title: "Error removing employee",
+        description: describeApiError(error),
+        duration: 2000,
+      });
+    }
+  }, [employeeService, scenario, discard]);
+
+  // Filling moves the position's reports too, so the whole org is taken from the answer
+  const fillPosition = useCallback(async (vacancy: Employee, filler: VacancyFiller) => {
+    try {
+      if (scenario) {
+        const error = validateFill(employees, vacancy.id, filler);
+        if (error) throw EmployeeServiceError.fromApiError(error);
+        const person = "employeeId" in filler
+          ? (employeesById.get(filler.employeeId) as Employee)
+          : { ...filler.employee, id: createDraftEmployeeId(employees, liveEmployees) };
+        setEmployees(fillVacancy(employees, vacancy.id, person));
+      } else {
+        setEmployees(await employeeService.fillVacancy(vacancy.id, filler));
+      }
+      // Old history entries may point at the position or at the person's old manager
+      discard(vacancy.id);
+      if ("employeeId" in filler) discard(filler.employeeId);
+      setFillingVacancy(null);
+    } catch (error) {
+      console.error("Error filling position:", error);
+      notification.error({
+        title: "Error filling position",
+        description: describeApiError(error),
+        duration: 2000,
+      });
+    }
+  }, [employeeService, scenario, employees, employeesById, liveEmployees, discard]);
+
+  // The server answers with the whole org, so the chart re-lays out from it
+  const importEmployees = useCallback(async (imported: ImportedEmployee[]) => {
+    try {
+      setEmployees(
+        scenario
+          ? mergeImport(employees, imported)
+          : await employeeService.importEmployees(imported)
+      );
+      // Imported records may have new managers that old history entries no longer match
+      imported.forEach((emp) => discard(emp.id));
+      setIsImporting(false);
+    } catch (error) {
+      console.error("Error importing employees:", error);
+      notification.error({
+        title: "Error importing employees",
+        description: describeApiError(error),
+        duration: 2000,
+      });
+    }
+  }, [employeeService, scenario, employees, discard]);
+
+  const scenarioDiff = useMemo(
+    () => (scenario ? diffScenario(liveEmployees, employees) : null),
+    [scenario, liveEmployees, employees]
+  );
+  const hasUnsavedScenarioChanges = useMemo(
+    () => scenario !== null && diffEmployees(scenario.employees, employees).length > 0,
+    [scenario, employees]
+  );
+  // Managers in the diff may exist only in the live org or only in the draft
+  const scenarioEmployeesById = useMemo(
+    () => new Map([...liveEmployees, ...employees].map((emp) => [emp.id, emp])),
+    [liveEmployees, employees]
+  );
+
+  const reportError = useCallback((title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    notification.error({
+      title,
+      description: describeApiError(error),
+      duration: 2000,
+    });
+  }, []);
+
+  const manageScenarios = useCallback(async () => {
+    setIsManagingScenarios(true);
+    setIsLoadingScenarios(true);
+    try {
+      setScenarios(await scenarioService.list());
+    } catch (error) {
+      reportError("Error loading scenarios", error);
+    } finally {
+      setIsLoadingScenarios(false);
+    }
+  }, [scenarioService, reportError]);
+
+  // Undo entries belong to whichever org was showing before
+  const showScenario = useCallback((opened: Scenario) => {
+    if (!scenario) setLiveEmployees(employees);
+    setScenario(opened);
+    setEmployees(opened.employees);
+    setSelectedIds(new Set());
+    clearHistory();
+    setIsManagingScenarios(false);
+  }, [scenario, employees, clearHistory]);
+
+  const closeScenario = useCallback(() => {
+    if (!scenario) return;
+    setEmployees(liveEmployees);
+    setScenario(null);
+    setSelectedIds(new Set());
+    clearHistory();
+    setIsReviewingScenario(false);
+  }, [scenario, liveEmployees, clearHistory]);
+
+  const createScenario = useCallback(async (name: string) => {
+    try {
+      showScenario(await scenarioService.create(name));
+    } catch (error) {
+      reportError("Error creating scenario", error);
+    }
+  }, [scenarioService, showScenario, reportError]);
+
+  const openScenario = useCallback(async (id: string) => {
+    try {
+      showScenario(await scenarioService.get(id));
+    } catch (error) {
+      reportError("Error opening scenario", error);
+    }
+  }, [scenarioService, showScenario, reportError]);
+
+  const deleteScenario = useCallback(async (id: string) => {
+    try {
+      await scenarioService.delete(id);
+      setScenarios((prev) => prev.filter((summary) => summary.id !== id));
+      if (scenario?.id === id) closeScenario();
+    } catch (error) {
+      reportError("Error deleting scenario", error);
+    }
+  }, [scenarioService, scenario, closeScenario, reportError]);
+
+  const saveScenario = useCallback(async () => {
+    if (!scenario) return false;
+    setIsSavingScenario(true);
+    try {
+      setScenario(await scenarioService.update(scenario.id, { employees }));
+      return true;
+    } catch (error) {
+      reportError("Error saving scenario", error);
+      return false;
+    } finally {
+      setIsSavingScenario(false);
+    }
+  }, [scenarioService, scenario, employees, reportError]);
+
+  // The draft is saved first so the server publishes exactly what is on screen
+  const publishScenario = useCallback(async () => {
+    if (!scenario) return;
+    if (hasUnsavedScenarioChanges && !(await saveScenario())) return;
+    try {
+      const published = await scenarioService.publish(scenario.id);
+      setEmployees(published);
+      setScenario(null);
+      setSelectedIds(new Set());
+      clearHistory();
+      setIsReviewingScenario(false);
+    } catch (error) {
+      reportError("Error publishing scenario", error);
+    }
+  }, [
+    scenarioService,
+    scenario,
+    hasUnsavedScenarioChanges,
+    saveScenario,
+    clearHistory,
+    reportError,
+  ]);
+
+  const openTimeline = useCallback(async () => {
+    setIsTimelineOpen(true);
+    try {
+      setTimelineEvents(await employeeService.events());
+    } catch (error) {
+      reportError("Error loading history", error);
+    }
+  }, [employeeService, reportError]);
+
+  // Slider moves can overtake each other; only the latest answer is shown
+  const asOfRequestRef = useRef(0);
+  const showOrgAsOf = useCallback(async (date: string | null) => {
+    const request = ++asOfRequestRef.current;
+    if (date === null) {
+      if (asOf) setEmployees(liveEmployees);
+      setAsOf(null);
+      return;
+    }
+    try {
+      const past = await employeeService.listAsOf(date);
+      if (request !== asOfRequestRef.current) return;
+      if (!asOf) setLiveEmployees(employees);
+      setEmployees(past);
+      setAsOf(date);
+    } catch (error) {
+      reportError("Error loading the org for that date", error);
+    }
+  }, [employeeService, asOf, employees, liveEmployees, reportError]);
+
+  const closeTimeline = useCallback(() => {
+    showOrgAsOf(null);
+    setIsTimelineOpen(false);
+  }, [showOrgAsOf]);
+
+  const timelineEmployeeId =
+    isTimelineOpen && selectedIds.size === 1 ? [...selectedIds][0] : null;
+
+  useEffect(() => {
+    setSelectedHistory([]);
+    if (!timelineEmployeeId) return;
+    let cancelled = false;
+    employeeService.history(timelineEmployeeId).then(
+      (history) => {
+        if (!cancelled) setSelectedHistory(history);
+      },
+      (error) => console.error("Error loading employee history:", error)
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [employeeService, timelineEmployeeId]);
+
+  const isSubordinate = useCallback(
+    (empId: string, potentialSubId: string) =>
+      isInReportingChain(employeesById, empId, potentialSubId),
+    [employeesById]
+  );
+
+  const focusEmployee = useCallback((employeeId: string) => {
+    if (!filteredEmployees.some((emp) => emp.id === employeeId)) {
+      setSearchTerm("");
+      setSelectedFilter("");
+    }
+    setSelectedIds(new Set([employeeId]));
+    const node = layout?.children?.find((n) => n.id === employeeId);
+    if (node?.x !== undefined && node.y !== undefined) {
+      panTo({ x: node.x + node.width / 2, y: node.y + node.height / 2 });
+    }
+  }, [filteredEmployees, layout, panTo]);
+
+  // Adds a dotted line from each employee in `group` to `managerId`, or
+  // removes it when all of them already have one. Drafts keep the change local.
+  const toggleDottedLines = useCallback(async (group: string[], managerId: string) => {
+    const members = group
+      .map((id) => employeesById.get(id))
+      .filter((emp): emp is Employee => !!emp && emp.managerId !== managerId);
+    if (members.length === 0) return;
+    const isRemoving = members.every((emp) => emp.secondaryManagerIds?.includes(managerId));
+    const updates = members
+      .filter((emp) => isRemoving || !emp.secondaryManagerIds?.includes(managerId))
+      .map((emp) => ({
+        id: emp.id,
+        secondaryManagerIds: isRemoving
+          ? (emp.secondaryManagerIds ?? []).filter((id) => id !== managerId)
+          : [...(emp.secondaryManagerIds ?? []), managerId],
+      }));
+
+    if (scenario) {
+      const saved = new Map(updates.map(({ id, secondaryManagerIds }) => [id, secondaryManagerIds]));
+      setEmployees((prev) =>
+        prev.map((emp) => (saved.has(emp.id) ? { ...emp, secondaryManagerIds: saved.get(emp.id) } : emp))
+      );
+      if (!isRemoving) setShowDottedLines(true);
+      return;
+    }
+
+    // Each update stands alone, so the ones that went through are kept even when others fail
+    const results = await Promise.allSettled(
+      updates.map(({ id, secondaryManagerIds }) => employeeService.update(id, { secondaryManagerIds }))
+    );
+    const savedById = new Map<string, Employee>();
+    const failures: unknown[] = [];
+    results.forEach((result) => {
+      if (result.status === "fulfilled") savedById.set(result.value.id, result.value);
+      else failures.push(result.reason);
+    });
+    if (savedById.size > 0) {
+      setEmployees((prev) => prev.map((emp) => savedById.get(emp.id) ?? emp));
+      if (!isRemoving) setShowDottedLines(true);
+    }
+    if (failures.length > 0) {
+      console.error("Error updating dotted-line manager:", failures[0]);
+      notification.error({
+        title: "Error updating dotted-line manager",
+        description: describeApiError(failures[0]),
+        duration: 2000,
+      });
+    }
+  }, [employeesById, employeeService, scenario, setShowDottedLines]);
+
+  // Every way of moving people, dragging or picking from a list, ends up here
+  const moveEmployees = (group: string[], newManagerId: string) => {
+    const who = describeGroup(group);
+    if (group.some((draggedId) => isSubordinate(draggedId, newManagerId))) {
       notification.info({
         title: "Cannot assign a subordinate as manager!",
         duration: 1,
       });
+      setAnnouncement(`Cannot move ${who}: ${nameOf(newManagerId)} reports to them.`);
       return;
     }
 
-    setEmployees((prev) =>
-      prev.map((emp) =>
-        emp.id === draggedId ? { ...emp, managerId: newManagerId } : emp
-      )
+    const entry: HistoryEntry = group
+      .map((draggedId) => ({
+        employeeId: draggedId,
+        fromManagerId: employeesById.get(draggedId)?.managerId ?? "",
+        toManagerId: newManagerId,
+      }))
+      .filter((change) => change.fromManagerId !== change.toManagerId);
+    if (entry.length === 0) {
+      setAnnouncement(`${who} already ${group.length === 1 ? "reports" : "report"} to ${nameOf(newManagerId)}.`);
+      return;
+    }
+
+    reassignEmployees(
+      entry.map((change) => ({ employeeId: change.employeeId, managerId: change.toManagerId })),
+      () => history.record(entry)
     );
-    updateEmployeeManager(draggedId, newManagerId);
+    setAnnouncement(`${who} now ${group.length === 1 ? "reports" : "report"} to ${nameOf(newManagerId)}.`);
+  };
+
+  const endDrag = () => {
+    setOverNodeId(null);
+    setActiveId(null);
+    setDraggedIds([]);
+    setIsDrawingDottedLine(false);
+  };
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    const group = draggedIds;
+    const isDottedLine = isDrawingDottedLine;
+    endDrag();
+
+    if (!over || active.id === over.id) {
+      setAnnouncement(`Move cancelled. ${describeGroup(group)} stayed put.`);
+      return;
+    }
+
+    const newManagerId = over.id.toString().replace("drop-", "");
+
+    if (group.includes(newManagerId)) return;
+
+    if (isDottedLine) {
+      toggleDottedLines(group, newManagerId);
+      return;
+    }
+
+    moveEmployees(group, newManagerId);
+  };
+
+  const handleDragCancel = () => {
+    setAnnouncement(`Move cancelled. ${describeGroup(draggedIds)} stayed put.`);
+    endDrag();
   };
 
   const handleDragOver = (event: DragOverEvent) => {
-    if (event.over) {
-      setOverNodeId(event.over.id.toString().replace("drop-", ""));
+    const targetId = event.over ? event.over.id.toString().replace("drop-", "") : null;
+    setOverNodeId(targetId);
+
+    const who = describeGroup(draggedIds);
+    if (targetId === null) {
+      setAnnouncement(`${who} is not over anyone.`);
+    } else if (draggedIds.includes(targetId)) {
+      setAnnouncement(`${who} is back in place.`);
+    } else if (isDrawingDottedLine) {
+      setAnnouncement(`Drop to add or remove a dotted line from ${who} to ${nameOf(targetId)}.`);
+    } else if (isInvalidDrop(draggedIds, targetId)) {
+      setAnnouncement(`${nameOf(targetId)} reports to ${who}, so cannot be their manager.`);
     } else {
-      setOverNodeId(null);
+      setAnnouncement(`Drop to have ${who} report to ${nameOf(targetId)}.`);
     }
   };
 
-  const isInvalidDrop = useCallback((draggedId: string, targetId: string) => {
-    if (!draggedId || !targetId || draggedId === targetId) return false;
-    return isSubordinate(draggedId, targetId);
-  }, [isSubordinate]);
+  // Dotted lines sit outside the reporting tree, so only the dragged
+  // employees themselves are ruled out
+  const isInvalidDrop = useCallback((group: string[], targetId: string) => {
+    if (group.length === 0 || !targetId || targetId === activeId) return false;
+    return group.some(
+      (draggedId) =>
+        draggedId === targetId ||
+        (!isDrawingDottedLine && isSubordinate(draggedId, targetId))
+    );
+  }, [isSubordinate, activeId, isDrawingDottedLine]);
 
   const layoutDimensions = useMemo(() => {
     if (!layout) return null;
@@ -170,6 +1062,196 @@ export default function OrgTree() {
     return { width: layoutWidth, height: layoutHeight };
   }, [layout]);
 
+  const layoutNodesById = useMemo(
+    () => new Map((layout?.children || []).map((node) => [node.id, node])),
+    [layout]
+  );
+
+  const chartTree = useMemo(
+    () => createChartTree(layout?.children || [], employeesById, layoutSettings.direction),
+    [layout, employeesById, layoutSettings.direction]
+  );
+
+  // The last focused card keeps the tab stop while it is laid out
+  const focusTargetId =
+    focusedId !== null && layoutNodesById.has(focusedId) && employeesById.has(focusedId)
+      ? focusedId
+      : chartTree.firstRoot;
+
+  // Only cards near the viewport are mounted, so very large orgs stay responsive.
+  // Without a measured viewport (e.g. before the first resize) everything is drawn.
+  const renderBounds = useMemo(() => {
+    if (viewportSize.width === 0 || viewportSize.height === 0) return null;
+    const visible = getVisibleBounds(transform, viewportSize);
+    const margin = RENDER_MARGIN / transform.scale;
+    return {
+      x: visible.x - margin,
+      y: visible.y - margin,
+      width: visible.width + margin * 2,
+      height: visible.height + margin * 2,
+    };
+  }, [transform, viewportSize]);
+
+  const renderedNodes = useMemo(() => {
+    const nodes = layout?.children || [];
+    if (!renderBounds) return nodes;
+    // The dragged card and the tab stop stay mounted so neither loses focus off screen
+    return nodes.filter(
+      (node) =>
+        node.id === activeId ||
+        node.id === focusTargetId ||
+        (node.x !== undefined &&
+          node.y !== undefined &&
+          intersects({ x: node.x, y: node.y, width: node.width, height: node.height }, renderBounds))
+    );
+  }, [layout, renderBounds, activeId, focusTargetId]);
+
+  const renderedNodeIds = useMemo(
+    () => new Set(renderedNodes.map((node) => node.id)),
+    [renderedNodes]
+  );
+
+  // Moving focus to a card off screen pans to it first; the card is then
+  // focused once it has been rendered
+  const focusCard = useCallback((employeeId: string) => {
+    const node = layoutNodesById.get(employeeId);
+    if (node?.x === undefined || node.y === undefined) return;
+    const bounds = { x: node.x, y: node.y, width: node.width, height: node.height };
+    if (
+      viewportSize.width > 0 &&
+      viewportSize.height > 0 &&
+      !intersects(bounds, getVisibleBounds(transform, viewportSize))
+    ) {
+      panTo({ x: node.x + node.width / 2, y: node.y + node.height / 2 });
+    }
+    pendingFocusRef.current = employeeId;
+    setFocusedId(employeeId);
+  }, [layoutNodesById, transform, viewportSize, panTo]);
+
+  useEffect(() => {
+    const employeeId = pendingFocusRef.current;
+    if (employeeId === null) return;
+    const card = [...(treeRef.current?.querySelectorAll<HTMLElement>('[role="treeitem"]') ?? [])]
+      .find((element) => element.dataset.nodeId === employeeId);
+    if (!card) return;
+    pendingFocusRef.current = null;
+    // The stage is positioned by the pan transform, so the browser must not scroll it as well
+    card.focus({ preventScroll: true });
+  }, [focusedId, renderedNodes]);
+
+  const reassigningEmployees = useMemo(
+    () =>
+      reassigningIds &&
+      reassigningIds.flatMap((id) => {
+        const employee = employeesById.get(id);
+        return employee ? [employee] : [];
+      }),
+    [reassigningIds, employeesById]
+  );
+
+  const openReassignPicker = useCallback((employeeId: string) => {
+    setReassigningIds(selectedIds.has(employeeId) ? [...selectedIds] : [employeeId]);
+  }, [selectedIds]);
+
+  const handleTreeKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys on a card's buttons, and keys during a keyboard drag, are not for moving focus
+    const employeeId = (event.target as HTMLElement).dataset.nodeId;
+    if (!employeeId || activeId !== null || event.altKey || event.ctrlKey || event.metaKey) return;
+
+    if (event.key === "m" || event.key === "M") {
+      if (asOf) return;
+      event.preventDefault();
+      openReassignPicker(employeeId);
+      return;
+    }
+
+    const move = getTreeMove(event.key, layoutSettings.direction);
+    if (!move) return;
+    event.preventDefault();
+    const next = chartTree.neighbor(employeeId, move);
+    if (next) {
+      focusCard(next);
+    } else if (move === "report" && collapsedIdSet.has(employeeId)) {
+      toggleCollapsed(employeeId);
+    }
+  };
+
+  // Dotted lines between cards that are both laid out and at least one on screen
+  const dottedLines = useMemo(() => {
+    if (!showDottedLines || !layout) return [];
+    return (layout.children || []).flatMap((node) => {
+      const employee = employeesById.get(node.id);
+      return (employee?.secondaryManagerIds ?? [])
+        .filter(
+          (managerId) =>
+            managerId !== employee?.managerId &&
+            layoutNodesById.has(managerId) &&
+            (renderedNodeIds.has(managerId) || renderedNodeIds.has(node.id))
+        )
+        .map((managerId) => ({ managerId, employeeId: node.id }));
+    });
+  }, [showDottedLines, layout, employeesById, layoutNodesById, renderedNodeIds]);
+
+  // Charts are drawn from the computed layout rather than the DOM, so cards
+  // outside the viewport are included while filtered and collapsed ones stay out
+  const exportChart = useCallback(async (
+    format: ExportFormat | DataExportFormat,
+    { scale, filteredOnly }: ExportOptions
+  ) => {
+    try {
+      if (format in DATA_EXPORT_FILES) {
+        const dataFormat = format as DataExportFormat;
+        const { extension, mimeType } = DATA_EXPORT_FILES[dataFormat];
+        const data = serializeEmployees(filteredOnly ? filteredEmployees : employees, dataFormat, fieldSchema);
+        downloadBlob(new Blob([data], { type: mimeType }), `employees.${extension}`);
+      } else {
+        if (!layout || !layoutDimensions) return;
+        const svg = buildChartSvg(layout, employeesById, layoutDimensions, {
+          direction: layoutSettings.direction,
+          showArrowheads,
+          showDottedLines,
+        });
+        const blob =
+          format === "svg"
+            ? new Blob([svg], { type: "image/svg+xml" })
+            : format === "png"
+              ? await svgToPng(svg, layoutDimensions, scale)
+              : await svgToPdf(svg, layoutDimensions);
+        downloadBlob(blob, `org-chart.${format}`);
+      }
+      setIsExporting(false);
+    } catch (error) {
+      console.error(error);
+      notification.error({
+        title: "Error exporting",
+        description: "Please try again later",
+        duration: 2000,
+      });
+    }
+  }, [
+    layout,
+    layoutDimensions,
+    employees,
+    filteredEmployees,
+    fieldSchema,
+    employeesById,
+    layoutSettings.direction,
+    showArrowheads,
+    showDottedLines,
+  ]);
+
+  const fitToScreen = useCallback(() => {
+    if (!layoutDimensions) return;
+    fitTo({ x: 0, y: 0, ...layoutDimensions });
+  }, [layoutDimensions, fitTo]);
+
+  const zoomToSelection = useCallback(() => {
+    const bounds = getNodesBounds(
+      layout?.children?.filter((node) => selectedIds.has(node.id)) || []
+    );
+    if (bounds) fitTo(bounds, 1.5);
+  }, [layout, selectedIds, fitTo]);
+
   return (
     <div className="app-container">
       <div className="sidebar">
@@ -177,181 +1259,432 @@ export default function OrgTree() {
           <h2>Employees</h2>
           <input
             type="text"
-            placeholder="Search by name, designation, or team..."
+            placeholder="Search by name, designation, or any field..."
             className="search-box"
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
           />
           <Select
             className="filter-dropdown"
-            value={selectedTeam}
-            onChange={(value) => setSelectedTeam(value)}
+            value={selectedFilter}
+            onChange={(value) => setSelectedFilter(value)}
             options={[
-                { label: "All Teams", value: "" }
-                , ...teams.map((team) => ({
-                    label: team,
-                    value: team
-                })
-            )]}
+              { label: "All employees", value: "" },
+              ...filterGroups.map(({ field, values }) => ({
+                label: field.label,
+                options: values.map((value) => ({
+                  label: formatFieldValue(field, value),
+                  value: encodeFieldFilter(field.key, value),
+                })),
+              })),
+            ]}
           />
-        </div>
-        <div className="employee-list">
-          {isLoading ? (
-            <>
-              {[...Array(6)].map((_, index) => (
-                <div key={index} className="employee-list-item">
-                  <Skeleton.Node
-                    active
-                    style={{
-                      width: "100%",
-                      height: "60px",
-                    }}
-                  />
-                </div>
-              ))}
-            </>
-          ) : (
-            filteredEmployees.map((emp) => (
-              <div key={emp.id} className="employee-list-item">
-                <div className="employee-list-item-name">{emp.name}</div>
-                <div className="employee-list-item-designation">
-                  {emp.designation}
-                </div>
-                <span className="employee-list-item-team">{emp.team}</span>
-              </div>
-            ))
+          {!isLoading && (
+            <div className="headcount-summary" data-testid="headcount-summary">
+              {describeHeadcount(headcount)}
+            </div>
           )}
         </div>
+        <IssuesPanel
+          issues={hierarchyIssues}
+          employeesById={employeesById}
+          onFocusEmployee={focusEmployee}
+        />
+        {isLoading ? (
+          <div className="employee-list">
+            {[...Array(6)].map((_, index) => (
+              <div key={index} className="employee-list-item">
+                <Skeleton.Node
+                  active
+                  style={{
+                    width: "100%",
+                    height: "60px",
+                  }}
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <EmployeeList
+            employees={filteredEmployees}
+            fields={employeeFields}
+            selectedIds={selectedIds}
+            onSelect={handleSelect}
+          />
+        )}
       </div>
 
       <div className="chart-container">
-        {isLoading ? (
-          LoadingSkeleton
-        ) : (
-          <DndContext
-            onDragStart={handleDragStart}
-            onDragEnd={handleDragEnd}
-            onDragOver={handleDragOver}
-          >
-            <div
-              className="chart-canvas"
-              style={
-                layoutDimensions
-                  ? {
-                      width: `${layoutDimensions.width}px`,
-                      height: `${layoutDimensions.height}px`,
-                    }
-                  : undefined
-              }
+        <ChartToolbar
+          canUndo={history.canUndo && !asOf}
+          canRedo={history.canRedo && !asOf}
+          onUndo={undo}
+          onRedo={redo}
+          zoom={transform.scale}
+          onZoomIn={zoomIn}
+          onZoomOut={zoomOut}
+          onResetZoom={resetZoom}
+          onFitToScreen={fitToScreen}
+          onZoomToSelection={zoomToSelection}
+          hasSelection={selectedIds.size > 0}
+          layoutSettings={layoutSettings}
+          onLayoutSettingsChange={setLayoutSettings}
+          onResetLayoutSettings={() => setLayoutSettings(DEFAULT_LAYOUT_OPTIONS)}
+          showArrowheads={showArrowheads}
+          onShowArrowheadsChange={setShowArrowheads}
+          showDottedLines={showDottedLines}
+          onShowDottedLinesChange={setShowDottedLines}
+          canExport={employees.length > 0 && !isLoading}
+          onExport={() => setIsExporting(true)}
+          onImport={() => setIsImporting(true)}
+          onManageScenarios={manageScenarios}
+          isReadOnly={asOf !== null}
+          isTimelineOpen={isTimelineOpen}
+          canShowTimeline={!scenario}
+          onToggleTimeline={isTimelineOpen ? closeTimeline : openTimeline}
+        />
+        {isTimelineOpen && (
+          <TimelineBar
+            events={timelineEvents}
+            asOf={asOf}
+            selectedEmployee={timelineEmployeeId ? employeesById.get(timelineEmployeeId) ?? null : null}
+            selectedHistory={selectedHistory}
+            onChange={showOrgAsOf}
+            onClose={closeTimeline}
+          />
+        )}
+        {scenario && scenarioDiff && (
+          <ScenarioBar
+            name={scenario.name}
+            changeCount={countScenarioChanges(scenarioDiff)}
+            hasUnsavedChanges={hasUnsavedScenarioChanges}
+            isSaving={isSavingScenario}
+            onShowChanges={() => setIsReviewingScenario(true)}
+            onSave={saveScenario}
+            onClose={closeScenario}
+          />
+        )}
+        <OfflineBanner
+          isOffline={isOffline}
+          cachedAt={cachedAt}
+          queuedCount={outbox.items.length}
+          conflicts={outbox.conflicts}
+          employeesById={employeesById}
+          isRetrying={isRetrying}
+          onRetry={retrySync}
+          onDismissConflicts={outbox.dismissConflicts}
+        />
+        <div
+          ref={viewportRef}
+          className={`chart-viewport ${isPanning ? "panning" : ""}`}
+          {...panHandlers}
+        >
+          {isLoading ? (
+            LoadingSkeleton
+          ) : (
+            <DndContext
+              sensors={sensors}
+              collisionDetection={zoomAwareCollisionDetection}
+              onDragStart={handleDragStart}
+              onDragEnd={handleDragEnd}
+              onDragOver={handleDragOver}
+              onDragCancel={handleDragCancel}
+              accessibility={{
+                announcements: SILENT_ANNOUNCEMENTS,
+                screenReaderInstructions: { draggable: KEYBOARD_INSTRUCTIONS },
+              }}
             >
-              {layout && layoutDimensions && (
-                <svg
-                  style={{
-                    position: "absolute",
-                    top: 0,
-                    left: 0,
-                    width: `${layoutDimensions.width}px`,
-                    height: `${layoutDimensions.height}px`,
-                    pointerEvents: "none",
-                  }}
+              <div
+                className="chart-stage"
+                style={{
+                  transform: `translate(${transform.x}px, ${transform.y}px) scale(${transform.scale})`,
+                }}
+              >
+                <div
+                  ref={treeRef}
+                  className="chart-canvas"
+                  role="tree"
+                  aria-label="Org chart"
+                  aria-multiselectable
+                  onKeyDown={handleTreeKeyDown}
+                  style={
+                    layoutDimensions
+                      ? {
+                          width: `${layoutDimensions.width}px`,
+                          height: `${layoutDimensions.height}px`,
+                        }
+                      : undefined
+                  }
                 >
-                  {layout.edges?.map((edge) => {
-                    const source = layout.children?.find(
-                      (n) => n.id === edge.sources[0]
-                    );
-                    const target = layout.children?.find(
-                      (n) => n.id === edge.targets[0]
-                    );
+                  {layout?.groups?.map((group) => (
+                    <TeamGroup
+                      key={group.id}
+                      group={group}
+                      headcount={teamHeadcounts.get(group.team)}
+                      onToggleCollapse={toggleTeamCollapsed}
+                    />
+                  ))}
+                  {layout && layoutDimensions && (
+                    <svg
+                      style={{
+                        position: "absolute",
+                        top: 0,
+                        left: 0,
+                        width: `${layoutDimensions.width}px`,
+                        height: `${layoutDimensions.height}px`,
+                        pointerEvents: "none",
+                      }}
+                    >
+                      {showArrowheads && (
+                        <defs>
+                          <marker
+                            id="connector-arrowhead"
+                            viewBox="0 0 10 10"
+                            refX="10"
+                            refY="5"
+                            markerWidth="6"
+                            markerHeight="6"
+                            orient="auto"
+                          >
+                            <path d="M 0 0 L 10 5 L 0 10 z" className="connector-arrowhead" />
+                          </marker>
+                        </defs>
+                      )}
+                      {layout.edges?.map((edge) => {
+                        // An edge is drawn when either end is on screen
+                        if (
+                          !renderedNodeIds.has(edge.sources[0]) &&
+                          !renderedNodeIds.has(edge.targets[0])
+                        )
+                          return null;
+                        const source = layoutNodesById.get(edge.sources[0]);
+                        const target = layoutNodesById.get(edge.targets[0]);
 
-                    if (
-                      !source ||
-                      !target ||
-                      source.x === undefined ||
-                      source.y === undefined ||
-                      target.x === undefined ||
-                      target.y === undefined
-                    )
+                        if (
+                          !source ||
+                          !target ||
+                          source.x === undefined ||
+                          source.y === undefined ||
+                          target.x === undefined ||
+                          target.y === undefined
+                        )
+                          return null;
+
+                        return (
+                          <path
+                            key={edge.id}
+                            d={
+                              getRoutedPath(edge.sections) ??
+                              getConnectorPath(
+                                { ...source, x: source.x, y: source.y },
+                                { ...target, x: target.x, y: target.y },
+                                layoutSettings.direction
+                              )
+                            }
+                            className="connection-line"
+                            markerEnd={
+                              showArrowheads ? "url(#connector-arrowhead)" : undefined
+                            }
+                          />
+                        );
+                      })}
+                      {dottedLines.map(({ managerId, employeeId }) => {
+                        const source = layoutNodesById.get(managerId);
+                        const target = layoutNodesById.get(employeeId);
+                        if (
+                          source?.x === undefined ||
+                          source.y === undefined ||
+                          target?.x === undefined ||
+                          target.y === undefined
+                        )
+                          return null;
+                        return (
+                          <path
+                            key={`dotted-${managerId}-${employeeId}`}
+                            data-testid={`dotted-line-${managerId}-${employeeId}`}
+                            d={getDottedLinePath(
+                              { ...source, x: source.x, y: source.y },
+                              { ...target, x: target.x, y: target.y },
+                              layoutSettings.direction
+                            )}
+                            className="dotted-line"
+                          />
+                        );
+                      })}
+                    </svg>
+                  )}
+
+                  {renderedNodes.map((node) => {
+                    const employee = employeesById.get(node.id);
+                    if (!employee || node.x === undefined || node.y === undefined)
                       return null;
 
-                    const x1 = source.x + source.width / 2;
-                    const y1 = source.y + source.height;
-                    const x2 = target.x + target.width / 2;
-                    const y2 = target.y;
+                    const isOver = overNodeId === employee.id;
+                    const isInvalid = isInvalidDrop(draggedIds, employee.id);
 
                     return (
-                      <path
-                        key={edge.id}
-                        d={`M ${x1} ${y1} L ${x1} ${(y1 + y2) / 2} L ${x2} ${
-                          (y1 + y2) / 2
-                        } L ${x2} ${y2}`}
-                        className="connection-line"
+                      <EmployeeNode
+                        key={employee.id}
+                        employee={employee}
+                        fields={employeeFields}
+                        position={{ x: node.x, y: node.y }}
+                        isOver={isOver && !isInvalid}
+                        isInvalidDrop={isInvalid}
+                        isSaving={isPending(employee.id)}
+                        isQueued={queuedIds.has(employee.id)}
+                        isSelected={selectedIds.has(employee.id)}
+                        isHighlighted={highlightedIds.has(employee.id)}
+                        isReadOnly={asOf !== null}
+                        reportCounts={reportCounts.get(employee.id)}
+                        direction={layoutSettings.direction}
+                        isCollapsed={collapsedIdSet.has(employee.id)}
+                        onToggleCollapse={toggleCollapsed}
+                        onSelect={handleSelect}
+                        onAddReport={asOf ? undefined : setAddingReportTo}
+                        onAddVacancy={asOf ? undefined : setAddingVacancyTo}
+                        onFill={asOf ? undefined : setFillingVacancy}
+                        onRemove={asOf ? undefined : setRemovingEmployee}
+                        onReassign={asOf ? undefined : openReassignPicker}
+                        treePosition={chartTree.position(employee.id)}
+                        isFocusTarget={employee.id === focusTargetId}
+                        onFocus={setFocusedId}
                       />
                     );
                   })}
-                </svg>
-              )}
-
-              {layout?.children?.map((node) => {
-                const employee = employees.find((e) => e.id === node.id);
-                if (!employee || node.x === undefined || node.y === undefined)
-                  return null;
-
-                const isOver = overNodeId === employee.id;
-                const isInvalid = activeId ? isInvalidDrop(activeId, employee.id) : false;
-
-                return (
-                  <EmployeeNode
-                    key={employee.id}
-                    employee={employee}
-                    position={{ x: node.x, y: node.y }}
-                    isOver={isOver && !isInvalid}
-                    isInvalidDrop={isInvalid}
-                  />
-                );
-              })}
+                </div>
               </div>
-            <DragOverlay>
-            {activeId
-              ? (() => {
-                  const draggedEmployee = employees.find(
-                    (e) => e.id === activeId
-                  );
-                  const node = layout?.children?.find((n) => n.id === activeId);
-                  if (!draggedEmployee || !node) return null;
-                  return (
-                    <div
-                      style={{
-                        width: "220px",
-                        opacity: 0.8,
-                        transform: "rotate(5deg)",
-                      }}
-                      className="employee-card"
-                    >
-                      <div className="employee-avatar">
-                        {draggedEmployee.name
-                          .split(" ")
-                          .map((n) => n[0])
-                          .join("")}
-                      </div>
-                      <div className="employee-info">
-                        <div className="employee-name">
-                          {draggedEmployee.name}
-                        </div>
-                        <div className="employee-designation">
-                          {draggedEmployee.designation}
+              <DragOverlay>
+              {activeId
+                ? (() => {
+                    const draggedEmployee = employeesById.get(activeId);
+                    const node = layoutNodesById.get(activeId);
+                    if (!draggedEmployee || !node) return null;
+                    return (
+                      <div
+                        style={{
+                          width: "220px",
+                          opacity: 0.8,
+                          // Match the size of the cards on the zoomed canvas
+                          transform: `scale(${transform.scale}) rotate(5deg)`,
+                          transformOrigin: "top left",
+                        }}
+                        className={`employee-card ${isDrawingDottedLine ? "drawing-dotted-line" : ""}`}
+                      >
+                        <div className="employee-avatar">
+                          {draggedEmployee.name
+                            .split(" ")
+                            .map((n) => n[0])
+                            .join("")}
                         </div>
-                        <div className="employee-team">
-                          {draggedEmployee.team}
+                        <div className="employee-info">
+                          <div className="employee-name">
+                            {draggedEmployee.name}
+                          </div>
+                          <div className="employee-designation">
+                            {draggedEmployee.designation}
+                          </div>
+                          <div className="employee-team">
+                            {draggedEmployee.team}
+                          </div>
                         </div>
+                        {draggedIds.length > 1 && (
+                          <span className="drag-group-count">
+                            +{draggedIds.length - 1}
+                          </span>
+                        )}
                       </div>
-                    </div>
-                  );
-                })()
-              : null}
-            </DragOverlay>
-          </DndContext>
-        )}
+                    );
+                  })()
+                : null}
+              </DragOverlay>
+            </DndContext>
+          )}
+          {!isLoading && layout && layoutDimensions && (
+            <Minimap
+              layout={layout}
+              layoutSize={layoutDimensions}
+              transform={transform}
+              viewportSize={viewportSize}
+              onNavigate={panTo}
+            />
+          )}
+          <div className="sr-only" role="status" aria-live="polite" data-testid="chart-announcer">
+            {announcement}
+          </div>
+        </div>
       </div>
+
+      <AddEmployeeModal
+        manager={addingReportTo}
+        fields={fieldSchema}
+        onCancel={() => setAddingReportTo(null)}
+        onSubmit={createEmployee}
+      />
+      <AddVacancyModal
+        manager={addingVacancyTo}
+        onCancel={() => setAddingVacancyTo(null)}
+        onSubmit={createEmployee}
+      />
+      <FillVacancyModal
+        vacancy={fillingVacancy}
+        employees={employees}
+        onCancel={() => setFillingVacancy(null)}
+        onFill={fillPosition}
+      />
+      <ReassignModal
+        moving={reassigningEmployees}
+        employees={employees}
+        onCancel={() => setReassigningIds(null)}
+        onReassign={(managerId) => {
+          if (reassigningIds) moveEmployees(reassigningIds, managerId);
+          setReassigningIds(null);
+        }}
+      />
+      <ImportEmployeesModal
+        open={isImporting}
+        employees={employees}
+        fields={fieldSchema}
+        onCancel={() => setIsImporting(false)}
+        onImport={importEmployees}
+      />
+
+      <ExportModal
+        open={isExporting}
+        nodeCount={layout?.children?.length ?? 0}
+        employeeCount={employees.length}
+        filteredCount={filteredEmployees.length}
+        onCancel={() => setIsExporting(false)}
+        onExport={exportChart}
+      />
+
+      <ScenarioModal
+        open={isManagingScenarios}
+        scenarios={scenarios}
+        isLoading={isLoadingScenarios}
+        openScenarioId={scenario?.id ?? null}
+        onCreate={createScenario}
+        onOpen={openScenario}
+        onDelete={deleteScenario}
+        onCancel={() => setIsManagingScenarios(false)}
+      />
+
+      {scenario && scenarioDiff && (
+        <ScenarioDiffModal
+          open={isReviewingScenario}
+          name={scenario.name}
+          diff={scenarioDiff}
+          employeesById={scenarioEmployeesById}
+          onCancel={() => setIsReviewingScenario(false)}
+          onPublish={publishScenario}
+        />
+      )}
+
+      <RemoveEmployeeModal
+        employee={removingEmployee}
+        employees={employees}
+        onCancel={() => setRemovingEmployee(null)}
+        onConfirm={removeEmployee}
+      />
     </div>
   );
 }
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { Checkbox, Input, InputNumber, Modal, Select } from 'antd';
+import { CustomFieldDefinition, CustomFieldValue, Employee, NewEmployee } from '../../services/types';
+
+interface AddEmployeeModalProps {
+  manager: Employee | null;
+  /** Admin-defined fields; required ones must be filled before adding. */
+  fields: CustomFieldDefinition[];
+  onCancel: () => void;
+  onSubmit: (employee: NewEmployee) => Promise<void>;
+}
+
+const isEmpty = (value: CustomFieldValue | undefined | null) => value === undefined || value === null || value === '';
+
+export const AddEmployeeModal: React.FC<AddEmployeeModalProps> = ({ manager, fields, onCancel, onSubmit }) => {
+  const [name, setName] = useState('');
+  const [designation, setDesignation] = useState('');
+  const [team, setTeam] = useState('');
+  const [email, setEmail] = useState('');
+  const [location, setLocation] = useState('');
+  const [customFields, setCustomFields] = useState<Record<string, CustomFieldValue>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setName('');
+    setDesignation('');
+    setTeam('');
+    setEmail('');
+    setLocation('');
+    setCustomFields({});
+  };
+
+  const setCustomField = (key: string, value: CustomFieldValue | null) =>
+    setCustomFields((prev) => {
+      const next = { ...prev };
+      if (isEmpty(value)) {
+        delete next[key];
+      } else {
+        next[key] = value as CustomFieldValue;
+      }
+      return next;
+    });
+
+  const missingRequired = fields.some((field) => field.required && isEmpty(customFields[field.key]));
+
+  const handleOk = async () => {
+    if (!manager) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        designation: designation.trim(),
+        // New hires default to their manager's team unless one is given
+        team: team.trim() || manager.team,
+        managerId: manager.id,
+        // Optional fields are only sent when filled in
+        ...(email.trim() ? { email: email.trim() } : {}),
+        ...(location.trim() ? { location: location.trim() } : {}),
+        ...(Object.keys(customFields).length > 0 ? { customFields } : {}),
+      });
+      resetForm();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    resetForm();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={manager ? `Add direct report to ${manager.name}` : 'Add direct report'}
+      open={manager !== null}
+      okText="Add"
+      onOk={handleOk}
+      onCancel={handleCancel}
+      confirmLoading={isSaving}
+      okButtonProps={{ disabled: !name.trim() || !designation.trim() || missingRequired }}
+      destroyOnHidden
+    >
+      <div className="modal-form">
+        <label className="modal-field">
+          <span>Name</span>
+          <Input value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+        </label>
+        <label className="modal-field">
+          <span>Designation</span>
+          <Input value={designation} onChange={(e) => setDesignation(e.target.value)} />
+        </label>
+        <label className="modal-field">
+          <span>Team</span>
+          <Input
+            value={team}
+            placeholder={manager?.team}
+            onChange={(e) => setTeam(e.target.value)}
+          />
+        </label>
+        <label className="modal-field">
+          <span>Email</span>
+          <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+        </label>
+        <label className="modal-field">
+          <span>Location</span>
+          <Input
+            value={location}
+            placeholder={manager?.location}
+            onChange={(e) => setLocation(e.target.value)}
+          />
+        </label>
+        {fields.map((field) => {
+          const value = customFields[field.key];
+          const label = `${field.label}${field.required ? ' *' : ''}`;
+          if (field.type === 'boolean') {
+            return (
+              <Checkbox
+                key={field.key}
+                checked={value === true}
+                onChange={(e) => setCustomField(field.key, e.target.checked || null)}
+              >
+                {field.label}
+              </Checkbox>
+            );
+          }
+          return (
+            <label key={field.key} className="modal-field">
+              <span>{label}</span>
+              {field.type === 'number' ? (
+                <InputNumber
+                  className="modal-select"
+                  value={typeof value === 'number' ? value : null}
+                  onChange={(next) => setCustomField(field.key, next)}
+                />
+              ) : field.type === 'enum' ? (
+                <Select
+                  className="modal-select"
+                  allowClear
+                  value={typeof value === 'string' ? value : undefined}
+                  onChange={(next) => setCustomField(field.key, next ?? null)}
+                  options={(field.options ?? []).map((option) => ({ label: option, value: option }))}
+                />
+              ) : (
+                <Input
+                  type={field.type === 'date' ? 'date' : 'text'}
+                  value={typeof value === 'string' ? value : ''}
+                  onChange={(e) => setCustomField(field.key, e.target.value)}
+                />
+              )}
+            </label>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Input, Modal } from 'antd';
+import { Employee, NewEmployee } from '../../services/types';
+import { VACANCY_NAME } from '../../services/vacancies';
+
+interface AddVacancyModalProps {
+  manager: Employee | null;
+  onCancel: () => void;
+  onSubmit: (vacancy: NewEmployee) => Promise<void>;
+}
+
+export const AddVacancyModal: React.FC<AddVacancyModalProps> = ({ manager, onCancel, onSubmit }) => {
+  const [title, setTitle] = useState('');
+  const [team, setTeam] = useState('');
+  const [requisitionId, setRequisitionId] = useState('');
+  const [targetStartDate, setTargetStartDate] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const resetForm = () => {
+    setTitle('');
+    setTeam('');
+    setRequisitionId('');
+    setTargetStartDate('');
+  };
+
+  const handleOk = async () => {
+    if (!manager) return;
+    setIsSaving(true);
+    try {
+      await onSubmit({
+        name: VACANCY_NAME,
+        designation: title.trim(),
+        team: team.trim() || manager.team,
+        managerId: manager.id,
+        vacancy: {
+          requisitionId: requisitionId.trim(),
+          ...(targetStartDate ? { targetStartDate } : {}),
+        },
+      });
+      resetForm();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    resetForm();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={manager ? `Add open position under ${manager.name}` : 'Add open position'}
+      open={manager !== null}
+      okText="Add position"
+      onOk={handleOk}
+      onCancel={handleCancel}
+      confirmLoading={isSaving}
+      okButtonProps={{ disabled: !title.trim() || !requisitionId.trim() }}
+      destroyOnHidden
+    >
+      <div className="modal-form">
+        <label className="modal-field">
+          <span>Title</span>
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} autoFocus />
+        </label>
+        <label className="modal-field">
+          <span>Team</span>
+          <Input
+            value={team}
+            placeholder={manager?.team}
+            onChange={(e) => setTeam(e.target.value)}
+          />
+        </label>
+        <label className="modal-field">
+          <span>Requisition ID</span>
+          <Input value={requisitionId} onChange={(e) => setRequisitionId(e.target.value)} />
+        </label>
+        <label className="modal-field">
+          <span>Target start date</span>
+          <Input type="date" value={targetStartDate} onChange={(e) => setTargetStartDate(e.target.value)} />
+        </label>
+      </div>
+    </Modal>
+  );
+};
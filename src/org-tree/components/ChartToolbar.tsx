@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Button, Tooltip } from 'antd';
+import { LayoutSettings, LayoutSettingsPanel } from './LayoutSettingsPanel';
+
+interface ChartToolbarProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  zoom: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onResetZoom: () => void;
+  onFitToScreen: () => void;
+  onZoomToSelection: () => void;
+  hasSelection: boolean;
+  layoutSettings: LayoutSettings;
+  onLayoutSettingsChange: (settings: LayoutSettings) => void;
+  onResetLayoutSettings: () => void;
+  showArrowheads: boolean;
+  onShowArrowheadsChange: (show: boolean) => void;
+  /** Whether dotted-line (secondary) managers are drawn. */
+  showDottedLines: boolean;
+  onShowDottedLinesChange: (show: boolean) => void;
+  canExport: boolean;
+  onExport: () => void;
+  onImport: () => void;
+  onManageScenarios: () => void;
+  /** A past date is shown, so nothing can be changed. */
+  isReadOnly: boolean;
+  /** Drafts and the timeline are not used together. */
+  isTimelineOpen: boolean;
+  canShowTimeline: boolean;
+  onToggleTimeline: () => void;
+}
+
+export const ChartToolbar: React.FC<ChartToolbarProps> = ({
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  zoom,
+  onZoomIn,
+  onZoomOut,
+  onResetZoom,
+  onFitToScreen,
+  onZoomToSelection,
+  hasSelection,
+  layoutSettings,
+  onLayoutSettingsChange,
+  onResetLayoutSettings,
+  showArrowheads,
+  onShowArrowheadsChange,
+  showDottedLines,
+  onShowDottedLinesChange,
+  canExport,
+  onExport,
+  onImport,
+  onManageScenarios,
+  isReadOnly,
+  isTimelineOpen,
+  canShowTimeline,
+  onToggleTimeline,
+}) => {
+  const [showLayoutSettings, setShowLayoutSettings] = useState(false);
+
+  return (
+    <div className="chart-toolbar" role="toolbar" aria-label="Chart actions">
+      <div className="chart-toolbar-group">
+        <Tooltip title="Undo (Ctrl+Z)">
+          <Button size="small" onClick={onUndo} disabled={!canUndo}>
+            Undo
+          </Button>
+        </Tooltip>
+        <Tooltip title="Redo (Ctrl+Shift+Z)">
+          <Button size="small" onClick={onRedo} disabled={!canRedo}>
+            Redo
+          </Button>
+        </Tooltip>
+      </div>
+      <div className="chart-toolbar-group">
+        <Button size="small" onClick={onZoomOut} aria-label="Zoom out">
+          −
+        </Button>
+        <Tooltip title="Reset to 100%">
+          <Button size="small" onClick={onResetZoom} aria-label="Reset zoom">
+            {Math.round(zoom * 100)}%
+          </Button>
+        </Tooltip>
+        <Button size="small" onClick={onZoomIn} aria-label="Zoom in">
+          +
+        </Button>
+        <Button size="small" onClick={onFitToScreen}>
+          Fit to screen
+        </Button>
+        <Button size="small" onClick={onZoomToSelection} disabled={!hasSelection}>
+          Zoom to selection
+        </Button>
+      </div>
+      <div className="chart-toolbar-group">
+        <Button
+          size="small"
+          type={showLayoutSettings ? 'primary' : 'default'}
+          aria-expanded={showLayoutSettings}
+          onClick={() => setShowLayoutSettings((shown) => !shown)}
+        >
+          Layout
+        </Button>
+        <Tooltip title="Alt+drag a card onto a manager to add or remove a dotted line">
+          <Button
+            size="small"
+            type={showDottedLines ? 'primary' : 'default'}
+            aria-pressed={showDottedLines}
+            onClick={() => onShowDottedLinesChange(!showDottedLines)}
+          >
+            Dotted lines
+          </Button>
+        </Tooltip>
+        <Button size="small" onClick={onImport} disabled={isReadOnly}>
+          Import
+        </Button>
+        <Button size="small" onClick={onExport} disabled={!canExport}>
+          Export
+        </Button>
+        <Button size="small" onClick={onManageScenarios} disabled={isReadOnly || isTimelineOpen}>
+          Scenarios
+        </Button>
+        <Button
+          size="small"
+          type={isTimelineOpen ? 'primary' : 'default'}
+          aria-expanded={isTimelineOpen}
+          onClick={onToggleTimeline}
+          disabled={!canShowTimeline}
+        >
+          History
+        </Button>
+      </div>
+      {showLayoutSettings && (
+        <LayoutSettingsPanel
+          settings={layoutSettings}
+          onChange={onLayoutSettingsChange}
+          onReset={onResetLayoutSettings}
+          showArrowheads={showArrowheads}
+          onShowArrowheadsChange={onShowArrowheadsChange}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Employee } from '../../services/types';
+import { EmployeeFieldDescriptor, describeEmployeeFields } from '../../services/employeeFields';
+import { isVacancy } from '../../services/vacancies';
+
+interface EmployeeListProps {
+  employees: Employee[];
+  fields: EmployeeFieldDescriptor[];
+  selectedIds: Set<string>;
+  onSelect: (employeeId: string, event: React.MouseEvent) => void;
+}
+
+/** Height of one row including its bottom margin; rows are clipped to it in CSS. */
+const LIST_ROW_HEIGHT = 112;
+// Rows drawn above and below the visible ones so quick scrolls don't show gaps
+const OVERSCAN = 5;
+const LIST_PADDING = 12;
+
+// Built-in details other than the team badge, such as level and location
+const listDetails = (emp: Employee, fields: EmployeeFieldDescriptor[]) =>
+  describeEmployeeFields(emp, fields)
+    .filter(({ field }) => !field.custom && field.key !== 'team' && field.key !== 'email')
+    .map(({ value }) => value)
+    .join(' · ');
+
+// Only the rows in view are mounted, with padding standing in for the rest.
+// Without a measured height (e.g. before the first resize) every row is drawn.
+export const EmployeeList: React.FC<EmployeeListProps> = ({ employees, fields, selectedIds, onSelect }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [height, setHeight] = useState(0);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const measure = () => setHeight(list.clientHeight);
+    measure();
+
+    if (typeof ResizeObserver === 'undefined') {
+      window.addEventListener('resize', measure);
+      return () => window.removeEventListener('resize', measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  const [start, end] =
+    height === 0
+      ? [0, employees.length]
+      : [
+          Math.max(0, Math.floor(scrollTop / LIST_ROW_HEIGHT) - OVERSCAN),
+          Math.min(employees.length, Math.ceil((scrollTop + height) / LIST_ROW_HEIGHT) + OVERSCAN),
+        ];
+
+  return (
+    <div
+      ref={listRef}
+      className="employee-list"
+      style={{
+        paddingTop: LIST_PADDING + start * LIST_ROW_HEIGHT,
+        paddingBottom: LIST_PADDING + (employees.length - end) * LIST_ROW_HEIGHT,
+      }}
+      onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+    >
+      {employees.slice(start, end).map((emp) => {
+        const details = listDetails(emp, fields);
+        return (
+          <div
+            key={emp.id}
+            className={`employee-list-item ${selectedIds.has(emp.id) ? 'selected' : ''} ${isVacancy(emp) ? 'vacancy' : ''}`}
+            aria-selected={selectedIds.has(emp.id)}
+            onClick={(event) => onSelect(emp.id, event)}
+          >
+            <div className="employee-list-item-name">{emp.name}</div>
+            <div className="employee-list-item-designation">{emp.designation}</div>
+            <span className="employee-list-item-team">{emp.team}</span>
+            {details && <div className="employee-list-item-details">{details}</div>}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -2,20 +2,54 @@ import React from 'react';
 
 import { useDraggable } from '@dnd-kit/core';
 import { useDroppable } from '@dnd-kit/core';
-import { Employee } from '../../services/types';
+import { Employee, ReportCounts } from '../../services/types';
+import { describeEmployeeFields, EmployeeFieldDescriptor, EMPLOYMENT_TYPE_LABELS } from '../../services/employeeFields';
+import type { LayoutDirection } from '../utils/elkUtils';
+import type { TreeItemPosition } from '../utils/keyboardNavigation';
 
 interface EmployeeNodeProps {
     employee: Employee;
+    /** Fields whose values are listed in the card's tooltip. */
+    fields?: EmployeeFieldDescriptor[];
     position: { x: number, y: number };
     isOver: boolean;
     isInvalidDrop?: boolean;
+    isSaving?: boolean;
+    /** The move is waiting in the offline outbox. */
+    isQueued?: boolean;
+    isSelected?: boolean;
+    /** Briefly set when the employee was changed in another tab or by someone else. */
+    isHighlighted?: boolean;
+    /** Shown as it was at a past date; it cannot be dragged. */
+    isReadOnly?: boolean;
+    onSelect?: (employeeId: string, event: React.MouseEvent) => void;
+    reportCounts?: ReportCounts;
+    isCollapsed?: boolean;
+    /** Layout direction; the collapse toggle sits on the side the reports hang from. */
+    direction?: LayoutDirection;
+    onToggleCollapse?: (employeeId: string) => void;
+    onAddReport?: (employee: Employee) => void;
+    onAddVacancy?: (manager: Employee) => void;
+    /** Only offered on open positions. */
+    onFill?: (vacancy: Employee) => void;
+    onRemove?: (employee: Employee) => void;
+    /** Opens the manager picker, an alternative to dragging the card. */
+    onReassign?: (employeeId: string) => void;
+    /** Place in the chart's tree, for assistive technology. */
+    treePosition?: TreeItemPosition;
+    /** The one card the chart's tab stop is on. */
+    isFocusTarget?: boolean;
+    onFocus?: (employeeId: string) => void;
 }
 
 
-export const EmployeeNode: React.FC<EmployeeNodeProps> = ({ employee, position, isOver, isInvalidDrop = false }) => {
+export const EmployeeNode: React.FC<EmployeeNodeProps> = ({ employee, fields = [], position, isOver, isInvalidDrop = false, isSaving = false, isQueued = false, isSelected = false, isHighlighted = false, isReadOnly = false, onSelect, reportCounts, isCollapsed = false, direction = 'DOWN', onToggleCollapse, onAddReport, onAddVacancy, onFill, onRemove, onReassign, treePosition, isFocusTarget = false, onFocus }) => {
+    const { vacancy } = employee;
+
     const { attributes, listeners, setNodeRef: setDragRef, isDragging } = useDraggable({
       id: employee.id,
-      data: employee
+      data: employee,
+      disabled: isSaving || isReadOnly
     });
   
     const { setNodeRef: setDropRef } = useDroppable({
@@ -33,25 +67,146 @@ export const EmployeeNode: React.FC<EmployeeNodeProps> = ({ employee, position,
         ref={setRefs}
         {...listeners}
         {...attributes}
+        role="treeitem"
+        tabIndex={isFocusTarget ? 0 : -1}
+        aria-roledescription={undefined}
+        aria-pressed={undefined}
+        aria-level={treePosition?.level}
+        aria-posinset={treePosition?.position}
+        aria-setsize={treePosition?.setSize}
+        aria-expanded={
+          reportCounts && (reportCounts.direct > 0 || reportCounts.openPositions > 0) ? !isCollapsed : undefined
+        }
+        data-node-id={employee.id}
         data-testid={`employee-node-${employee.id}`}
         style={{
           position: 'absolute',
           left: position.x,
           top: position.y,
           width: '220px',
-          cursor: isDragging ? 'grabbing' : 'grab',
+          cursor: isReadOnly ? 'default' : isDragging ? 'grabbing' : 'grab',
           opacity: isDragging ? 0.3 : 1,
           zIndex: isDragging ? 1000 : 1,
         }}
-        className={`employee-card ${isOver ? 'drop-target' : ''} ${isInvalidDrop ? 'invalid-drop-target' : ''}`}
+        className={`employee-card ${isOver ? 'drop-target' : ''} ${isInvalidDrop ? 'invalid-drop-target' : ''} ${isSaving ? 'saving' : ''} ${isQueued ? 'queued' : ''} ${isSelected ? 'selected' : ''} ${isHighlighted ? 'remote-change' : ''} ${vacancy ? 'vacancy' : ''} flow-${direction.toLowerCase()}`}
+        aria-selected={isSelected}
+        onClick={(event) => onSelect?.(employee.id, event)}
+        onFocus={(event) => event.target === event.currentTarget && onFocus?.(employee.id)}
+        aria-busy={isSaving}
+        title={describeEmployeeFields(employee, fields).map(({ field, value }) => `${field.label}: ${value}`).join('\n') || undefined}
       >
         <div className="employee-avatar">
-          {employee.name.split(' ').map(n => n[0]).join('')}
+          {vacancy
+            ? '?'
+            : employee.photoUrl
+              ? <img src={employee.photoUrl} alt="" />
+              : employee.name.split(' ').map(n => n[0]).join('')}
         </div>
         <div className="employee-info">
           <div className="employee-name">{employee.name}</div>
           <div className="employee-designation">{employee.designation}</div>
-          <div className="employee-team">{employee.team}</div>
+          <div className="employee-tags">
+            <span className="employee-team">{employee.team}</span>
+            {vacancy && <span className="employee-tag">{vacancy.requisitionId}</span>}
+            {vacancy?.targetStartDate && (
+              <span className="employee-tag">Starts {vacancy.targetStartDate}</span>
+            )}
+            {employee.jobLevel && <span className="employee-tag">{employee.jobLevel}</span>}
+            {employee.employmentType && employee.employmentType !== 'fte' && (
+              <span className={`employee-tag employment-${employee.employmentType}`}>
+                {EMPLOYMENT_TYPE_LABELS[employee.employmentType]}
+              </span>
+            )}
+          </div>
+        </div>
+        {isSaving && <span className="employee-saving">Saving…</span>}
+        {isQueued && !isSaving && <span className="employee-saving">Queued</span>}
+        {reportCounts && (reportCounts.direct > 0 || reportCounts.openPositions > 0) && (
+          <button
+            type="button"
+            className={`employee-collapse-toggle ${isCollapsed ? 'collapsed' : ''}`}
+            aria-expanded={!isCollapsed}
+            aria-label={`${isCollapsed ? 'Expand' : 'Collapse'} reports of ${employee.name}`}
+            title={`${reportCounts.direct} direct, ${reportCounts.total} total reports${
+              reportCounts.openPositions > 0
+                ? `, ${reportCounts.openPositions} open ${reportCounts.openPositions === 1 ? 'position' : 'positions'}`
+                : ''
+            }`}
+            onPointerDown={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleCollapse?.(employee.id);
+            }}
+          >
+            <span className="employee-collapse-icon">{isCollapsed ? '+' : '−'}</span>
+            {reportCounts.direct}/{reportCounts.total}
+            {reportCounts.openPositions > 0 && (
+              <span className="employee-open-count">+{reportCounts.openPositions}</span>
+            )}
+          </button>
+        )}
+        {/* Keep action presses from reaching the drag listeners on the card */}
+        <div
+          className="employee-actions"
+          onPointerDown={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          {onAddReport && (
+            <button
+              type="button"
+              className="employee-action"
+              title="Add direct report"
+              aria-label={`Add direct report to ${employee.name}`}
+              onClick={() => onAddReport(employee)}
+            >
+              +
+            </button>
+          )}
+          {onAddVacancy && (
+            <button
+              type="button"
+              className="employee-action"
+              title="Add open position"
+              aria-label={`Add open position under ${employee.name}`}
+              onClick={() => onAddVacancy(employee)}
+            >
+              ?
+            </button>
+          )}
+          {vacancy && onFill && (
+            <button
+              type="button"
+              className="employee-action"
+              title="Fill position"
+              aria-label={`Fill ${employee.designation}`}
+              onClick={() => onFill(employee)}
+            >
+              ✓
+            </button>
+          )}
+          {onReassign && (
+            <button
+              type="button"
+              className="employee-action"
+              title="Reassign to…"
+              aria-label={`Reassign ${employee.name}`}
+              onClick={() => onReassign(employee.id)}
+            >
+              ⇄
+            </button>
+          )}
+          {onRemove && (
+            <button
+              type="button"
+              className="employee-action employee-action-remove"
+              title={vacancy ? 'Close position' : 'Remove employee'}
+              aria-label={vacancy ? `Close ${employee.designation}` : `Remove ${employee.name}`}
+              onClick={() => onRemove(employee)}
+            >
+              ×
+            </button>
+          )}
         </div>
       </div>
     );
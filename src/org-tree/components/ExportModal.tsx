@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { Checkbox, Modal, Radio } from 'antd';
+import { ExportFormat } from '../utils/exportChart';
+import { DataExportFormat } from '../../services/employeeFormats';
+
+export type ExportOptions = {
+  /** PNG pixel ratio. */
+  scale: number;
+  /** Data exports only: limit to employees matching the search and team filter. */
+  filteredOnly: boolean;
+};
+
+interface ExportModalProps {
+  open: boolean;
+  nodeCount: number;
+  employeeCount: number;
+  filteredCount: number;
+  onCancel: () => void;
+  onExport: (format: ExportFormat | DataExportFormat, options: ExportOptions) => Promise<void>;
+}
+
+const IMAGE_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'svg', label: 'SVG' },
+  { value: 'png', label: 'PNG' },
+  { value: 'pdf', label: 'PDF' },
+];
+
+const DATA_FORMATS: { value: DataExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'json', label: 'JSON' },
+  { value: 'dot', label: 'DOT' },
+  { value: 'mermaid', label: 'Mermaid' },
+];
+
+const PNG_SCALES = [1, 2, 3];
+
+const isImageFormat = (format: ExportFormat | DataExportFormat): format is ExportFormat =>
+  IMAGE_FORMATS.some((option) => option.value === format);
+
+export const ExportModal: React.FC<ExportModalProps> = ({
+  open,
+  nodeCount,
+  employeeCount,
+  filteredCount,
+  onCancel,
+  onExport,
+}) => {
+  const [format, setFormat] = useState<ExportFormat | DataExportFormat>('svg');
+  const [scale, setScale] = useState(2);
+  const [filteredOnly, setFilteredOnly] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const isImage = isImageFormat(format);
+  const hasChart = nodeCount > 0;
+
+  const handleOk = async () => {
+    setIsExporting(true);
+    try {
+      await onExport(format, { scale, filteredOnly });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      title="Export"
+      open={open}
+      okText="Export"
+      onOk={handleOk}
+      onCancel={onCancel}
+      confirmLoading={isExporting}
+      okButtonProps={{ disabled: isImage && !hasChart }}
+      destroyOnHidden
+    >
+      <div className="modal-form">
+        <div className="modal-field">
+          <span>Chart image</span>
+          <Radio.Group
+            optionType="button"
+            value={isImage ? format : undefined}
+            disabled={!hasChart}
+            onChange={(e) => setFormat(e.target.value)}
+            options={IMAGE_FORMATS}
+          />
+        </div>
+        <div className="modal-field">
+          <span>Employee data</span>
+          <Radio.Group
+            optionType="button"
+            value={isImage ? undefined : format}
+            onChange={(e) => setFormat(e.target.value)}
+            options={DATA_FORMATS}
+          />
+        </div>
+
+        {isImage ? (
+          <p className="modal-hint">
+            Exports the {nodeCount} {nodeCount === 1 ? 'card' : 'cards'} currently shown, including the
+            search and team filters and collapsed subtrees.
+          </p>
+        ) : (
+          <Checkbox checked={filteredOnly} onChange={(e) => setFilteredOnly(e.target.checked)}>
+            Only employees matching the search and team filter ({filteredCount} of {employeeCount})
+          </Checkbox>
+        )}
+        {format === 'png' && (
+          <div className="modal-field">
+            <span>Scale</span>
+            <Radio.Group
+              optionType="button"
+              value={scale}
+              onChange={(e) => setScale(e.target.value)}
+              options={PNG_SCALES.map((value) => ({ value, label: `${value}x` }))}
+            />
+          </div>
+        )}
+        {format === 'pdf' && (
+          <p className="modal-hint">Large charts continue across A4 landscape pages.</p>
+        )}
+        {format === 'json' && (
+          <p className="modal-hint">Reports are nested under their manager in a children list.</p>
+        )}
+      </div>
+    </Modal>
+  );
+};
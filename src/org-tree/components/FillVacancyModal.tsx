@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { Input, Modal, Radio, Select } from 'antd';
+import { Employee, VacancyFiller } from '../../services/types';
+import { isVacancy, validateFill } from '../../services/vacancies';
+
+interface FillVacancyModalProps {
+  vacancy: Employee | null;
+  employees: Employee[];
+  onCancel: () => void;
+  onFill: (vacancy: Employee, filler: VacancyFiller) => Promise<void>;
+}
+
+type FillMode = 'existing' | 'new';
+
+const FILL_MODES = [
+  { label: 'Existing employee', value: 'existing' },
+  { label: 'New hire', value: 'new' },
+];
+
+export const FillVacancyModal: React.FC<FillVacancyModalProps> = ({ vacancy, employees, onCancel, onFill }) => {
+  const [mode, setMode] = useState<FillMode>('existing');
+  const [employeeId, setEmployeeId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [startDate, setStartDate] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Whoever the server would accept: people outside the position's subtree or reporting to it
+  const candidates = useMemo(
+    () =>
+      vacancy
+        ? employees.filter(
+            (emp) => !isVacancy(emp) && !validateFill(employees, vacancy.id, { employeeId: emp.id })
+          )
+        : [],
+    [vacancy, employees]
+  );
+
+  const hireStartDate = startDate ?? vacancy?.vacancy?.targetStartDate ?? '';
+  const canFill = mode === 'existing' ? employeeId !== null : name.trim() !== '';
+
+  const resetForm = () => {
+    setMode('existing');
+    setEmployeeId(null);
+    setName('');
+    setEmail('');
+    setStartDate(null);
+  };
+
+  const handleOk = async () => {
+    if (!vacancy) return;
+    setIsSaving(true);
+    try {
+      await onFill(
+        vacancy,
+        mode === 'existing'
+          ? { employeeId: employeeId as string }
+          : {
+              employee: {
+                name: name.trim(),
+                designation: vacancy.designation,
+                team: vacancy.team,
+                managerId: vacancy.managerId,
+                // Optional fields are only sent when filled in
+                ...(email.trim() ? { email: email.trim() } : {}),
+                ...(vacancy.location ? { location: vacancy.location } : {}),
+                ...(hireStartDate ? { startDate: hireStartDate } : {}),
+              },
+            }
+      );
+      resetForm();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    resetForm();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={vacancy ? `Fill ${vacancy.designation}` : 'Fill position'}
+      open={vacancy !== null}
+      okText="Fill position"
+      onOk={handleOk}
+      onCancel={handleCancel}
+      confirmLoading={isSaving}
+      okButtonProps={{ disabled: !canFill }}
+      destroyOnHidden
+    >
+      <div className="modal-form">
+        <p className="modal-hint">
+          Whoever fills the position takes its title, team and place in the chart, along with its reports.
+        </p>
+        <Radio.Group
+          optionType="button"
+          value={mode}
+          onChange={(e) => setMode(e.target.value)}
+          options={FILL_MODES}
+        />
+        {mode === 'existing' ? (
+          <label className="modal-field">
+            <span>Employee</span>
+            <Select
+              className="modal-select"
+              showSearch
+              optionFilterProp="label"
+              placeholder="Select an employee"
+              value={employeeId ?? undefined}
+              onChange={(value) => setEmployeeId(value)}
+              options={candidates.map((emp) => ({ label: `${emp.name} — ${emp.designation}`, value: emp.id }))}
+            />
+          </label>
+        ) : (
+          <>
+            <label className="modal-field">
+              <span>Name</span>
+              <Input value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+            </label>
+            <label className="modal-field">
+              <span>Email</span>
+              <Input type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </label>
+            <label className="modal-field">
+              <span>Start date</span>
+              <Input type="date" value={hireStartDate} onChange={(e) => setStartDate(e.target.value)} />
+            </label>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
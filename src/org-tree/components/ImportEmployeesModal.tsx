@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { Modal, Select } from 'antd';
+import { CustomFieldDefinition, Employee, ImportIssueType, ImportedEmployee } from '../../services/types';
+import {
+  ColumnMapping,
+  EMPLOYEE_FIELDS,
+  ImportTable,
+  applyColumnMapping,
+  getImportFields,
+  guessColumnMapping,
+  parseImportFile,
+  validateImport,
+} from '../../services/importEmployees';
+
+interface ImportEmployeesModalProps {
+  open: boolean;
+  employees: Employee[];
+  /** Custom fields columns can be mapped to. */
+  fields: CustomFieldDefinition[];
+  onCancel: () => void;
+  onImport: (employees: ImportedEmployee[]) => Promise<void>;
+}
+
+const ISSUE_LABELS: Record<ImportIssueType, string> = {
+  MISSING_ID: 'Missing id',
+  MISSING_NAME: 'Missing name',
+  DUPLICATE_ID: 'Duplicate id',
+  INVALID_DETAILS: 'Invalid details',
+  UNKNOWN_MANAGER: 'Unknown manager',
+  INVALID_SECONDARY_MANAGER: 'Invalid dotted line',
+  CYCLE: 'Reporting cycle',
+};
+
+const PREVIEW_ROWS = 5;
+
+const readFile = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+export const ImportEmployeesModal: React.FC<ImportEmployeesModalProps> = ({
+  open,
+  employees,
+  fields,
+  onCancel,
+  onImport,
+}) => {
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const importFields = useMemo(() => getImportFields(fields), [fields]);
+  // The preview shows the fields every record has
+  const previewFields = importFields.filter((field) => (EMPLOYEE_FIELDS as string[]).includes(field.key));
+  const imported = useMemo(
+    () => (table && mapping ? applyColumnMapping(table, mapping, fields) : []),
+    [table, mapping, fields]
+  );
+  const issues = useMemo(() => validateImport(employees, imported, fields), [employees, imported, fields]);
+  const existingIds = useMemo(() => new Set(employees.map((emp) => emp.id)), [employees]);
+  const updatedCount = imported.filter((emp) => existingIds.has(emp.id)).length;
+
+  const reset = () => {
+    setTable(null);
+    setMapping(null);
+    setFileError(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    try {
+      const parsed = parseImportFile(file.name, await readFile(file));
+      setTable(parsed);
+      setMapping(guessColumnMapping(parsed.columns, fields));
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  const handleOk = async () => {
+    setIsImporting(true);
+    try {
+      await onImport(imported);
+      reset();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleCancel = () => {
+    reset();
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title="Import employees"
+      open={open}
+      okText={imported.length > 0 ? `Import ${imported.length}` : 'Import'}
+      onOk={handleOk}
+      onCancel={handleCancel}
+      confirmLoading={isImporting}
+      okButtonProps={{ disabled: imported.length === 0 || issues.length > 0 }}
+      width={640}
+      destroyOnHidden
+    >
+      <div className="modal-form">
+        <label className="modal-field">
+          <span>CSV or JSON file</span>
+          <input
+            type="file"
+            accept=".csv,.json,.dot,.gv,.mmd,text/csv,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </label>
+        {fileError && <p className="import-error" role="alert">{fileError}</p>}
+
+        {table && mapping && (
+          <>
+            <div className="import-mapping">
+              {importFields.map(({ key, label }) => (
+                <label key={key} className="modal-field">
+                  <span>{label}</span>
+                  <Select
+                    className="modal-select"
+                    value={mapping[key] ?? ''}
+                    onChange={(value) => setMapping({ ...mapping, [key]: value || null })}
+                    options={[
+                      { value: '', label: '(not in file)' },
+                      ...table.columns.map((column) => ({ value: column, label: column })),
+                    ]}
+                  />
+                </label>
+              ))}
+            </div>
+
+            <p className="modal-hint">
+              {imported.length} {imported.length === 1 ? 'row' : 'rows'}: {imported.length - updatedCount} new,{' '}
+              {updatedCount} updating existing employees.
+            </p>
+
+            {issues.length > 0 ? (
+              <section className="import-issues" aria-label="Import problems">
+                <h4>Fix these before importing ({issues.length})</h4>
+                <ul>
+                  {issues.map((issue, index) => (
+                    <li key={`${issue.type}-${index}`}>
+                      <span className="issue-type">{ISSUE_LABELS[issue.type]}</span>{' '}
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ) : (
+              imported.length > 0 && <p className="import-ok">No problems found.</p>
+            )}
+
+            {imported.length > 0 && (
+              <table className="import-preview">
+                <thead>
+                  <tr>
+                    <th>#</th>
+                    {previewFields.map(({ key, label }) => (
+                      <th key={key}>{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {imported.slice(0, PREVIEW_ROWS).map((emp, index) => (
+                    <tr key={index}>
+                      <td>{index + 1}</td>
+                      {EMPLOYEE_FIELDS.map((field) => (
+                        <td key={field}>{emp[field]}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Employee, HierarchyIssue } from '../../services/types';
+
+interface IssuesPanelProps {
+  issues: HierarchyIssue[];
+  employeesById: Map<string, Employee>;
+  onFocusEmployee: (employeeId: string) => void;
+}
+
+const ISSUE_LABELS: Record<HierarchyIssue['type'], string> = {
+  CYCLE: 'Reporting cycle',
+  ORPHAN: 'Unknown manager',
+  DUPLICATE_ID: 'Duplicate id',
+  MULTIPLE_ROOTS: 'Multiple top-level employees',
+};
+
+export const IssuesPanel: React.FC<IssuesPanelProps> = ({ issues, employeesById, onFocusEmployee }) => {
+  if (issues.length === 0) return null;
+
+  return (
+    <section className="issues-panel" aria-label="Data issues">
+      <h3 className="issues-panel-header">Issues ({issues.length})</h3>
+      <ul className="issues-list">
+        {issues.map((issue, index) => (
+          <li key={`${issue.type}-${index}`} className="issue-item">
+            <div className="issue-type">{ISSUE_LABELS[issue.type]}</div>
+            <div className="issue-message">{issue.message}</div>
+            <div className="issue-links">
+              {issue.ids.map((id) => (
+                <button
+                  key={id}
+                  type="button"
+                  className="issue-link"
+                  title={`Show ${employeesById.get(id)?.name ?? `record ${id}`}`}
+                  onClick={() => onFocusEmployee(id)}
+                >
+                  #{id}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Button, Checkbox, InputNumber, Radio } from 'antd';
+import { ELKLayoutOptions, LayoutAlgorithm, LayoutDirection } from '../utils/elkUtils';
+
+export type LayoutSettings = Required<ELKLayoutOptions>;
+
+interface LayoutSettingsPanelProps {
+  settings: LayoutSettings;
+  onChange: (settings: LayoutSettings) => void;
+  onReset: () => void;
+  showArrowheads: boolean;
+  onShowArrowheadsChange: (show: boolean) => void;
+}
+
+const DIRECTIONS: { value: LayoutDirection; label: string; title: string }[] = [
+  { value: 'DOWN', label: '↓', title: 'Top to bottom' },
+  { value: 'RIGHT', label: '→', title: 'Left to right' },
+  { value: 'UP', label: '↑', title: 'Bottom to top' },
+  { value: 'LEFT', label: '←', title: 'Right to left' },
+];
+
+const ALGORITHMS: { value: LayoutAlgorithm; label: string }[] = [
+  { value: 'layered', label: 'Layered' },
+  { value: 'mrtree', label: 'Tree' },
+];
+
+const MIN_SPACING = 10;
+const MAX_SPACING = 400;
+
+export const LayoutSettingsPanel: React.FC<LayoutSettingsPanelProps> = ({
+  settings,
+  onChange,
+  onReset,
+  showArrowheads,
+  onShowArrowheadsChange,
+}) => {
+  const update = (changes: Partial<LayoutSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="layout-settings" aria-label="Layout settings">
+      <div className="layout-settings-row">
+        <span className="layout-settings-label">Direction</span>
+        <Radio.Group
+          optionType="button"
+          size="small"
+          value={settings.direction}
+          onChange={(e) => update({ direction: e.target.value })}
+          options={DIRECTIONS.map(({ value, label, title }) => ({
+            value,
+            label: <span aria-label={title} title={title}>{label}</span>,
+          }))}
+        />
+      </div>
+      <div className="layout-settings-row">
+        <span className="layout-settings-label">Algorithm</span>
+        <Radio.Group
+          optionType="button"
+          size="small"
+          value={settings.algorithm}
+          // The grouped view is always layered
+          disabled={settings.groupByTeam}
+          onChange={(e) => update({ algorithm: e.target.value })}
+          options={ALGORITHMS}
+        />
+      </div>
+      <label className="layout-settings-row">
+        <span className="layout-settings-label">Node spacing</span>
+        <InputNumber
+          size="small"
+          min={MIN_SPACING}
+          max={MAX_SPACING}
+          step={10}
+          value={Number(settings.spacing)}
+          onChange={(value) => value !== null && update({ spacing: String(value) })}
+          aria-label="Node spacing"
+        />
+      </label>
+      <label className="layout-settings-row">
+        <span className="layout-settings-label">Level spacing</span>
+        <InputNumber
+          size="small"
+          min={MIN_SPACING}
+          max={MAX_SPACING}
+          step={10}
+          value={Number(settings.layerSpacing)}
+          // mrtree spaces levels with the node spacing
+          disabled={settings.algorithm !== 'layered'}
+          onChange={(value) => value !== null && update({ layerSpacing: String(value) })}
+          aria-label="Level spacing"
+        />
+      </label>
+      <Checkbox
+        checked={settings.groupByTeam}
+        onChange={(e) => update({ groupByTeam: e.target.checked })}
+      >
+        Group by team
+      </Checkbox>
+      <Checkbox
+        checked={showArrowheads}
+        onChange={(e) => onShowArrowheadsChange(e.target.checked)}
+      >
+        Arrowheads
+      </Checkbox>
+      <Button size="small" type="link" onClick={onReset}>
+        Reset to defaults
+      </Button>
+    </div>
+  );
+};
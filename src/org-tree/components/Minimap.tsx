@@ -0,0 +1,77 @@
+import React, { useRef } from 'react';
+import { ELKLayout } from '../utils/elkUtils';
+import { Point, Size, ViewTransform, getVisibleBounds } from '../utils/viewport';
+
+interface MinimapProps {
+  layout: ELKLayout;
+  layoutSize: Size;
+  transform: ViewTransform;
+  viewportSize: Size;
+  onNavigate: (point: Point) => void;
+}
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_MAX_HEIGHT = 150;
+
+export const Minimap: React.FC<MinimapProps> = ({ layout, layoutSize, transform, viewportSize, onNavigate }) => {
+  const isNavigating = useRef(false);
+
+  const ratio = Math.min(
+    MINIMAP_WIDTH / Math.max(layoutSize.width, 1),
+    MINIMAP_MAX_HEIGHT / Math.max(layoutSize.height, 1)
+  );
+  const width = layoutSize.width * ratio;
+  const height = layoutSize.height * ratio;
+  const visible = getVisibleBounds(transform, viewportSize);
+
+  // Minimap pixels back to layout coordinates
+  const navigate = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: (event.clientX - rect.left) / ratio,
+      y: (event.clientY - rect.top) / ratio,
+    });
+  };
+
+  return (
+    <div className="chart-minimap" aria-label="Chart overview">
+      <svg
+        width={width}
+        height={height}
+        onPointerDown={(event) => {
+          isNavigating.current = true;
+          event.currentTarget.setPointerCapture?.(event.pointerId);
+          navigate(event);
+        }}
+        onPointerMove={(event) => {
+          if (isNavigating.current) navigate(event);
+        }}
+        onPointerUp={() => {
+          isNavigating.current = false;
+        }}
+      >
+        {layout.children?.map((node) =>
+          node.x === undefined || node.y === undefined ? null : (
+            <rect
+              key={node.id}
+              className="minimap-node"
+              x={node.x * ratio}
+              y={node.y * ratio}
+              width={node.width * ratio}
+              height={node.height * ratio}
+            />
+          )
+        )}
+        {viewportSize.width > 0 && (
+          <rect
+            className="minimap-viewport"
+            x={visible.x * ratio}
+            y={visible.y * ratio}
+            width={visible.width * ratio}
+            height={visible.height * ratio}
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Button } from 'antd';
+import { Employee } from '../../services/types';
+import { OutboxConflict } from '../hooks/useOutbox';
+
+interface OfflineBannerProps {
+  isOffline: boolean;
+  /** When the cached chart being shown was last confirmed by the server. */
+  cachedAt: number | null;
+  queuedCount: number;
+  conflicts: OutboxConflict[];
+  employeesById: Map<string, Employee>;
+  isRetrying: boolean;
+  onRetry: () => void;
+  onDismissConflicts: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const OfflineBanner: React.FC<OfflineBannerProps> = ({
+  isOffline,
+  cachedAt,
+  queuedCount,
+  conflicts,
+  employeesById,
+  isRetrying,
+  onRetry,
+  onDismissConflicts,
+}) => {
+  if (!isOffline && cachedAt === null && queuedCount === 0 && conflicts.length === 0) return null;
+
+  const nameOf = (id: string) => employeesById.get(id)?.name ?? `#${id}`;
+
+  return (
+    <div className="offline-banner" role="status" aria-label="Sync status">
+      {(isOffline || cachedAt !== null || queuedCount > 0) && (
+        <div className="offline-banner-row">
+          <span className="offline-banner-message">
+            {isOffline
+              ? "Offline: the server can't be reached."
+              : cachedAt !== null
+                ? 'Connecting to the server.'
+                : 'Syncing queued changes.'}
+            {cachedAt !== null && ` Showing the chart as of ${formatTime(cachedAt)}.`}
+            {queuedCount > 0 &&
+              ` ${queuedCount} ${queuedCount === 1 ? 'change is' : 'changes are'} waiting to be saved.`}
+          </span>
+          {isOffline && (
+            <Button size="small" loading={isRetrying} onClick={onRetry}>
+              Retry now
+            </Button>
+          )}
+        </div>
+      )}
+      {conflicts.length > 0 && (
+        <section className="offline-conflicts" aria-label="Sync conflicts">
+          <div className="offline-banner-row">
+            <span className="offline-banner-message">
+              {conflicts.length} queued {conflicts.length === 1 ? 'change' : 'changes'} could not be saved
+            </span>
+            <Button size="small" onClick={onDismissConflicts}>
+              Dismiss
+            </Button>
+          </div>
+          <ul>
+            {conflicts.map(({ item, reason }) => (
+              <li key={item.id}>
+                Moving {nameOf(item.employeeId)}{' '}
+                {item.toManagerId ? `under ${nameOf(item.toManagerId)}` : 'to the top level'}: {reason}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
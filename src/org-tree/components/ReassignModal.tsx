@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { Modal, Select } from 'antd';
+import { Employee } from '../../services/types';
+import { getManagerChain, getReassignmentBlocker } from '../../services/hierarchy';
+
+interface ReassignModalProps {
+  /** Who is being reassigned; the modal is closed while this is null. */
+  moving: Employee[] | null;
+  employees: Employee[];
+  onCancel: () => void;
+  onReassign: (managerId: string) => void;
+}
+
+export const ReassignModal: React.FC<ReassignModalProps> = ({ moving, employees, onCancel, onReassign }) => {
+  const [managerId, setManagerId] = useState<string | null>(null);
+
+  const byId = useMemo(() => new Map(employees.map((emp) => [emp.id, emp])), [employees]);
+
+  // Everyone is listed so it is clear why someone cannot be picked; those
+  // who can come first
+  const options = useMemo(() => {
+    if (!moving) return [];
+    const ids = moving.map((emp) => emp.id);
+    return employees
+      .map((emp) => {
+        const blocker = getReassignmentBlocker(byId, ids, emp.id);
+        return {
+          value: emp.id,
+          label: `${emp.name} — ${emp.designation}${blocker ? ` · ${blocker}` : ''}`,
+          disabled: blocker !== null,
+        };
+      })
+      .sort((a, b) => Number(a.disabled) - Number(b.disabled));
+  }, [moving, employees, byId]);
+
+  // The first person's new line of managers, from the top of the org down to them
+  const chain = useMemo(() => {
+    if (!moving?.length || managerId === null) return [];
+    return [...getManagerChain(byId, managerId).reverse(), managerId]
+      .map((id) => byId.get(id)?.name ?? id)
+      .concat(moving[0].name);
+  }, [moving, managerId, byId]);
+
+  const title = !moving || moving.length === 0
+    ? 'Reassign to…'
+    : moving.length === 1
+      ? `Reassign ${moving[0].name} to…`
+      : `Reassign ${moving.length} employees to…`;
+
+  const close = () => {
+    setManagerId(null);
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={title}
+      open={moving !== null}
+      okText="Reassign"
+      onOk={() => {
+        if (managerId === null) return;
+        setManagerId(null);
+        onReassign(managerId);
+      }}
+      onCancel={close}
+      okButtonProps={{ disabled: managerId === null }}
+      destroyOnHidden
+    >
+      <div className="modal-form">
+        <label className="modal-field">
+          <span>New manager</span>
+          <Select
+            className="modal-select"
+            showSearch
+            autoFocus
+            optionFilterProp="label"
+            placeholder="Search for a manager"
+            value={managerId ?? undefined}
+            onChange={(value) => setManagerId(value)}
+            options={options}
+          />
+        </label>
+        {chain.length > 0 && (
+          <div>
+            <span className="modal-hint">
+              New reporting line{moving && moving.length > 1 ? ` for ${moving[0].name}` : ''}:
+            </span>
+            <ol className="reporting-chain" aria-label="New reporting line">
+              {chain.map((name, index) => (
+                <li key={index}>{name}</li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { Modal, Select } from 'antd';
+import { Employee } from '../../services/types';
+import { getDescendantIds } from '../../services/hierarchy';
+
+interface RemoveEmployeeModalProps {
+  employee: Employee | null;
+  employees: Employee[];
+  onCancel: () => void;
+  onConfirm: (employee: Employee, reassignTo: string) => Promise<void>;
+}
+
+const NO_MANAGER = '';
+
+export const RemoveEmployeeModal: React.FC<RemoveEmployeeModalProps> = ({ employee, employees, onCancel, onConfirm }) => {
+  const [reassignTo, setReassignTo] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const reports = useMemo(
+    () => (employee ? employees.filter((e) => e.managerId === employee.id) : []),
+    [employee, employees]
+  );
+
+  // Reports cannot move under the removed employee or anyone in their subtree
+  const candidates = useMemo(() => {
+    if (!employee) return [];
+    const excluded = getDescendantIds(employees, employee.id);
+    excluded.add(employee.id);
+    return employees.filter((e) => !excluded.has(e.id));
+  }, [employee, employees]);
+
+  const options = [
+    ...(employee && !employee.managerId ? [{ label: 'No manager (top level)', value: NO_MANAGER }] : []),
+    ...candidates.map((e) => ({ label: `${e.name} — ${e.designation}`, value: e.id })),
+  ];
+
+  const selected = reassignTo ?? employee?.managerId ?? null;
+  const needsChoice = reports.length > 0;
+
+  const handleOk = async () => {
+    if (!employee) return;
+    setIsSaving(true);
+    try {
+      await onConfirm(employee, selected ?? NO_MANAGER);
+      setReassignTo(null);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setReassignTo(null);
+    onCancel();
+  };
+
+  return (
+    <Modal
+      title={employee ? (employee.vacancy ? `Close ${employee.designation}?` : `Remove ${employee.name}?`) : 'Remove employee'}
+      open={employee !== null}
+      okText={employee?.vacancy ? 'Close position' : 'Remove'}
+      okButtonProps={{ danger: true, disabled: needsChoice && selected === null }}
+      onOk={handleOk}
+      onCancel={handleCancel}
+      confirmLoading={isSaving}
+      destroyOnHidden
+    >
+      {needsChoice ? (
+        <div className="modal-form">
+          <p>
+            {employee?.name} has {reports.length} direct report{reports.length === 1 ? '' : 's'}.
+            Choose who they will report to:
+          </p>
+          <Select
+            className="modal-select"
+            showSearch
+            optionFilterProp="label"
+            placeholder="Select a new manager"
+            value={selected ?? undefined}
+            onChange={(value) => setReassignTo(value)}
+            options={options}
+          />
+        </div>
+      ) : (
+        <p>{employee?.name} has no direct reports.</p>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Button } from 'antd';
+
+interface ScenarioBarProps {
+  name: string;
+  /** Moves, additions and removals compared with the live org. */
+  changeCount: number;
+  hasUnsavedChanges: boolean;
+  isSaving: boolean;
+  onShowChanges: () => void;
+  onSave: () => void;
+  onClose: () => void;
+}
+
+export const ScenarioBar: React.FC<ScenarioBarProps> = ({
+  name,
+  changeCount,
+  hasUnsavedChanges,
+  isSaving,
+  onShowChanges,
+  onSave,
+  onClose,
+}) => (
+  <div className="scenario-bar" role="region" aria-label="Scenario">
+    <span className="scenario-bar-message">
+      Editing draft <strong>{name}</strong>: {changeCount} {changeCount === 1 ? 'change' : 'changes'} from
+      the live org.
+      {hasUnsavedChanges && ' Unsaved changes.'}
+    </span>
+    <div className="scenario-bar-actions">
+      <Button size="small" onClick={onShowChanges}>
+        Review changes
+      </Button>
+      <Button size="small" onClick={onSave} disabled={!hasUnsavedChanges} loading={isSaving}>
+        Save draft
+      </Button>
+      <Button size="small" onClick={onClose}>
+        {hasUnsavedChanges ? 'Close without saving' : 'Close draft'}
+      </Button>
+    </div>
+  </div>
+);
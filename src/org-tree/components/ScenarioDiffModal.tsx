@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Modal } from 'antd';
+import { Employee } from '../../services/types';
+import { ScenarioDiff, countScenarioChanges } from '../../services/scenarios';
+
+interface ScenarioDiffModalProps {
+  open: boolean;
+  name: string;
+  diff: ScenarioDiff;
+  /** Employees from both the live org and the draft, for naming managers. */
+  employeesById: Map<string, Employee>;
+  onCancel: () => void;
+  onPublish: () => Promise<void>;
+}
+
+export const ScenarioDiffModal: React.FC<ScenarioDiffModalProps> = ({
+  open,
+  name,
+  diff,
+  employeesById,
+  onCancel,
+  onPublish,
+}) => {
+  const [isPublishing, setIsPublishing] = useState(false);
+  const changeCount = countScenarioChanges(diff);
+  const changedTeams = diff.headcounts.filter(
+    (team) => team.before !== team.after || team.openBefore !== team.openAfter
+  );
+
+  const managerName = (id: string) =>
+    id ? employeesById.get(id)?.name ?? `#${id}` : 'the top level';
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      await onPublish();
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Modal
+      title={`Changes in ${name}`}
+      open={open}
+      okText="Publish"
+      okButtonProps={{ disabled: changeCount === 0 }}
+      onOk={handlePublish}
+      onCancel={onCancel}
+      confirmLoading={isPublishing}
+      destroyOnHidden
+    >
+      <div className="scenario-diff">
+        {changeCount === 0 ? (
+          <p>This draft matches the live org.</p>
+        ) : (
+          <p>Publishing applies these changes to the live org together, or none of them.</p>
+        )}
+        {diff.moved.length > 0 && (
+          <section aria-label="Moved">
+            <h4>Moved</h4>
+            <ul>
+              {diff.moved.map(({ employee, fromManagerId, toManagerId }) => (
+                <li key={employee.id}>
+                  {employee.name}: {managerName(fromManagerId)} → {managerName(toManagerId)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {diff.added.length > 0 && (
+          <section aria-label="Added">
+            <h4>Added</h4>
+            <ul>
+              {diff.added.map((emp) => (
+                <li key={emp.id}>
+                  {emp.name}, {emp.designation} under {managerName(emp.managerId)}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {diff.removed.length > 0 && (
+          <section aria-label="Removed">
+            <h4>Removed</h4>
+            <ul>
+              {diff.removed.map((emp) => (
+                <li key={emp.id}>
+                  {emp.name}, {emp.designation}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {diff.spanChanges.length > 0 && (
+          <section aria-label="Span of control">
+            <h4>Span of control</h4>
+            <ul>
+              {diff.spanChanges.map(({ manager, before, after }) => (
+                <li key={manager.id}>
+                  {manager.name}: {before} → {after} direct {after === 1 ? 'report' : 'reports'}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+        {changedTeams.length > 0 && (
+          <section aria-label="Headcount by team">
+            <h4>Headcount by team</h4>
+            <ul>
+              {changedTeams.map(({ team, before, after, openBefore, openAfter }) => (
+                <li key={team}>
+                  {team || 'No team'}: {before} → {after}
+                  {openBefore !== openAfter && ` (open positions ${openBefore} → ${openAfter})`}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Button, Input, Modal, Spin } from 'antd';
+import { ScenarioSummary } from '../../services/types';
+
+interface ScenarioModalProps {
+  open: boolean;
+  scenarios: ScenarioSummary[];
+  isLoading: boolean;
+  /** The draft currently shown in the chart, if any. */
+  openScenarioId: string | null;
+  onCreate: (name: string) => Promise<void>;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCancel: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ScenarioModal: React.FC<ScenarioModalProps> = ({
+  open,
+  scenarios,
+  isLoading,
+  openScenarioId,
+  onCreate,
+  onOpen,
+  onDelete,
+  onCancel,
+}) => {
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    try {
+      await onCreate(name.trim());
+      setName('');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Modal title="Scenarios" open={open} footer={null} onCancel={onCancel} destroyOnHidden>
+      <div className="modal-form">
+        <p>A scenario is a draft copy of the live org. Changes made in it are kept out of the live org until it is published.</p>
+        <div className="scenario-create">
+          <Input
+            placeholder="Name for a new draft"
+            aria-label="Scenario name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onPressEnter={() => name.trim() && handleCreate()}
+          />
+          <Button type="primary" onClick={handleCreate} disabled={!name.trim()} loading={isCreating}>
+            Create draft
+          </Button>
+        </div>
+        {isLoading ? (
+          <Spin />
+        ) : scenarios.length === 0 ? (
+          <p className="scenario-empty">No saved drafts yet.</p>
+        ) : (
+          <ul className="scenario-list" aria-label="Saved scenarios">
+            {scenarios.map((scenario) => (
+              <li key={scenario.id} className="scenario-list-item">
+                <div>
+                  <div className="scenario-list-name">{scenario.name}</div>
+                  <div className="scenario-list-meta">
+                    {scenario.changeCount} {scenario.changeCount === 1 ? 'change' : 'changes'} · saved{' '}
+                    {formatTime(scenario.updatedAt)}
+                  </div>
+                </div>
+                <div className="scenario-list-actions">
+                  <Button
+                    size="small"
+                    onClick={() => onOpen(scenario.id)}
+                    disabled={scenario.id === openScenarioId}
+                  >
+                    Open
+                  </Button>
+                  <Button size="small" danger onClick={() => onDelete(scenario.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { Headcount, describeHeadcount } from '../../services/vacancies';
+import { ELKGroup, GROUP_HEADER_HEIGHT } from '../utils/elkUtils';
+
+interface TeamGroupProps {
+  group: ELKGroup;
+  /** The whole team, including members hidden by filters or collapsed subtrees. */
+  headcount?: Headcount;
+  onToggleCollapse: (team: string) => void;
+}
+
+// An expanded team is a box drawn behind its members' cards; a collapsed one
+// takes the place of those cards as a single summary node
+export const TeamGroup: React.FC<TeamGroupProps> = ({ group, headcount, onToggleCollapse }) => {
+  const { team, isCollapsed } = group;
+
+  return (
+    <div
+      data-testid={`team-group-${team}`}
+      className={`team-group ${isCollapsed ? 'collapsed' : ''}`}
+      style={{
+        position: 'absolute',
+        left: group.x,
+        top: group.y,
+        width: group.width,
+        height: group.height,
+      }}
+    >
+      <div className="team-group-header" style={{ height: isCollapsed ? undefined : GROUP_HEADER_HEIGHT }}>
+        <span className="team-group-name">{team}</span>
+        {headcount && <span className="team-group-count">{describeHeadcount(headcount)}</span>}
+        <button
+          type="button"
+          className="team-group-toggle"
+          aria-expanded={!isCollapsed}
+          aria-label={`${isCollapsed ? 'Expand' : 'Collapse'} team ${team}`}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => onToggleCollapse(team)}
+        >
+          {isCollapsed ? '+' : '−'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button, Slider } from 'antd';
+import { Employee, EmployeeEvent } from '../../services/types';
+
+interface TimelineBarProps {
+  /** Every recorded change to the org, oldest first; sets the slider's range. */
+  events: EmployeeEvent[];
+  /** The date shown in the chart, or null for the live org. */
+  asOf: string | null;
+  /** The single selected employee, whose own history is listed. */
+  selectedEmployee: Employee | null;
+  selectedHistory: EmployeeEvent[];
+  onChange: (asOf: string | null) => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDate = (value: string | number) =>
+  new Date(value).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+// One line per event, e.g. "moved under Jane Smith"
+function describeEvents(history: EmployeeEvent[], nameOf: (id: string) => string) {
+  let managerId: string | null = null;
+  return history.map((event, index) => {
+    const nextManagerId = event.employee?.managerId ?? '';
+    const under = nextManagerId ? `under ${nameOf(nextManagerId)}` : 'at the top level';
+    const description =
+      event.type === 'created'
+        ? `joined ${under}`
+        : event.type === 'deleted'
+          ? 'left the org'
+          : nextManagerId !== managerId
+            ? `moved ${under}`
+            : 'details changed';
+    managerId = event.type === 'deleted' ? null : nextManagerId;
+    return { key: index, date: formatDate(event.effectiveAt), description };
+  });
+}
+
+export const TimelineBar: React.FC<TimelineBarProps> = ({
+  events,
+  asOf,
+  selectedEmployee,
+  selectedHistory,
+  onChange,
+  onClose,
+}) => {
+  const [now] = useState(() => Date.now());
+  // Whole days back from now, so the right-hand end is always reachable
+  const start = useMemo(() => {
+    const earliest = events.length > 0 ? Date.parse(events[0].effectiveAt) : now;
+    return now - Math.max(1, Math.ceil((now - earliest) / DAY_MS)) * DAY_MS;
+  }, [events, now]);
+  const [position, setPosition] = useState(asOf ? Date.parse(asOf) : now);
+
+  useEffect(() => {
+    setPosition(asOf ? Date.parse(asOf) : now);
+  }, [asOf, now]);
+
+  // A dot on each day something changed
+  const marks = useMemo(
+    () =>
+      Object.fromEntries(
+        events.map((event) => {
+          const time = Date.parse(event.effectiveAt);
+          return [start + Math.round((time - start) / DAY_MS) * DAY_MS, ' '];
+        })
+      ),
+    [events, start]
+  );
+
+  const namesById = useMemo(() => {
+    const names = new Map<string, string>();
+    events.forEach((event) => {
+      if (event.employee) names.set(event.employeeId, event.employee.name);
+    });
+    return names;
+  }, [events]);
+
+  return (
+    <div className="timeline-bar" role="region" aria-label="Timeline">
+      <div className="timeline-bar-row">
+        <span className="timeline-bar-message">
+          {asOf
+            ? `Showing the org as of ${formatDate(asOf)}. Changes are turned off while looking at the past.`
+            : 'Showing the live org. Move the slider to see an earlier date.'}
+        </span>
+        <div className="timeline-bar-actions">
+          {asOf && (
+            <Button size="small" onClick={() => onChange(null)}>
+              Back to today
+            </Button>
+          )}
+          <Button size="small" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </div>
+      <div className="timeline-slider-row">
+        <span className="timeline-slider-label">{formatDate(start)}</span>
+        <Slider
+          className="timeline-slider"
+          min={start}
+          max={now}
+          step={DAY_MS}
+          marks={marks}
+          value={position}
+          tooltip={{ open: false }}
+          ariaLabelForHandle="Date"
+          ariaValueTextFormatterForHandle={(value) => (value === undefined ? '' : formatDate(value))}
+          onChange={setPosition}
+          onChangeComplete={(value) => onChange(value >= now ? null : new Date(value).toISOString())}
+        />
+        <span className="timeline-slider-label">Today</span>
+      </div>
+      {selectedEmployee && selectedHistory.length > 0 && (
+        <section className="timeline-history" aria-label={`History of ${selectedEmployee.name}`}>
+          <h4>History of {selectedEmployee.name}</h4>
+          <ul>
+            {describeEvents(selectedHistory, (id) => namesById.get(id) ?? `#${id}`).map((line) => (
+              <li key={line.key}>
+                {line.date}: {line.description}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
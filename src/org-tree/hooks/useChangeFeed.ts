@@ -0,0 +1,24 @@
+import { createContext, useContext, useEffect, useRef } from "react";
+import { ChangeFeed, EmployeeChange } from "../../services/changeFeed";
+
+/** Live employee changes; without a provider the chart only loads on mount. */
+export const ChangeFeedContext = createContext<ChangeFeed | null>(null);
+
+/**
+ * Calls `onChanges` for every group of changes from the feed in context.
+ * The subscription lasts as long as the feed; the latest `onChanges` is
+ * always the one called.
+ */
+export function useChangeFeed(onChanges: (changes: EmployeeChange[]) => void) {
+  const feed = useContext(ChangeFeedContext);
+  const onChangesRef = useRef(onChanges);
+
+  useEffect(() => {
+    onChangesRef.current = onChanges;
+  });
+
+  useEffect(() => {
+    if (!feed) return;
+    return feed.subscribe((changes) => onChangesRef.current(changes));
+  }, [feed]);
+}
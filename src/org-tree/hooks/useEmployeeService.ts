@@ -0,0 +1,17 @@
+import { createContext, useContext } from "react";
+import {
+  EmployeeService,
+  createHttpEmployeeService,
+} from "../../services/employeeService";
+
+/**
+ * The backend the chart reads and writes through. Defaults to the REST API on
+ * this origin; wrap the chart in a provider to swap in another implementation.
+ */
+export const EmployeeServiceContext = createContext<EmployeeService>(
+  createHttpEmployeeService()
+);
+
+export function useEmployeeService(): EmployeeService {
+  return useContext(EmployeeServiceContext);
+}
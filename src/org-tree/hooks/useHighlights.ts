@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * A set of ids that each drop out `durationMs` after they were last added.
+ */
+export function useHighlights(durationMs: number) {
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set());
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const highlight = useCallback((ids: string[]) => {
+    if (ids.length === 0) return;
+    setHighlightedIds((prev) => new Set([...prev, ...ids]));
+    ids.forEach((id) => {
+      clearTimeout(timers.current.get(id));
+      timers.current.set(
+        id,
+        setTimeout(() => {
+          timers.current.delete(id);
+          setHighlightedIds((prev) => {
+            const next = new Set(prev);
+            next.delete(id);
+            return next;
+          });
+        }, durationMs)
+      );
+    });
+  }, [durationMs]);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  return { highlightedIds, highlight };
+}
@@ -0,0 +1,9 @@
+import { createContext, useContext } from "react";
+import { OfflineStore } from "../../services/offlineStore";
+
+/** Where the chart keeps its offline cache and outbox; without one it needs the API. */
+export const OfflineStoreContext = createContext<OfflineStore | null>(null);
+
+export function useOfflineStore(): OfflineStore | null {
+  return useContext(OfflineStoreContext);
+}
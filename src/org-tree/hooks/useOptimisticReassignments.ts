@@ -0,0 +1,78 @@
+import { Dispatch, SetStateAction, useCallback, useEffect, useRef, useState } from "react";
+import { Employee, Reassignment } from "../../services/types";
+import { withManager } from "../../services/hierarchy";
+
+/**
+ * Applies reassignments to local state immediately and saves them in the
+ * background, dropping a dotted line to the new manager as the server does.
+ * `save` also gets each employee's manager from before the move, since local
+ * state already shows the new one by the time a save fails. A failed save
+ * restores the previous managers and dotted lines, except for employees that
+ * have been moved again since, and rethrows so the caller can report it.
+ * Moves passed together are saved and rolled back together.
+ */
+export function useOptimisticReassignments(
+  employees: Employee[],
+  setEmployees: Dispatch<SetStateAction<Employee[]>>,
+  save: (reassignments: Reassignment[], previousManagerIds: Map<string, string>) => Promise<void>
+) {
+  const [pending, setPending] = useState<Record<string, string>>({});
+  const employeesRef = useRef(employees);
+
+  useEffect(() => {
+    employeesRef.current = employees;
+  }, [employees]);
+
+  const reassign = useCallback(async (reassignments: Reassignment[]) => {
+    const previousManagerIds = new Map<string, string>();
+    const previousSecondaryManagerIds = new Map<string, string[] | undefined>();
+    reassignments.forEach(({ employeeId }) => {
+      const employee = employeesRef.current.find((e) => e.id === employeeId);
+      if (employee) {
+        previousManagerIds.set(employeeId, employee.managerId);
+        previousSecondaryManagerIds.set(employeeId, employee.secondaryManagerIds);
+      }
+    });
+    const moves = reassignments.filter(({ employeeId }) => previousManagerIds.has(employeeId));
+    if (moves.length === 0) return;
+
+    const targetManagerIds = new Map(moves.map((move) => [move.employeeId, move.managerId]));
+    setEmployees((prev) =>
+      prev.map((emp) =>
+        targetManagerIds.has(emp.id)
+          ? withManager(emp, targetManagerIds.get(emp.id) as string)
+          : emp
+      )
+    );
+    setPending((prev) => ({ ...prev, ...Object.fromEntries(targetManagerIds) }));
+
+    try {
+      await save(moves, previousManagerIds);
+    } catch (error) {
+      setEmployees((prev) =>
+        prev.map((emp) =>
+          targetManagerIds.has(emp.id) && emp.managerId === targetManagerIds.get(emp.id)
+            ? {
+                ...emp,
+                managerId: previousManagerIds.get(emp.id) as string,
+                secondaryManagerIds: previousSecondaryManagerIds.get(emp.id),
+              }
+            : emp
+        )
+      );
+      throw error;
+    } finally {
+      setPending((prev) => {
+        const next = { ...prev };
+        targetManagerIds.forEach((managerId, employeeId) => {
+          if (next[employeeId] === managerId) delete next[employeeId];
+        });
+        return next;
+      });
+    }
+  }, [setEmployees, save]);
+
+  const isPending = useCallback((employeeId: string) => employeeId in pending, [pending]);
+
+  return { reassign, isPending };
+}
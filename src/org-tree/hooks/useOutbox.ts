@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Employee, Reassignment } from "../../services/types";
+import { OfflineStore, OutboxItem } from "../../services/offlineStore";
+import { describeApiError, isNetworkError } from "../../services/apiErrors";
+
+/** A queued move that could not be applied when the outbox was replayed. */
+export type OutboxConflict = {
+  item: OutboxItem;
+  reason: string;
+};
+
+export type NewOutboxItem = Pick<OutboxItem, "employeeId" | "fromManagerId" | "toManagerId">;
+
+let nextItemId = 0;
+
+/**
+ * Moves made while the API is unreachable, persisted in `store` so they
+ * survive a reload. `flush` replays them in order through `send` and drops
+ * each one that succeeds or conflicts; it stops at the first network error
+ * and rethrows it, leaving the rest queued.
+ */
+export function useOutbox(
+  store: OfflineStore | null,
+  send: (reassignment: Reassignment) => Promise<void>
+) {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [conflicts, setConflicts] = useState<OutboxConflict[]>([]);
+  // The store is read and written one operation at a time so a move queued
+  // during a replay is not lost
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+
+  const run = useCallback(<T>(task: () => Promise<T>): Promise<T> => {
+    const result = queue.current.then(task);
+    queue.current = result.catch(() => undefined);
+    return result;
+  }, []);
+
+  const load = useCallback(
+    () => run(async () => (store ? store.loadOutbox() : [])),
+    [store, run]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    load().then((saved) => {
+      if (!cancelled) setItems(saved);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  const enqueue = useCallback((moves: NewOutboxItem[]) =>
+    run(async () => {
+      if (!store) return;
+      const queuedAt = Date.now();
+      const next = [
+        ...(await store.loadOutbox()),
+        ...moves.map((move) => ({ ...move, id: `${queuedAt}-${nextItemId++}`, queuedAt })),
+      ];
+      await store.saveOutbox(next);
+      setItems(next);
+    }), [store, run]);
+
+  const flush = useCallback((serverEmployees: Employee[]) =>
+    run(async () => {
+      if (!store) return { sent: 0, conflicts: [] as OutboxConflict[] };
+      let remaining = await store.loadOutbox();
+      const managerById = new Map(serverEmployees.map((emp) => [emp.id, emp.managerId ?? ""]));
+      const found: OutboxConflict[] = [];
+      let sent = 0;
+
+      try {
+        while (remaining.length > 0) {
+          const [item] = remaining;
+          const currentManagerId = managerById.get(item.employeeId);
+          if (currentManagerId === undefined) {
+            found.push({ item, reason: "The employee no longer exists" });
+          } else if (currentManagerId !== item.fromManagerId && currentManagerId !== item.toManagerId) {
+            found.push({ item, reason: "Someone else moved this employee in the meantime" });
+          } else if (currentManagerId !== item.toManagerId) {
+            try {
+              await send({ employeeId: item.employeeId, managerId: item.toManagerId });
+              managerById.set(item.employeeId, item.toManagerId);
+              sent++;
+            } catch (error) {
+              if (isNetworkError(error)) throw error;
+              found.push({ item, reason: describeApiError(error) });
+            }
+          }
+          remaining = remaining.slice(1);
+          await store.saveOutbox(remaining);
+        }
+      } finally {
+        setItems(remaining);
+        if (found.length > 0) setConflicts((prev) => [...prev, ...found]);
+      }
+      return { sent, conflicts: found };
+    }), [store, send, run]);
+
+  const dismissConflicts = useCallback(() => setConflicts([]), []);
+
+  return { items, conflicts, load, enqueue, flush, dismissConflicts };
+}
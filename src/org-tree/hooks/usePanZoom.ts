@@ -0,0 +1,151 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Bounds,
+  Point,
+  Size,
+  ViewTransform,
+  centerOn,
+  fitBounds,
+  zoomAt,
+} from "../utils/viewport";
+
+const WHEEL_ZOOM_SPEED = 0.0015;
+const BUTTON_ZOOM_FACTOR = 1.2;
+const INITIAL_TRANSFORM: ViewTransform = { x: 40, y: 40, scale: 1 };
+
+// Presses on these start their own interactions (dragging a card, clicking a control)
+const NON_PANNING_TARGETS = ".employee-card, button, input, .chart-minimap";
+
+/**
+ * Wheel and pinch zoom plus click-drag panning for a viewport element.
+ * `locked` suspends all gestures, e.g. while a card is being dragged, so the
+ * droppable rectangles dnd-kit measured at drag start stay valid.
+ */
+export function usePanZoom(locked: boolean) {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<ViewTransform>(INITIAL_TRANSFORM);
+  const [viewportSize, setViewportSize] = useState<Size>({ width: 0, height: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+  const pointers = useRef(new Map<number, Point>());
+  const lockedRef = useRef(locked);
+
+  useEffect(() => {
+    lockedRef.current = locked;
+  }, [locked]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const measure = () =>
+      setViewportSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+    measure();
+
+    if (typeof ResizeObserver === "undefined") {
+      window.addEventListener("resize", measure);
+      return () => window.removeEventListener("resize", measure);
+    }
+    const observer = new ResizeObserver(measure);
+    observer.observe(viewport);
+    return () => observer.disconnect();
+  }, []);
+
+  // Registered by hand because React's wheel listener is passive and cannot prevent page scroll
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      if (lockedRef.current) return;
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const factor = Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED);
+      setTransform((prev) =>
+        zoomAt(prev, factor, { x: event.clientX - rect.left, y: event.clientY - rect.top })
+      );
+    };
+    viewport.addEventListener("wheel", handleWheel, { passive: false });
+    return () => viewport.removeEventListener("wheel", handleWheel);
+  }, []);
+
+  const onPointerDown = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    if (lockedRef.current) return;
+    if ((event.target as Element).closest(NON_PANNING_TARGETS)) return;
+    pointers.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    setIsPanning(true);
+  }, []);
+
+  const onPointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(event.pointerId);
+    if (!previous) return;
+    const current = { x: event.clientX, y: event.clientY };
+
+    if (pointers.current.size === 2) {
+      // Pinch: scale by the change in distance between the two fingers, around their midpoint
+      const [other] = [...pointers.current.entries()]
+        .filter(([id]) => id !== event.pointerId)
+        .map(([, point]) => point);
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(current.x - other.x, current.y - other.y);
+      const rect = event.currentTarget.getBoundingClientRect();
+      if (before > 0) {
+        setTransform((prev) =>
+          zoomAt(prev, after / before, {
+            x: (current.x + other.x) / 2 - rect.left,
+            y: (current.y + other.y) / 2 - rect.top,
+          })
+        );
+      }
+    } else {
+      setTransform((prev) => ({
+        ...prev,
+        x: prev.x + current.x - previous.x,
+        y: prev.y + current.y - previous.y,
+      }));
+    }
+    pointers.current.set(event.pointerId, current);
+  }, []);
+
+  const onPointerUp = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(event.pointerId);
+    if (pointers.current.size === 0) setIsPanning(false);
+  }, []);
+
+  const zoomBy = useCallback((factor: number) => {
+    setTransform((prev) =>
+      zoomAt(prev, factor, { x: viewportSize.width / 2, y: viewportSize.height / 2 })
+    );
+  }, [viewportSize]);
+
+  const zoomIn = useCallback(() => zoomBy(BUTTON_ZOOM_FACTOR), [zoomBy]);
+  const zoomOut = useCallback(() => zoomBy(1 / BUTTON_ZOOM_FACTOR), [zoomBy]);
+  const resetZoom = useCallback(() => setTransform(INITIAL_TRANSFORM), []);
+
+  const fitTo = useCallback((bounds: Bounds, maxScale?: number) => {
+    if (viewportSize.width === 0 || viewportSize.height === 0) return;
+    setTransform(fitBounds(bounds, viewportSize, 40, maxScale));
+  }, [viewportSize]);
+
+  const panTo = useCallback((point: Point) => {
+    setTransform((prev) => centerOn(prev, point, viewportSize));
+  }, [viewportSize]);
+
+  return {
+    viewportRef,
+    transform,
+    viewportSize,
+    isPanning,
+    zoomIn,
+    zoomOut,
+    resetZoom,
+    fitTo,
+    panTo,
+    panHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { Dispatch, SetStateAction, useEffect, useState } from "react";
+
+function readStoredValue<T>(key: string, initialValue: T): T {
+  try {
+    const stored = window.localStorage.getItem(key);
+    return stored === null ? initialValue : (JSON.parse(stored) as T);
+  } catch {
+    return initialValue;
+  }
+}
+
+/**
+ * `useState` backed by localStorage, so the value survives reloads.
+ * Values must be JSON-serializable.
+ */
+export function usePersistedState<T>(
+  key: string,
+  initialValue: T
+): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => readStoredValue(key, initialValue));
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Storage can be full or disabled; the value still lives for this session
+    }
+  }, [key, value]);
+
+  return [value, setValue];
+}
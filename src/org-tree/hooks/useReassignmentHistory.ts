@@ -0,0 +1,78 @@
+import { useCallback, useState } from "react";
+import { Reassignment } from "../../services/types";
+
+export type ReassignmentChange = {
+  employeeId: string;
+  fromManagerId: string;
+  toManagerId: string;
+};
+
+/** Moves made in one step, such as a group drag; undone and redone together. */
+export type HistoryEntry = ReassignmentChange[];
+
+/**
+ * Undo/redo stacks of saved reassignments. Undoing and redoing go through
+ * `apply`, so every step is sent to the server like a regular move; an entry
+ * only lands on the opposite stack once that save has succeeded.
+ */
+export function useReassignmentHistory(
+  apply: (reassignments: Reassignment[], onSaved: () => void) => void
+) {
+  const [past, setPast] = useState<HistoryEntry[]>([]);
+  const [future, setFuture] = useState<HistoryEntry[]>([]);
+
+  const record = useCallback((entry: HistoryEntry) => {
+    if (entry.length === 0) return;
+    setPast((prev) => [...prev, entry]);
+    setFuture([]);
+  }, []);
+
+  const undo = useCallback(() => {
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    setPast((prev) => prev.slice(0, -1));
+    apply(
+      entry.map((change) => ({ employeeId: change.employeeId, managerId: change.fromManagerId })),
+      () => setFuture((prev) => [...prev, entry])
+    );
+  }, [past, apply]);
+
+  const redo = useCallback(() => {
+    const entry = future[future.length - 1];
+    if (!entry) return;
+    setFuture((prev) => prev.slice(0, -1));
+    apply(
+      entry.map((change) => ({ employeeId: change.employeeId, managerId: change.toManagerId })),
+      () => setPast((prev) => [...prev, entry])
+    );
+  }, [future, apply]);
+
+  // Entries that mention a removed employee can no longer be replayed
+  const discard = useCallback((employeeId: string) => {
+    const keep = (entry: HistoryEntry) =>
+      entry.every(
+        (change) =>
+          change.employeeId !== employeeId &&
+          change.fromManagerId !== employeeId &&
+          change.toManagerId !== employeeId
+      );
+    setPast((prev) => prev.filter(keep));
+    setFuture((prev) => prev.filter(keep));
+  }, []);
+
+  // Used when the chart switches to a different org, such as opening a draft
+  const clear = useCallback(() => {
+    setPast([]);
+    setFuture([]);
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    discard,
+    clear,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
@@ -0,0 +1,14 @@
+import { createContext, useContext } from "react";
+import {
+  ScenarioService,
+  createHttpScenarioService,
+} from "../../services/scenarioService";
+
+/** Where draft scenarios are saved. Defaults to the REST API on this origin. */
+export const ScenarioServiceContext = createContext<ScenarioService>(
+  createHttpScenarioService()
+);
+
+export function useScenarioService(): ScenarioService {
+  return useContext(ScenarioServiceContext);
+}
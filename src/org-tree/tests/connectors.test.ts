@@ -0,0 +1,65 @@
+import { expect, test, describe } from 'vitest'
+import { getAnchor, getConnectorPath, getDottedLinePath, getRoundedPath, getRoutedPath } from '../utils/connectors'
+
+describe('connector paths', () => {
+  const manager = { x: 0, y: 0, width: 220, height: 80 }
+  const report = { x: 300, y: 200, width: 220, height: 80 }
+
+  test('getAnchor uses the side facing along the layout direction', () => {
+    expect(getAnchor(manager, 'DOWN', 'out')).toEqual({ x: 110, y: 80 })
+    expect(getAnchor(manager, 'DOWN', 'in')).toEqual({ x: 110, y: 0 })
+    expect(getAnchor(manager, 'UP', 'out')).toEqual({ x: 110, y: 0 })
+    expect(getAnchor(manager, 'RIGHT', 'out')).toEqual({ x: 220, y: 40 })
+    expect(getAnchor(manager, 'LEFT', 'out')).toEqual({ x: 0, y: 40 })
+    expect(getAnchor(manager, 'LEFT', 'in')).toEqual({ x: 220, y: 40 })
+  })
+
+  test('vertical layouts bend halfway between the levels', () => {
+    expect(getConnectorPath(manager, report)).toBe('M 110 80 L 110 140 L 410 140 L 410 200')
+    expect(getConnectorPath(report, manager, 'UP')).toBe('M 410 200 L 410 140 L 110 140 L 110 80')
+  })
+
+  test('horizontal layouts bend on the x axis', () => {
+    expect(getConnectorPath(manager, report, 'RIGHT')).toBe('M 220 40 L 260 40 L 260 240 L 300 240')
+    expect(getConnectorPath(report, manager, 'LEFT')).toBe('M 300 240 L 260 240 L 260 40 L 220 40')
+  })
+
+  test('dotted lines curve along the layout direction and bow out between cards on one level', () => {
+    expect(getDottedLinePath(manager, report)).toBe('M 110 80 C 110 140 410 140 410 200')
+    expect(getDottedLinePath(manager, { ...report, y: 0 })).toBe('M 110 80 C 110 140 410 -60 410 0')
+    expect(getDottedLinePath(manager, report, 'LEFT')).toBe('M 0 40 C -260 40 780 240 520 240')
+  })
+
+  test('getRoundedPath rounds each bend and shrinks the radius on short segments', () => {
+    expect(
+      getRoundedPath([
+        { x: 0, y: 0 },
+        { x: 0, y: 50 },
+        { x: 100, y: 50 },
+      ])
+    ).toBe('M 0 0 L 0 42 Q 0 50 8 50 L 100 50')
+    expect(
+      getRoundedPath([
+        { x: 0, y: 0 },
+        { x: 0, y: 6 },
+        { x: 100, y: 6 },
+      ])
+    ).toBe('M 0 0 L 0 3 Q 0 6 3 6 L 100 6')
+    expect(getRoundedPath([{ x: 0, y: 0 }, { x: 0, y: 10 }])).toBe('M 0 0 L 0 10')
+  })
+
+  test('getRoutedPath follows ELK sections and is null without routing', () => {
+    expect(
+      getRoutedPath([
+        {
+          id: 's0',
+          startPoint: { x: 10, y: 0 },
+          bendPoints: [{ x: 10, y: 40 }, { x: 90, y: 40 }],
+          endPoint: { x: 90, y: 80 },
+        },
+      ])
+    ).toBe('M 10 0 L 10 32 Q 10 40 18 40 L 82 40 Q 90 40 90 48 L 90 80')
+    expect(getRoutedPath(undefined)).toBeNull()
+    expect(getRoutedPath([])).toBeNull()
+  })
+})
@@ -1,5 +1,5 @@
 import { expect, test, describe } from 'vitest'
-import { calculateOrgChartLayout } from '../utils/elkUtils'
+import { ELKNode, calculateOrgChartLayout } from '../utils/elkUtils'
 import { Employee } from '../../services/types'
 
 describe('calculateOrgChartLayout', () => {
@@ -32,6 +32,16 @@ describe('calculateOrgChartLayout', () => {
       expect(result).toBeNull()
     })
 
+    test('should return null when the request was superseded', async () => {
+      const employees = [
+        createEmployee('1', 'John', 'CEO', 'Executive', ''),
+      ]
+      const controller = new AbortController()
+      const pending = calculateOrgChartLayout(employees, employees, { signal: controller.signal })
+      controller.abort()
+      expect(await pending).toBeNull()
+    })
+
   });
 
   describe('Single Employee Cases', () => {
@@ -64,6 +74,23 @@ describe('calculateOrgChartLayout', () => {
       expect(result?.edges?.[0].sources).toContain('1')
       expect(result?.edges?.[0].targets).toContain('2')
     })
+
+    test('should route edges orthogonally with a shared trunk per manager', async () => {
+      const manager = createEmployee('1', 'Manager', 'Manager', 'Team', '')
+      const reports = ['2', '3', '4'].map(id => createEmployee(id, `Report ${id}`, 'Developer', 'Team', '1'))
+      const result = await calculateOrgChartLayout([manager, ...reports], [manager, ...reports])
+
+      const sections = result?.edges?.map(edge => edge.sections?.[0])
+      expect(sections).toHaveLength(3)
+      sections?.forEach(section => {
+        const points = [section!.startPoint, ...(section!.bendPoints || []), section!.endPoint]
+        points.slice(1).forEach((point, i) => {
+          expect(point.x === points[i].x || point.y === points[i].y).toBe(true)
+        })
+      })
+      const starts = new Set(sections?.map(section => `${section?.startPoint.x},${section?.startPoint.y}`))
+      expect(starts.size).toBe(1)
+    })
   })
 
   describe('Basic Hierarchy Cases', () => {
@@ -82,6 +109,15 @@ describe('calculateOrgChartLayout', () => {
       expect(result?.edges?.[0].targets).toContain('2')
     })
 
+    test('should leave dotted-line managers out of the layout', async () => {
+      const ceo = createEmployee('1', 'CEO', 'CEO', 'Executive', '')
+      const lead = createEmployee('2', 'Lead', 'Product Lead', 'Product', '1')
+      const engineer = { ...createEmployee('3', 'John', 'Developer', 'Team', '1'), secondaryManagerIds: ['2'] }
+      const result = await calculateOrgChartLayout([ceo, lead, engineer], [ceo, lead, engineer])
+
+      expect(result?.edges?.map(e => `${e.sources[0]}-${e.targets[0]}`)).toEqual(['1-2', '1-3'])
+    })
+
     test('should create correct layout for 3-level hierarchy', async () => {
       const ceo = createEmployee('1', 'CEO', 'CEO', 'Executive', '')
       const manager = createEmployee('2', 'Manager', 'Manager', 'Team', '1')
@@ -186,6 +222,39 @@ describe('calculateOrgChartLayout', () => {
       expect(result?.edges).toHaveLength(0)
     })
 
+    test('should not hang when managers form a cycle', async () => {
+      const emp1 = createEmployee('1', 'John', 'Manager', 'Team', '2')
+      const emp2 = createEmployee('2', 'Jane', 'Manager', 'Team', '1')
+      const result = await calculateOrgChartLayout([emp1, emp2], [emp1])
+
+      expect(result).not.toBeNull()
+      expect(result?.children).toHaveLength(2)
+      expect(result?.edges).toHaveLength(2)
+    })
+
+    test('should skip edges to managers that do not exist', async () => {
+      const employee = createEmployee('1', 'John', 'Developer', 'Team', 'missing')
+      const result = await calculateOrgChartLayout([employee], [employee])
+
+      expect(result).not.toBeNull()
+      expect(result?.children?.map(n => n.id)).toEqual(['1'])
+      expect(result?.edges).toHaveLength(0)
+    })
+
+    test('should lay out only the first record when ids repeat', async () => {
+      const ceo = createEmployee('1', 'CEO', 'CEO', 'Executive', '')
+      const first = createEmployee('2', 'John', 'Developer', 'Team', '1')
+      const duplicate = createEmployee('2', 'Johnny', 'Developer', 'Team', '1')
+      const result = await calculateOrgChartLayout(
+        [ceo, first, duplicate],
+        [ceo, first, duplicate]
+      )
+
+      expect(result).not.toBeNull()
+      expect(result?.children).toHaveLength(2)
+      expect(result?.edges).toHaveLength(1)
+    })
+
     test('should handle employee with empty managerId', async () => {
       const employee = createEmployee('1', 'John', 'CEO', 'Executive', '')
       const result = await calculateOrgChartLayout([employee], [employee])
@@ -269,6 +338,23 @@ describe('calculateOrgChartLayout', () => {
       expect(result?.edges?.[0].sources).toContain('1')
       expect(result?.edges?.[0].targets).toContain('2')
     })
+
+    test('should route edges orthogonally with a shared trunk per manager', async () => {
+      const manager = createEmployee('1', 'Manager', 'Manager', 'Team', '')
+      const reports = ['2', '3', '4'].map(id => createEmployee(id, `Report ${id}`, 'Developer', 'Team', '1'))
+      const result = await calculateOrgChartLayout([manager, ...reports], [manager, ...reports])
+
+      const sections = result?.edges?.map(edge => edge.sections?.[0])
+      expect(sections).toHaveLength(3)
+      sections?.forEach(section => {
+        const points = [section!.startPoint, ...(section!.bendPoints || []), section!.endPoint]
+        points.slice(1).forEach((point, i) => {
+          expect(point.x === points[i].x || point.y === points[i].y).toBe(true)
+        })
+      })
+      const starts = new Set(sections?.map(section => `${section?.startPoint.x},${section?.startPoint.y}`))
+      expect(starts.size).toBe(1)
+    })
   })
 
   describe('Complex Scenarios', () => {
@@ -393,4 +479,71 @@ describe('calculateOrgChartLayout', () => {
       expect(nodeIds).toContain('2') // Employee should be included
     })
   })
+
+  describe('Team Grouping', () => {
+    const employees = [
+      createEmployee('1', 'CEO', 'CEO', 'Executive', ''),
+      createEmployee('2', 'CTO', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Engineer', 'Engineer', 'Technology', '2'),
+      createEmployee('4', 'Sales Lead', 'Lead', 'Sales', '1'),
+      createEmployee('5', 'Rep', 'Rep', 'Sales', '4'),
+      createEmployee('6', 'Sales Engineer', 'Engineer', 'Technology', '4'),
+      createEmployee('7', 'Assistant', 'Assistant', '', '1'),
+    ]
+
+    const contains = (outer: ELKNode, inner: ELKNode) =>
+      inner.x! >= outer.x! &&
+      inner.y! >= outer.y! &&
+      inner.x! + inner.width <= outer.x! + outer.width &&
+      inner.y! + inner.height <= outer.y! + outer.height
+
+    test('should not group unless asked', async () => {
+      const result = await calculateOrgChartLayout(employees, employees)
+      expect(result?.groups).toBeUndefined()
+    })
+
+    test('should box each team around its members in chart coordinates', async () => {
+      const result = await calculateOrgChartLayout(employees, employees, { groupByTeam: true })
+      const nodesById = new Map(result?.children?.map(node => [node.id, node]))
+
+      expect(result?.children?.map(node => node.id).sort()).toEqual(['1', '2', '3', '4', '5', '6', '7'])
+      expect(result?.groups?.map(group => group.team).sort()).toEqual(['Executive', 'Sales', 'Technology'])
+      result?.groups?.forEach(group => {
+        expect(group.isCollapsed).toBe(false)
+        employees
+          .filter(emp => emp.team === group.team)
+          .forEach(emp => expect(contains(group, nodesById.get(emp.id)!)).toBe(true))
+      })
+
+      // Edges cross team boxes and end on the cards they connect
+      const edge = result?.edges?.find(e => e.id === 'edge-4-6')
+      const target = nodesById.get('6')!
+      expect(edge?.sections?.[0].endPoint.y).toBe(target.y)
+    })
+
+    test('should draw a collapsed team as one summary node', async () => {
+      const result = await calculateOrgChartLayout(employees, employees, {
+        groupByTeam: true,
+        collapsedTeams: ['Sales'],
+      })
+      const ids = result?.children?.map(node => node.id)
+
+      expect(ids).toContain('team:Sales')
+      expect(ids).not.toContain('4')
+      expect(ids).not.toContain('5')
+      expect(result?.groups?.find(group => group.team === 'Sales')).toMatchObject({
+        id: 'team:Sales',
+        isCollapsed: true,
+        width: 220,
+        height: 80,
+      })
+      expect(result?.edges?.map(edge => edge.id).sort()).toEqual([
+        'edge-1-2',
+        'edge-1-7',
+        'edge-1-team:Sales',
+        'edge-2-3',
+        'edge-team:Sales-6',
+      ])
+    })
+  })
 })
@@ -0,0 +1,98 @@
+import { expect, test, describe } from 'vitest'
+import { buildChartSvg, paginate } from '../utils/exportChart'
+import { Employee } from '../../services/types'
+import { ELKLayout } from '../utils/elkUtils'
+
+describe('chart export', () => {
+  const employees: Employee[] = [
+    { id: '1', name: 'John Doe', designation: 'CEO', team: 'Executive', managerId: '' },
+    { id: '2', name: 'Jane <Smith>', designation: 'CTO', team: 'R&D', managerId: '1' },
+    { id: '3', name: 'Hidden Person', designation: 'Engineer', team: 'R&D', managerId: '2' },
+  ]
+  const employeesById = new Map(employees.map((emp) => [emp.id, emp]))
+  const layout: ELKLayout = {
+    id: 'root',
+    width: 500,
+    height: 300,
+    children: [
+      { id: '1', x: 12, y: 12, width: 220, height: 80 },
+      { id: '2', x: 12, y: 172, width: 220, height: 80 },
+    ],
+    edges: [{ id: 'edge-1-2', sources: ['1'], targets: ['2'] }],
+  }
+
+  test('buildChartSvg draws a card per laid out node and nothing else', () => {
+    const svg = buildChartSvg(layout, employeesById, { width: 500, height: 300 })
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+
+    expect(doc.querySelector('parsererror')).toBeNull()
+    expect(doc.documentElement.getAttribute('viewBox')).toBe('0 0 500 300')
+    expect(doc.querySelectorAll('.employee-node')).toHaveLength(2)
+    expect(svg).toContain('Jane &lt;Smith&gt;')
+    expect(svg).toContain('R&amp;D')
+    expect(svg).not.toContain('Hidden Person')
+    expect(doc.querySelector('.connection-line')?.getAttribute('d')).toBe(
+      'M 122 92 L 122 132 L 122 132 L 122 172'
+    )
+  })
+
+  test('buildChartSvg adds arrowheads only when asked', () => {
+    expect(buildChartSvg(layout, employeesById, { width: 500, height: 300 })).not.toContain(
+      'marker-end'
+    )
+    expect(
+      buildChartSvg(layout, employeesById, { width: 500, height: 300 }, { showArrowheads: true })
+    ).toContain('marker-end="url(#connector-arrowhead)"')
+  })
+
+  test('buildChartSvg draws dotted lines only when asked', () => {
+    const withDottedLine = new Map(employeesById).set('1', { ...employees[0], secondaryManagerIds: ['2'] })
+    const size = { width: 500, height: 300 }
+    expect(buildChartSvg(layout, withDottedLine, size)).not.toContain('<path class="dotted-line"')
+    expect(buildChartSvg(layout, withDottedLine, size, { showDottedLines: true })).toContain(
+      '<path class="dotted-line" d="M 122 252 C 122 372 122 -108 122 12" />'
+    )
+  })
+
+  test('buildChartSvg draws team boxes and collapsed teams behind the cards', () => {
+    const grouped: ELKLayout = {
+      ...layout,
+      children: [...layout.children!, { id: 'team:R&D', x: 260, y: 12, width: 220, height: 80 }],
+      groups: [
+        { id: 'team:Executive', x: 0, y: 0, width: 244, height: 104, team: 'Executive', isCollapsed: false },
+        { id: 'team:R&D', x: 260, y: 12, width: 220, height: 80, team: 'R&D', isCollapsed: true },
+      ],
+    }
+    const svg = buildChartSvg(grouped, employeesById, { width: 500, height: 300 })
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+
+    expect(doc.querySelectorAll('.team-group-node')).toHaveLength(2)
+    expect(doc.querySelector('.team-group.collapsed')?.getAttribute('x')).toBe('260')
+    expect([...doc.querySelectorAll('.team-group-count')].map((text) => text.textContent)).toEqual([
+      '1 person',
+      '2 people',
+    ])
+    // Summary nodes have no employee, so no card is drawn for them
+    expect(doc.querySelectorAll('.employee-node')).toHaveLength(2)
+    expect(svg.indexOf('team-group-node')).toBeLessThan(svg.indexOf('employee-node'))
+  })
+
+  test('paginate fits small charts on one page', () => {
+    const { scale, tiles } = paginate({ width: 400, height: 200 })
+    expect(scale).toBe(1)
+    expect(tiles).toEqual([{ x: 0, y: 0, width: 400, height: 200 }])
+  })
+
+  test('paginate spreads large charts over pages at a readable scale', () => {
+    const { scale, tiles } = paginate(
+      { width: 4000, height: 1000 },
+      { width: 548, height: 448 },
+      24
+    )
+    expect(scale).toBe(0.5)
+    // 1000 x 800 layout pixels per page
+    expect(tiles).toHaveLength(8)
+    expect(tiles[3]).toEqual({ x: 3000, y: 0, width: 1000, height: 800 })
+    expect(tiles[7]).toEqual({ x: 3000, y: 800, width: 1000, height: 200 })
+  })
+})
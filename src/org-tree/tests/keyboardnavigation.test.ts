@@ -0,0 +1,82 @@
+import { expect, test, describe } from 'vitest'
+import { createChartTree, findNearestInDirection, getTreeMove } from '../utils/keyboardNavigation'
+import { ELKNode } from '../utils/elkUtils'
+import { createEmployee } from '../../services/tests/fixtures'
+
+const node = (id: string, x: number, y: number): ELKNode => ({ id, x, y, width: 220, height: 80 })
+
+describe('getTreeMove', () => {
+  test('follows the layout direction', () => {
+    expect(getTreeMove('ArrowUp', 'DOWN')).toBe('manager')
+    expect(getTreeMove('ArrowDown', 'DOWN')).toBe('report')
+    expect(getTreeMove('ArrowRight', 'DOWN')).toBe('next')
+    expect(getTreeMove('ArrowLeft', 'RIGHT')).toBe('manager')
+    expect(getTreeMove('ArrowUp', 'RIGHT')).toBe('previous')
+    expect(getTreeMove('ArrowUp', 'UP')).toBe('report')
+    expect(getTreeMove('ArrowLeft', 'LEFT')).toBe('report')
+    expect(getTreeMove('Enter', 'DOWN')).toBeNull()
+  })
+})
+
+describe('createChartTree', () => {
+  const employees = [
+    createEmployee('1'),
+    createEmployee('2', '1'),
+    createEmployee('3', '1'),
+    createEmployee('4', '3'),
+    createEmployee('5', '9'),
+  ]
+  const employeesById = new Map(employees.map((emp) => [emp.id, emp]))
+  // Report 3 is drawn left of report 2, so it comes first among the siblings
+  const nodes = [node('1', 300, 0), node('2', 500, 150), node('3', 100, 150), node('4', 100, 300), node('5', 800, 0)]
+
+  test('moves between managers, reports and siblings in drawing order', () => {
+    const tree = createChartTree(nodes, employeesById, 'DOWN')
+    expect(tree.neighbor('1', 'report')).toBe('3')
+    expect(tree.neighbor('3', 'next')).toBe('2')
+    expect(tree.neighbor('2', 'next')).toBeNull()
+    expect(tree.neighbor('4', 'manager')).toBe('3')
+    expect(tree.neighbor('1', 'manager')).toBeNull()
+    // Someone whose manager is not laid out sits at the top level
+    expect(tree.neighbor('1', 'next')).toBe('5')
+    expect(tree.firstRoot).toBe('1')
+  })
+
+  test('reports levels and positions among siblings', () => {
+    const tree = createChartTree(nodes, employeesById, 'DOWN')
+    expect(tree.position('1')).toEqual({ level: 1, position: 1, setSize: 2 })
+    expect(tree.position('2')).toEqual({ level: 2, position: 2, setSize: 2 })
+    expect(tree.position('4')).toEqual({ level: 3, position: 1, setSize: 1 })
+  })
+
+  test('orders siblings top to bottom in sideways layouts and skips summary nodes', () => {
+    const sideways = [node('1', 0, 300), node('2', 300, 100), node('3', 300, 500), node('team:Team', 600, 0)]
+    const tree = createChartTree(sideways, employeesById, 'RIGHT')
+    expect(tree.neighbor('1', 'report')).toBe('2')
+    expect(tree.neighbor('2', 'next')).toBe('3')
+    expect(tree.neighbor('1', 'next')).toBeNull()
+  })
+
+  test('terminates when managers form a cycle', () => {
+    const cyclic = new Map([
+      ['1', createEmployee('1', '2')],
+      ['2', createEmployee('2', '1')],
+    ])
+    const tree = createChartTree([node('1', 0, 0), node('2', 0, 200)], cyclic, 'DOWN')
+    expect(tree.position('1').level).toBe(2)
+  })
+})
+
+describe('findNearestInDirection', () => {
+  const rect = (id: string, left: number, top: number) => ({ id, left, top, width: 100, height: 50 })
+  const from = rect('from', 200, 200)
+  const candidates = [rect('above', 200, 0), rect('below', 220, 300), rect('below-far', 200, 600), rect('right', 500, 210)]
+
+  test('picks the nearest rect most in line with the arrow', () => {
+    expect(findNearestInDirection(from, candidates, 'ArrowDown')?.id).toBe('below')
+    expect(findNearestInDirection(from, candidates, 'ArrowUp')?.id).toBe('above')
+    expect(findNearestInDirection(from, candidates, 'ArrowRight')?.id).toBe('right')
+    expect(findNearestInDirection(from, candidates, 'ArrowLeft')).toBeNull()
+    expect(findNearestInDirection(from, candidates, 'KeyA')).toBeNull()
+  })
+})
@@ -1,5 +1,5 @@
 import { expect, test, describe, vi, beforeEach, afterEach } from 'vitest'
-import { render, screen, waitFor } from '@testing-library/react'
+import { act, fireEvent, render, screen, waitFor, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import React from 'react'
 import OrgTree from '../OrgTree'
@@ -7,12 +7,22 @@ import { Employee } from '../../services/types'
 import axios from 'axios'
 import { notification } from 'antd'
 import * as elkUtils from '../utils/elkUtils'
+import { EmployeeServiceContext } from '../hooks/useEmployeeService'
+import { createInMemoryEmployeeService } from '../../services/inMemoryEmployeeService'
+import { ChangeFeedContext } from '../hooks/useChangeFeed'
+import { ChangeFeed, EmployeeChange } from '../../services/changeFeed'
+import { OfflineStoreContext } from '../hooks/useOfflineStore'
+import { OfflineStore, createMemoryOfflineStore } from '../../services/offlineStore'
+
+type SelectOption = { value?: string; label: string; disabled?: boolean; options?: SelectOption[] }
 
 // Mock dependencies
 vi.mock('axios', () => ({
   default: {
     get: vi.fn(),
     patch: vi.fn(),
+    post: vi.fn(),
+    delete: vi.fn(),
   },
 }))
 
@@ -24,8 +34,12 @@ vi.mock('antd', async () => {
       error: vi.fn(),
       info: vi.fn(),
     },
-    Select: ({ value, onChange, options, className }: { value: string; onChange: (value: string) => void; options: { value: string; label: string }[]; className: string }) =>
-      React.createElement(
+    Select: ({ value, onChange, options, className }: { value: string; onChange: (value: string) => void; options: SelectOption[]; className: string }) => {
+      const renderOption = (opt: SelectOption): React.ReactNode =>
+        opt.options
+          ? React.createElement('optgroup', { key: opt.label, label: opt.label }, opt.options.map(renderOption))
+          : React.createElement('option', { key: opt.value, value: opt.value, disabled: opt.disabled }, opt.label)
+      return React.createElement(
         'select',
         {
           'data-testid': 'team-filter',
@@ -34,10 +48,9 @@ vi.mock('antd', async () => {
           onChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
             onChange(e.target.value),
         },
-        options.map((opt: { value: string; label: string }) =>
-          React.createElement('option', { key: opt.value, value: opt.value }, opt.label)
-        )
-      ),
+        options.map(renderOption)
+      )
+    },
     Skeleton: {
       Node: ({ style, className }: { style: React.CSSProperties; className: string }) =>
         React.createElement('div', {
@@ -49,7 +62,8 @@ vi.mock('antd', async () => {
   }
 })
 
-vi.mock('../utils/elkUtils', () => ({
+vi.mock('../utils/elkUtils', async () => ({
+  ...(await vi.importActual('../utils/elkUtils')),
   calculateOrgChartLayout: vi.fn(),
 }))
 
@@ -90,16 +104,21 @@ const createMockLayout = (employees: Employee[]) => ({
 describe('OrgTree Component', () => {
   const mockAxiosGet = vi.mocked(axios.get)
   const mockAxiosPatch = vi.mocked(axios.patch)
+  const mockAxiosPost = vi.mocked(axios.post)
+  const mockAxiosDelete = vi.mocked(axios.delete)
   const mockCalculateLayout = vi.mocked(elkUtils.calculateOrgChartLayout)
 
   beforeEach(() => {
     vi.clearAllMocks()
+    localStorage.clear()
     // Default mock for axios.get
     mockAxiosGet.mockResolvedValue({
       data: { employees: [] },
     } as { data: { employees: Employee[] } })
     // Default mock for axios.patch
     mockAxiosPatch.mockResolvedValue({ data: {} } as unknown)
+    mockAxiosPost.mockResolvedValue({ data: {} } as unknown)
+    mockAxiosDelete.mockResolvedValue({ data: {} } as unknown)
     // Default mock for layout calculation
     mockCalculateLayout.mockResolvedValue(null)
   })
@@ -122,7 +141,7 @@ describe('OrgTree Component', () => {
     test('renders search input with correct placeholder', () => {
       render(<OrgTree />)
       const searchInput = screen.getByPlaceholderText(
-        'Search by name, designation, or team...'
+        'Search by name, designation, or any field...'
       )
       expect(searchInput).toBeInTheDocument()
     })
@@ -132,6 +151,12 @@ describe('OrgTree Component', () => {
       expect(screen.getByTestId('team-filter')).toBeInTheDocument()
     })
 
+    test('renders undo and redo buttons disabled before any move', () => {
+      render(<OrgTree />)
+      expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled()
+      expect(screen.getByRole('button', { name: 'Redo' })).toBeDisabled()
+    })
+
     test('renders chart container', () => {
       render(<OrgTree />)
       const chartContainer = document.querySelector('.chart-container')
@@ -202,6 +227,20 @@ describe('OrgTree Component', () => {
       })
     })
 
+    test('reads employees from the service provided through context', async () => {
+      const service = createInMemoryEmployeeService([
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      ])
+
+      render(
+        <EmployeeServiceContext.Provider value={service}>
+          <OrgTree />
+        </EmployeeServiceContext.Provider>
+      )
+      expect(await screen.findByText('John Doe')).toBeInTheDocument()
+      expect(mockAxiosGet).not.toHaveBeenCalled()
+    })
+
     test('shows error notification on fetch failure', async () => {
       mockAxiosGet.mockRejectedValue(new Error('Network error'))
 
@@ -279,7 +318,7 @@ describe('OrgTree Component', () => {
       await waitFor(() => {
         const teamFilter = screen.getByTestId('team-filter')
         const options = teamFilter.querySelectorAll('option')
-        expect(options.length).toBe(1) // Only "All Teams" option
+        expect(options.length).toBe(1) // Only "All employees" option
       })
     })
   })
@@ -312,7 +351,7 @@ describe('OrgTree Component', () => {
 
       render(<OrgTree />)
       const searchInput = screen.getByPlaceholderText(
-        'Search by name, designation, or team...'
+        'Search by name, designation, or any field...'
       ) as HTMLInputElement
 
       await waitFor(() => {
@@ -337,7 +376,7 @@ describe('OrgTree Component', () => {
 
       render(<OrgTree />)
       const searchInput = screen.getByPlaceholderText(
-        'Search by name, designation, or team...'
+        'Search by name, designation, or any field...'
       ) as HTMLInputElement
 
       await waitFor(() => {
@@ -362,7 +401,7 @@ describe('OrgTree Component', () => {
 
       render(<OrgTree />)
       const searchInput = screen.getByPlaceholderText(
-        'Search by name, designation, or team...'
+        'Search by name, designation, or any field...'
       ) as HTMLInputElement
 
       await waitFor(() => {
@@ -413,7 +452,7 @@ describe('OrgTree Component', () => {
 
       render(<OrgTree />)
       const searchInput = screen.getByPlaceholderText(
-        'Search by name, designation, or team...'
+        'Search by name, designation, or any field...'
       ) as HTMLInputElement
       const teamFilter = screen.getByTestId('team-filter') as HTMLSelectElement
 
@@ -440,7 +479,7 @@ describe('OrgTree Component', () => {
 
       render(<OrgTree />)
       const searchInput = screen.getByPlaceholderText(
-        'Search by name, designation, or team...'
+        'Search by name, designation, or any field...'
       ) as HTMLInputElement
 
       await waitFor(() => {
@@ -452,6 +491,39 @@ describe('OrgTree Component', () => {
         expect(screen.queryByText('John Doe')).not.toBeInTheDocument()
       })
     })
+
+    test('searches and filters by built-in and custom fields', async () => {
+      const service = createInMemoryEmployeeService(
+        [
+          { ...createEmployee('1', 'John Doe', 'CEO', 'Executive', ''), location: 'London', customFields: { remote: false } },
+          { ...createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'), location: 'Berlin', customFields: { remote: true } },
+          { ...createEmployee('3', 'Bob Wilson', 'CFO', 'Finance', '1'), location: 'London', customFields: { remote: true } },
+        ],
+        [{ key: 'remote', label: 'Remote', type: 'boolean', required: false }]
+      )
+
+      render(
+        <EmployeeServiceContext.Provider value={service}>
+          <OrgTree />
+        </EmployeeServiceContext.Provider>
+      )
+      const searchInput = screen.getByPlaceholderText('Search by name, designation, or any field...')
+      const filter = screen.getByTestId('team-filter') as HTMLSelectElement
+      await screen.findByText('John Doe')
+
+      await userEvent.type(searchInput, 'berlin')
+      expect(screen.queryByText('John Doe')).not.toBeInTheDocument()
+      expect(screen.getByText('Jane Smith')).toBeInTheDocument()
+
+      await userEvent.clear(searchInput)
+      await waitFor(() => {
+        expect(within(filter).getByRole('group', { name: 'Remote' })).toBeInTheDocument()
+      })
+      await userEvent.selectOptions(filter, within(within(filter).getByRole('group', { name: 'Remote' })).getByText('Yes'))
+      expect(screen.queryByText('John Doe')).not.toBeInTheDocument()
+      expect(screen.getByText('Jane Smith')).toBeInTheDocument()
+      expect(screen.getByText('Bob Wilson')).toBeInTheDocument()
+    })
   })
 
   describe('Layout Calculation Effect', () => {
@@ -486,7 +558,8 @@ describe('OrgTree Component', () => {
       await waitFor(() => {
         expect(mockCalculateLayout).toHaveBeenCalledWith(
           mockEmployees,
-          expect.arrayContaining(mockEmployees)
+          expect.arrayContaining(mockEmployees),
+          expect.objectContaining({ signal: expect.any(AbortSignal) })
         )
       })
     })
@@ -570,7 +643,7 @@ describe('OrgTree Component', () => {
     test('renders search input with correct value binding', async () => {
       render(<OrgTree />)
       const searchInput = screen.getByPlaceholderText(
-        'Search by name, designation, or team...'
+        'Search by name, designation, or any field...'
       ) as HTMLInputElement
 
       await userEvent.type(searchInput, 'test')
@@ -620,6 +693,40 @@ describe('OrgTree Component', () => {
         ).toBe(true);
       })
     })
+
+    test('only mounts the rows scrolled into view once the list is measured', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'Employee 1', 'CEO', 'Executive', ''),
+        ...Array.from({ length: 49 }, (_, index) =>
+          createEmployee(`${index + 2}`, `Employee ${index + 2}`, 'Engineer', 'Technology', '1')
+        ),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      const clientHeight = vi
+        .spyOn(HTMLElement.prototype, 'clientHeight', 'get')
+        .mockImplementation(function (this: HTMLElement) {
+          return this.classList.contains('employee-list') ? 560 : 0
+        })
+
+      render(<OrgTree />)
+      const list = await waitFor(() => {
+        const element = document.querySelector('.employee-list') as HTMLElement
+        expect(element.querySelectorAll('.employee-list-item')).toHaveLength(10)
+        return element
+      })
+      expect(within(list).getByText('Employee 1')).toBeInTheDocument()
+      expect(within(list).queryByText('Employee 50')).not.toBeInTheDocument()
+
+      list.scrollTop = 112 * 45
+      fireEvent.scroll(list)
+      expect(within(list).getByText('Employee 50')).toBeInTheDocument()
+      expect(within(list).queryByText('Employee 1')).not.toBeInTheDocument()
+      expect(list.querySelectorAll('.employee-list-item')).toHaveLength(10)
+
+      clientHeight.mockRestore()
+    })
   })
 
   describe('Chart Container Rendering', () => {
@@ -807,6 +914,975 @@ describe('OrgTree Component', () => {
     })
   })
 
+  describe('Employee CRUD', () => {
+    test('adds a direct report through POST /api/employees', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+      mockAxiosPost.mockResolvedValue({
+        data: { employee: createEmployee('2', 'New Hire', 'Engineer', 'Executive', '1') },
+      } as unknown)
+
+      render(<OrgTree />)
+      await userEvent.click(await screen.findByLabelText('Add direct report to John Doe'))
+      await userEvent.type(screen.getByRole('textbox', { name: 'Name' }), 'New Hire')
+      await userEvent.type(screen.getByRole('textbox', { name: 'Designation' }), 'Engineer')
+      await userEvent.click(screen.getByRole('button', { name: 'Add' }))
+
+      await waitFor(() => {
+        expect(mockAxiosPost).toHaveBeenCalledWith('/api/employees', {
+          name: 'New Hire',
+          designation: 'Engineer',
+          team: 'Executive',
+          managerId: '1',
+        })
+        expect(screen.getByTestId('employee-node-2')).toBeInTheDocument()
+      })
+    })
+
+    test('removes an employee and moves their reports to the chosen manager', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+        createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+        createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '2'),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+
+      render(<OrgTree />)
+      await userEvent.click(await screen.findByLabelText('Remove Jane Smith'))
+      await userEvent.click(screen.getByRole('button', { name: 'Remove' }))
+
+      await waitFor(() => {
+        expect(mockAxiosDelete).toHaveBeenCalledWith('/api/employees/2', {
+          params: { reassignTo: '1' },
+        })
+        expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+      })
+      const lastCall = mockCalculateLayout.mock.calls[mockCalculateLayout.mock.calls.length - 1]
+      expect(lastCall[0]).toContainEqual(
+        createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '1')
+      )
+    })
+
+    test('shows error notification when creating an employee fails', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+      mockAxiosPost.mockRejectedValue(new Error('Network error'))
+
+      render(<OrgTree />)
+      await userEvent.click(await screen.findByLabelText('Add direct report to John Doe'))
+      await userEvent.type(screen.getByRole('textbox', { name: 'Name' }), 'New Hire')
+      await userEvent.type(screen.getByRole('textbox', { name: 'Designation' }), 'Engineer')
+      await userEvent.click(screen.getByRole('button', { name: 'Add' }))
+
+      await waitFor(() => {
+        expect(notification.error).toHaveBeenCalledWith(
+          expect.objectContaining({ title: 'Error adding employee' })
+        )
+      })
+    })
+  })
+
+  describe('Multi-select', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Bob Wilson', 'CFO', 'Finance', '1'),
+    ]
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockResolvedValue(
+        createMockLayout(mockEmployees) as elkUtils.ELKLayout
+      )
+    })
+
+    test('ctrl/shift-click adds nodes to the selection', async () => {
+      render(<OrgTree />)
+      const jane = await screen.findByTestId('employee-node-2')
+      const bob = screen.getByTestId('employee-node-3')
+
+      fireEvent.click(jane)
+      fireEvent.click(bob, { ctrlKey: true })
+      expect(jane).toHaveClass('selected')
+      expect(bob).toHaveClass('selected')
+
+      fireEvent.click(jane, { shiftKey: true })
+      expect(jane).not.toHaveClass('selected')
+      expect(bob).toHaveClass('selected')
+    })
+
+    test('plain click replaces the selection and is mirrored in the sidebar', async () => {
+      render(<OrgTree />)
+      const jane = await screen.findByTestId('employee-node-2')
+      const bob = screen.getByTestId('employee-node-3')
+
+      fireEvent.click(jane)
+      fireEvent.click(bob)
+      expect(jane).not.toHaveClass('selected')
+      expect(bob).toHaveClass('selected')
+
+      const sidebarItems = document.querySelectorAll('.employee-list-item')
+      expect(sidebarItems[2]).toHaveClass('selected')
+
+      fireEvent.click(sidebarItems[0], { metaKey: true })
+      expect(screen.getByTestId('employee-node-1')).toHaveClass('selected')
+      expect(bob).toHaveClass('selected')
+    })
+
+    test('Escape clears the selection', async () => {
+      render(<OrgTree />)
+      const jane = await screen.findByTestId('employee-node-2')
+
+      fireEvent.click(jane)
+      fireEvent.keyDown(window, { key: 'Escape' })
+      expect(jane).not.toHaveClass('selected')
+    })
+  })
+
+  describe('Pan and Zoom', () => {
+    test('zoom buttons scale the chart stage and update the zoom level', async () => {
+      const mockEmployees = [createEmployee('1', 'John Doe', 'CEO', 'Executive', '')]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockResolvedValue(
+        createMockLayout(mockEmployees) as elkUtils.ELKLayout
+      )
+
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-1')
+      const stage = document.querySelector('.chart-stage') as HTMLElement
+      expect(stage.style.transform).toContain('scale(1)')
+
+      await userEvent.click(screen.getByRole('button', { name: 'Zoom in' }))
+      expect(stage.style.transform).toContain('scale(1.2)')
+      expect(screen.getByRole('button', { name: 'Reset zoom' })).toHaveTextContent('120%')
+
+      await userEvent.click(screen.getByRole('button', { name: 'Reset zoom' }))
+      expect(stage.style.transform).toContain('scale(1)')
+    })
+
+    test('renders a minimap with a rectangle per node', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+        createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockResolvedValue(
+        createMockLayout(mockEmployees) as elkUtils.ELKLayout
+      )
+
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-1')
+      expect(document.querySelectorAll('.chart-minimap .minimap-node')).toHaveLength(2)
+    })
+
+    test('zoom to selection is only enabled with a selection', async () => {
+      const mockEmployees = [createEmployee('1', 'John Doe', 'CEO', 'Executive', '')]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockResolvedValue(
+        createMockLayout(mockEmployees) as elkUtils.ELKLayout
+      )
+
+      render(<OrgTree />)
+      const zoomToSelection = screen.getByRole('button', { name: 'Zoom to selection' })
+      expect(zoomToSelection).toBeDisabled()
+
+      fireEvent.click(await screen.findByTestId('employee-node-1'))
+      expect(zoomToSelection).toBeEnabled()
+    })
+  })
+
+  describe('Layout Settings', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+    ]
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockResolvedValue(
+        createMockLayout(mockEmployees) as elkUtils.ELKLayout
+      )
+    })
+
+    test('changing the direction re-runs the layout, redraws connectors and persists', async () => {
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-1')
+
+      await userEvent.click(screen.getByRole('button', { name: 'Layout' }))
+      fireEvent.click(await screen.findByRole('radio', { name: 'Left to right' }))
+
+      await waitFor(() => {
+        expect(mockCalculateLayout).toHaveBeenLastCalledWith(
+          mockEmployees,
+          expect.arrayContaining(mockEmployees),
+          expect.objectContaining({ direction: 'RIGHT', algorithm: 'layered' })
+        )
+      })
+      await waitFor(() => {
+        expect(document.querySelector('.connection-line')).toHaveAttribute(
+          'd',
+          'M 220 40 L 235 40 L 235 140 L 250 140'
+        )
+      })
+      expect(screen.getByTestId('employee-node-2')).toHaveClass('flow-right')
+      expect(JSON.parse(localStorage.getItem('org-tree:layout') || '{}')).toMatchObject({
+        direction: 'RIGHT',
+      })
+    })
+
+    test('draws connectors from ELK routing and can add arrowheads', async () => {
+      const layout = createMockLayout(mockEmployees)
+      mockCalculateLayout.mockResolvedValue({
+        ...layout,
+        edges: layout.edges.map((edge) => ({
+          ...edge,
+          sections: [
+            {
+              id: `${edge.id}_s0`,
+              startPoint: { x: 110, y: 80 },
+              bendPoints: [{ x: 110, y: 90 }, { x: 360, y: 90 }],
+              endPoint: { x: 360, y: 100 },
+            },
+          ],
+        })),
+      } as elkUtils.ELKLayout)
+
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-1')
+      const line = document.querySelector('.connection-line')
+      expect(line).toHaveAttribute(
+        'd',
+        'M 110 80 L 110 85 Q 110 90 115 90 L 355 90 Q 360 90 360 95 L 360 100'
+      )
+      expect(line).not.toHaveAttribute('marker-end')
+
+      await userEvent.click(screen.getByRole('button', { name: 'Layout' }))
+      await userEvent.click(screen.getByRole('checkbox', { name: 'Arrowheads' }))
+      expect(line).toHaveAttribute('marker-end', 'url(#connector-arrowhead)')
+      expect(document.getElementById('connector-arrowhead')).toBeInTheDocument()
+    })
+
+    test('groups cards into team boxes and collapses a team to a summary node', async () => {
+      mockCalculateLayout.mockImplementation(async (employees, _filtered, options) => {
+        const layout = createMockLayout(employees)
+        if (!options?.groupByTeam) return layout as elkUtils.ELKLayout
+        const isCollapsed = options.collapsedTeams?.includes('Technology') ?? false
+        return {
+          ...layout,
+          children: isCollapsed
+            ? [layout.children[0], { id: 'team:Technology', x: 250, y: 100, width: 220, height: 80 }]
+            : layout.children,
+          edges: isCollapsed
+            ? [{ id: 'edge-1-team:Technology', sources: ['1'], targets: ['team:Technology'] }]
+            : layout.edges,
+          groups: [
+            { id: 'team:Executive', x: -20, y: -56, width: 260, height: 156, team: 'Executive', isCollapsed: false },
+            isCollapsed
+              ? { id: 'team:Technology', x: 250, y: 100, width: 220, height: 80, team: 'Technology', isCollapsed: true }
+              : { id: 'team:Technology', x: 230, y: 44, width: 260, height: 156, team: 'Technology', isCollapsed: false },
+          ],
+        } as elkUtils.ELKLayout
+      })
+
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-1')
+      expect(screen.queryByTestId('team-group-Technology')).not.toBeInTheDocument()
+
+      await userEvent.click(screen.getByRole('button', { name: 'Layout' }))
+      await userEvent.click(screen.getByRole('checkbox', { name: 'Group by team' }))
+      const group = await screen.findByTestId('team-group-Technology')
+      expect(group).toHaveTextContent('1 person')
+      expect(JSON.parse(localStorage.getItem('org-tree:layout') || '{}')).toMatchObject({ groupByTeam: true })
+
+      await userEvent.click(screen.getByRole('button', { name: 'Collapse team Technology' }))
+      await waitFor(() => {
+        expect(mockCalculateLayout).toHaveBeenLastCalledWith(
+          mockEmployees,
+          expect.arrayContaining(mockEmployees),
+          expect.objectContaining({ groupByTeam: true, collapsedTeams: ['Technology'] })
+        )
+        expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+      })
+      expect(screen.getByTestId('team-group-Technology')).toHaveClass('collapsed')
+      // Edges into a collapsed team end on its summary node
+      expect(document.querySelectorAll('.connection-line')).toHaveLength(1)
+      expect(JSON.parse(localStorage.getItem('org-tree:collapsed-teams') || '[]')).toEqual(['Technology'])
+    })
+
+    test('restores saved settings on load', async () => {
+      localStorage.setItem(
+        'org-tree:layout',
+        JSON.stringify({ direction: 'UP', algorithm: 'mrtree' })
+      )
+
+      render(<OrgTree />)
+      await waitFor(() => {
+        expect(mockCalculateLayout).toHaveBeenCalledWith(
+          mockEmployees,
+          expect.arrayContaining(mockEmployees),
+          expect.objectContaining({ direction: 'UP', algorithm: 'mrtree', spacing: '50' })
+        )
+      })
+    })
+  })
+
+  describe('Employee Import', () => {
+    const mockEmployees = [createEmployee('1', 'John Doe', 'CEO', 'Executive', '')]
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (all) =>
+        createMockLayout(all) as elkUtils.ELKLayout
+      )
+    })
+
+    const openImport = async (contents: string) => {
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-1')
+      await userEvent.click(screen.getByRole('button', { name: 'Import' }))
+      const dialog = await screen.findByRole('dialog')
+      await userEvent.upload(
+        within(dialog).getByLabelText('CSV or JSON file'),
+        new File([contents], 'org.csv', { type: 'text/csv' })
+      )
+      return dialog
+    }
+
+    test('previews problems and blocks the import until they are fixed', async () => {
+      const dialog = await openImport('Employee ID,Name,Title,Team,Manager\n2,,CTO,Tech,1\n3,Bob,Dev,Tech,42\n')
+
+      const problems = await within(dialog).findByRole('region', { name: 'Import problems' })
+      expect(problems).toHaveTextContent('Row 1 has no name')
+      expect(problems).toHaveTextContent('Row 2 reports to 42')
+      expect(within(dialog).getByRole('button', { name: 'Import 2' })).toBeDisabled()
+    })
+
+    test('commits through the import endpoint and re-lays out the chart', async () => {
+      const imported = createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1')
+      mockAxiosPost.mockResolvedValue({
+        data: { employees: [...mockEmployees, imported] },
+      } as unknown)
+
+      const dialog = await openImport('id,name,designation,team,managerId\n2,Jane Smith,CTO,Technology,1\n')
+      expect(await within(dialog).findByText('No problems found.')).toBeInTheDocument()
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Import 1' }))
+
+      expect(mockAxiosPost).toHaveBeenCalledWith('/api/employees/import', {
+        employees: [imported],
+      })
+      expect(await screen.findByTestId('employee-node-2')).toBeInTheDocument()
+      expect(mockCalculateLayout).toHaveBeenLastCalledWith(
+        [...mockEmployees, imported],
+        expect.anything(),
+        expect.anything()
+      )
+    })
+  })
+
+  describe('Chart Export', () => {
+    const originalCreateObjectURL = URL.createObjectURL
+    const originalRevokeObjectURL = URL.revokeObjectURL
+
+    afterEach(() => {
+      URL.createObjectURL = originalCreateObjectURL
+      URL.revokeObjectURL = originalRevokeObjectURL
+    })
+
+    test('exports the filtered chart as a standalone SVG', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+        createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+        createEmployee('3', 'Alice Lopez', 'CFO', 'Finance', '1'),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (_all, filtered) =>
+        createMockLayout(filtered) as elkUtils.ELKLayout
+      )
+      const createObjectURL = vi.fn((blob: Blob) => {
+        void blob
+        return 'blob:chart'
+      })
+      URL.createObjectURL = createObjectURL
+      URL.revokeObjectURL = vi.fn()
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-3')
+      fireEvent.change(screen.getByPlaceholderText('Search by name, designation, or any field...'), {
+        target: { value: 'Alice' },
+      })
+      await waitFor(() => {
+        expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+      })
+
+      await userEvent.click(screen.getByRole('button', { name: 'Export' }))
+      const dialog = await screen.findByRole('dialog')
+      expect(dialog).toHaveTextContent('Exports the 1 card currently shown')
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Export' }))
+
+      await waitFor(() => expect(click).toHaveBeenCalled())
+      // jsdom's Blob has no text()
+      const svg = await new Promise<string>((resolve) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.readAsText(createObjectURL.mock.calls[0][0])
+      })
+      expect(svg).toContain('Alice Lopez')
+      expect(svg).not.toContain('Jane Smith')
+      expect(svg).not.toContain('<div')
+      click.mockRestore()
+    })
+
+    test('exports employee data limited to the current filter', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+        createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (all) =>
+        createMockLayout(all) as elkUtils.ELKLayout
+      )
+      const createObjectURL = vi.fn((blob: Blob) => {
+        void blob
+        return 'blob:data'
+      })
+      URL.createObjectURL = createObjectURL
+      URL.revokeObjectURL = vi.fn()
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-2')
+      fireEvent.change(screen.getByPlaceholderText('Search by name, designation, or any field...'), {
+        target: { value: 'Jane' },
+      })
+
+      await userEvent.click(screen.getByRole('button', { name: 'Export' }))
+      const dialog = await screen.findByRole('dialog')
+      fireEvent.click(within(dialog).getByRole('radio', { name: 'CSV' }))
+      await userEvent.click(within(dialog).getByRole('checkbox', { name: /1 of 2/ }))
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Export' }))
+
+      await waitFor(() => expect(click).toHaveBeenCalled())
+      const csv = await new Promise<string>((resolve) => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(reader.result as string)
+        reader.readAsText(createObjectURL.mock.calls[0][0])
+      })
+      expect(csv).toBe('id,name,designation,team,managerId\n2,Jane Smith,CTO,Technology,1\n')
+      click.mockRestore()
+    })
+  })
+
+  describe('Collapsible Subtrees', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '2'),
+      createEmployee('4', 'Alice Lopez', 'CFO', 'Finance', '1'),
+    ]
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    test('shows direct and total report counts on managers only', async () => {
+      render(<OrgTree />)
+      const toggle = await screen.findByLabelText('Collapse reports of John Doe')
+      expect(toggle).toHaveTextContent('2/3')
+      expect(screen.getByLabelText('Collapse reports of Jane Smith')).toHaveTextContent('1/1')
+      expect(screen.queryByLabelText('Collapse reports of Bob Wilson')).not.toBeInTheDocument()
+    })
+
+    test('collapsing a manager leaves their subtree out of the layout', async () => {
+      render(<OrgTree />)
+      await userEvent.click(await screen.findByLabelText('Collapse reports of Jane Smith'))
+
+      await waitFor(() => {
+        expect(screen.queryByTestId('employee-node-3')).not.toBeInTheDocument()
+      })
+      const lastCall = mockCalculateLayout.mock.calls[mockCalculateLayout.mock.calls.length - 1]
+      expect(lastCall[0].map((e) => e.id)).toEqual(['1', '2', '4'])
+      expect(screen.getByLabelText('Expand reports of Jane Smith')).toHaveAttribute('aria-expanded', 'false')
+    })
+
+    test('keeps collapsed subtrees across reloads', async () => {
+      const { unmount } = render(<OrgTree />)
+      await userEvent.click(await screen.findByLabelText('Collapse reports of Jane Smith'))
+      unmount()
+
+      render(<OrgTree />)
+      expect(await screen.findByLabelText('Expand reports of Jane Smith')).toBeInTheDocument()
+      expect(screen.queryByTestId('employee-node-3')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Live Changes', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '2'),
+    ]
+    let emit: (changes: EmployeeChange[]) => void
+    const feed: ChangeFeed = {
+      subscribe: (listener) => {
+        emit = listener
+        return () => {}
+      },
+    }
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    const renderWithFeed = () =>
+      render(
+        <ChangeFeedContext.Provider value={feed}>
+          <OrgTree />
+        </ChangeFeedContext.Provider>
+      )
+
+    test('merges remote changes, highlights them and keeps the selection', async () => {
+      renderWithFeed()
+      fireEvent.click(await screen.findByTestId('employee-node-2'))
+
+      act(() => {
+        emit([
+          { type: 'updated', employee: createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '1') },
+          { type: 'created', employee: createEmployee('4', 'New Hire', 'Analyst', 'Finance', '1') },
+        ])
+      })
+
+      expect(await screen.findByTestId('employee-node-4')).toHaveClass('remote-change')
+      expect(screen.getByTestId('employee-node-3')).toHaveClass('remote-change')
+      expect(screen.getByTestId('employee-node-2')).toHaveClass('selected')
+      expect(screen.getByTestId('employee-node-2')).not.toHaveClass('remote-change')
+      await waitFor(() => {
+        const lastCall = mockCalculateLayout.mock.calls[mockCalculateLayout.mock.calls.length - 1]
+        expect(lastCall[0].find((emp: Employee) => emp.id === '3')?.managerId).toBe('1')
+      })
+    })
+
+    test('ignores echoes of the current data and drops deleted employees from the selection', async () => {
+      renderWithFeed()
+      const jane = await screen.findByTestId('employee-node-2')
+      fireEvent.click(jane)
+      expect(document.querySelectorAll('.employee-list-item.selected')).toHaveLength(1)
+
+      act(() => {
+        emit([{ type: 'updated', employee: mockEmployees[2] }])
+      })
+      expect(screen.getByTestId('employee-node-3')).not.toHaveClass('remote-change')
+
+      act(() => {
+        emit([
+          { type: 'updated', employee: createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '1') },
+          { type: 'deleted', id: '2' },
+        ])
+      })
+      await waitFor(() => {
+        expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+      })
+      expect(document.querySelectorAll('.employee-list-item.selected')).toHaveLength(0)
+    })
+  })
+
+  describe('Offline Mode', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '2'),
+      createEmployee('4', 'Alice Lopez', 'CFO', 'Finance', '1'),
+    ]
+    let store: OfflineStore
+
+    beforeEach(() => {
+      store = createMemoryOfflineStore()
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    const renderWithStore = () =>
+      render(
+        <OfflineStoreContext.Provider value={store}>
+          <OrgTree />
+        </OfflineStoreContext.Provider>
+      )
+
+    test('shows the cached chart with queued moves when the API is unreachable, then replays them', async () => {
+      await store.saveEmployees(mockEmployees)
+      await store.saveOutbox([
+        { id: 'a', employeeId: '3', fromManagerId: '2', toManagerId: '1', queuedAt: 0 },
+      ])
+      mockAxiosGet.mockRejectedValue(new Error('Network Error'))
+
+      renderWithStore()
+      expect(await screen.findByTestId('employee-node-3')).toHaveClass('queued')
+      expect(screen.getByRole('status', { name: 'Sync status' })).toHaveTextContent(
+        "Offline: the server can't be reached. Showing the chart as of"
+      )
+      expect(screen.getByRole('status', { name: 'Sync status' })).toHaveTextContent('1 change is waiting to be saved.')
+      expect(notification.error).not.toHaveBeenCalled()
+
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      await userEvent.click(screen.getByRole('button', { name: 'Retry now' }))
+
+      await waitFor(() => {
+        expect(mockAxiosPatch).toHaveBeenCalledWith('/api/employees/3', { managerId: '1' })
+        expect(screen.queryByRole('status', { name: 'Sync status' })).not.toBeInTheDocument()
+      })
+      expect(await store.loadOutbox()).toEqual([])
+    })
+
+    test('shows the cached chart straight away and swaps in the live one when it arrives', async () => {
+      await store.saveEmployees(mockEmployees)
+      let answer: (value: unknown) => void = () => {}
+      mockAxiosGet.mockImplementation((url: string) =>
+        url === '/api/employees'
+          ? new Promise((resolve) => { answer = resolve })
+          : Promise.reject(new Error('Network Error'))
+      )
+
+      renderWithStore()
+      expect(await screen.findByTestId('employee-node-3')).toHaveTextContent('Bob Wilson')
+      expect(screen.getByRole('status', { name: 'Sync status' })).toHaveTextContent(
+        'Connecting to the server. Showing the chart as of'
+      )
+
+      const live = mockEmployees.map((emp) => (emp.id === '3' ? { ...emp, name: 'Robert Wilson' } : emp))
+      answer({ data: { employees: live } })
+      await waitFor(() => {
+        expect(screen.getByTestId('employee-node-3')).toHaveTextContent('Robert Wilson')
+      })
+      expect(screen.queryByRole('status', { name: 'Sync status' })).not.toBeInTheDocument()
+      await waitFor(async () => {
+        expect((await store.loadEmployees())?.employees).toEqual(live)
+      })
+    })
+
+    test('stays on the cached chart when the API answers with a server error', async () => {
+      await store.saveEmployees(mockEmployees)
+      mockAxiosGet.mockRejectedValue(
+        Object.assign(new Error('Request failed with status code 503'), { response: { status: 503, data: '' } })
+      )
+
+      renderWithStore()
+      expect(await screen.findByTestId('employee-node-3')).toBeInTheDocument()
+      await waitFor(() => {
+        expect(screen.getByRole('status', { name: 'Sync status' })).toHaveTextContent(
+          "Offline: the server can't be reached."
+        )
+      })
+      expect(notification.error).not.toHaveBeenCalled()
+    })
+
+    test('queues a move whose save hits a network error and replays it without a conflict', async () => {
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockAxiosPatch.mockRejectedValueOnce(new Error('Network Error'))
+
+      renderWithStore()
+      fireEvent.keyDown(await screen.findByTestId('employee-node-3'), { key: 'm' })
+      const dialog = await screen.findByRole('dialog')
+      await userEvent.selectOptions(within(dialog).getByTestId('team-filter'), '4')
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Reassign' }))
+
+      // The queued move records the manager from before the optimistic update
+      await waitFor(async () => {
+        expect(await store.loadOutbox()).toMatchObject([
+          { employeeId: '3', fromManagerId: '2', toManagerId: '4' },
+        ])
+      })
+      expect(screen.getByRole('status', { name: 'Sync status' })).toHaveTextContent('1 change is waiting to be saved.')
+
+      await userEvent.click(screen.getByRole('button', { name: 'Retry now' }))
+      await waitFor(() => {
+        expect(mockAxiosPatch).toHaveBeenCalledTimes(2)
+        expect(screen.queryByRole('status', { name: 'Sync status' })).not.toBeInTheDocument()
+      })
+      expect(mockAxiosPatch).toHaveBeenLastCalledWith('/api/employees/3', { managerId: '4' })
+      expect(screen.queryByRole('region', { name: 'Sync conflicts' })).not.toBeInTheDocument()
+      expect(await store.loadOutbox()).toEqual([])
+    })
+
+    test('reports queued moves that conflict with changes made meanwhile', async () => {
+      await store.saveOutbox([
+        { id: 'a', employeeId: '3', fromManagerId: '4', toManagerId: '1', queuedAt: 0 },
+      ])
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+
+      renderWithStore()
+      const conflicts = await screen.findByRole('region', { name: 'Sync conflicts' })
+      expect(conflicts).toHaveTextContent(
+        'Moving Bob Wilson under John Doe: Someone else moved this employee in the meantime'
+      )
+      expect(mockAxiosPatch).not.toHaveBeenCalled()
+      await waitFor(async () => {
+        expect((await store.loadEmployees())?.employees).toEqual(mockEmployees)
+      })
+
+      await userEvent.click(within(conflicts).getByRole('button', { name: 'Dismiss' }))
+      expect(screen.queryByRole('region', { name: 'Sync conflicts' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Scenarios', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '2'),
+    ]
+    const scenario = {
+      id: 's1',
+      name: 'Flatter tech',
+      baseEmployees: mockEmployees,
+      employees: mockEmployees,
+      updatedAt: 0,
+    }
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    const createDraft = async () => {
+      mockAxiosGet.mockImplementation(async (url: string) =>
+        url === '/api/scenarios'
+          ? { data: { scenarios: [] } }
+          : { data: { employees: mockEmployees } }
+      )
+      mockAxiosPost.mockResolvedValueOnce({ data: { scenario } } as unknown)
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-2')
+      await userEvent.click(screen.getByRole('button', { name: 'Scenarios' }))
+      await userEvent.type(await screen.findByLabelText('Scenario name'), 'Flatter tech')
+      await userEvent.click(screen.getByRole('button', { name: 'Create draft' }))
+      expect(mockAxiosPost).toHaveBeenCalledWith('/api/scenarios', { name: 'Flatter tech', employees: undefined })
+      return screen.findByRole('region', { name: 'Scenario' })
+    }
+
+    test('keeps changes in a draft local and shows them against the live org', async () => {
+      const bar = await createDraft()
+      expect(bar).toHaveTextContent('Editing draft Flatter tech: 0 changes from the live org.')
+
+      await userEvent.click(await screen.findByLabelText('Remove Jane Smith'))
+      await userEvent.click(screen.getByRole('button', { name: 'Remove' }))
+
+      await waitFor(() => {
+        expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+      })
+      expect(mockAxiosDelete).not.toHaveBeenCalled()
+      expect(bar).toHaveTextContent('2 changes from the live org. Unsaved changes.')
+
+      await userEvent.click(within(bar).getByRole('button', { name: 'Review changes' }))
+      const dialog = await screen.findByRole('dialog', { name: 'Changes in Flatter tech' })
+      expect(within(dialog).getByRole('region', { name: 'Moved' })).toHaveTextContent('Bob Wilson: Jane Smith → John Doe')
+      expect(within(dialog).getByRole('region', { name: 'Removed' })).toHaveTextContent('Jane Smith, CTO')
+      expect(within(dialog).getByRole('region', { name: 'Span of control' })).toHaveTextContent(
+        'Jane Smith: 1 → 0 direct reports'
+      )
+      expect(within(dialog).getByRole('region', { name: 'Headcount by team' })).toHaveTextContent('Technology: 2 → 1')
+
+      await userEvent.click(within(bar).getByRole('button', { name: 'Close without saving' }))
+      expect(await screen.findByTestId('employee-node-2')).toBeInTheDocument()
+    })
+
+    test('saves the draft and publishes it as one batch', async () => {
+      const bar = await createDraft()
+      await userEvent.click(await screen.findByLabelText('Remove Jane Smith'))
+      await userEvent.click(screen.getByRole('button', { name: 'Remove' }))
+      await waitFor(() => {
+        expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+      })
+
+      const published = [mockEmployees[0], { ...mockEmployees[2], managerId: '1' }]
+      const draftEmployees = published
+      mockAxiosPatch.mockResolvedValueOnce({
+        data: { scenario: { ...scenario, employees: draftEmployees } },
+      } as unknown)
+      mockAxiosPost.mockResolvedValueOnce({ data: { employees: published } } as unknown)
+
+      await userEvent.click(within(bar).getByRole('button', { name: 'Review changes' }))
+      const dialog = await screen.findByRole('dialog', { name: 'Changes in Flatter tech' })
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Publish' }))
+
+      await waitFor(() => {
+        expect(screen.queryByRole('region', { name: 'Scenario' })).not.toBeInTheDocument()
+      })
+      expect(mockAxiosPatch).toHaveBeenCalledWith('/api/scenarios/s1', { employees: draftEmployees })
+      expect(mockAxiosPost).toHaveBeenLastCalledWith('/api/scenarios/s1/publish')
+      expect(mockAxiosDelete).not.toHaveBeenCalled()
+      expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+    })
+  })
+
+  describe('Org History', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '1'),
+    ]
+    const pastEmployees = [mockEmployees[0], mockEmployees[1], { ...mockEmployees[2], managerId: '2' }]
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const events = [
+      ...pastEmployees.map((employee) => ({
+        employeeId: employee.id,
+        type: 'created',
+        employee,
+        effectiveAt: daysAgo(10),
+      })),
+      { employeeId: '3', type: 'updated', employee: mockEmployees[2], effectiveAt: daysAgo(1) },
+    ]
+
+    beforeEach(() => {
+      mockAxiosGet.mockImplementation(async (url: string, config?: { params?: { asOf?: string } }) => {
+        if (url === '/api/employees/history') return { data: { events } }
+        if (url === '/api/employees/3/history') return { data: { events: [events[2], events[3]] } }
+        return { data: { employees: config?.params?.asOf ? pastEmployees : mockEmployees } }
+      })
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    test('shows the org as of an earlier date without allowing changes', async () => {
+      render(<OrgTree />)
+      await screen.findByTestId('employee-node-3')
+      await userEvent.click(screen.getByRole('button', { name: 'History' }))
+      const timeline = await screen.findByRole('region', { name: 'Timeline' })
+      expect(mockAxiosGet).toHaveBeenCalledWith('/api/employees/history')
+
+      const handle = within(timeline).getByRole('slider', { name: 'Date' })
+      fireEvent.keyDown(handle, { key: 'ArrowLeft', keyCode: 37 })
+      fireEvent.keyUp(handle, { key: 'ArrowLeft', keyCode: 37 })
+
+      await waitFor(() => {
+        expect(timeline).toHaveTextContent('Showing the org as of')
+      })
+      const [, config] = mockAxiosGet.mock.calls.find(([, options]) => options) ?? []
+      expect(Date.parse((config as { params: { asOf: string } }).params.asOf)).toBeLessThan(Date.now())
+      const lastCall = mockCalculateLayout.mock.calls[mockCalculateLayout.mock.calls.length - 1]
+      expect(lastCall[0]).toContainEqual(pastEmployees[2])
+      expect(screen.queryByLabelText('Remove Jane Smith')).not.toBeInTheDocument()
+      expect(screen.getByRole('button', { name: 'Import' })).toBeDisabled()
+
+      await userEvent.click(within(timeline).getByRole('button', { name: 'Back to today' }))
+      await waitFor(() => {
+        expect(timeline).toHaveTextContent('Showing the live org.')
+      })
+      expect(await screen.findByLabelText('Remove Jane Smith')).toBeInTheDocument()
+    })
+
+    test('lists the history of the selected employee', async () => {
+      render(<OrgTree />)
+      await userEvent.click(await screen.findByTestId('employee-node-3'))
+      await userEvent.click(screen.getByRole('button', { name: 'History' }))
+
+      const history = await screen.findByRole('region', { name: 'History of Bob Wilson' })
+      expect(mockAxiosGet).toHaveBeenCalledWith('/api/employees/3/history')
+      const lines = within(history).getAllByRole('listitem').map((item) => item.textContent)
+      expect(lines).toEqual([
+        expect.stringMatching(/: joined under Jane Smith$/),
+        expect.stringMatching(/: moved under John Doe$/),
+      ])
+    })
+  })
+
+  describe('Data Integrity Issues', () => {
+    test('does not show the issues panel for a clean hierarchy', async () => {
+      mockAxiosGet.mockResolvedValue({
+        data: {
+          employees: [
+            createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+            createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+          ],
+        },
+      } as unknown)
+
+      render(<OrgTree />)
+      await screen.findAllByText('Jane Smith')
+      expect(screen.queryByRole('region', { name: 'Data issues' })).not.toBeInTheDocument()
+    })
+
+    test('lists cycles and orphans and links to the offending records', async () => {
+      const mockEmployees = [
+        createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+        createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '3'),
+        createEmployee('3', 'Bob Wilson', 'CFO', 'Finance', '2'),
+        createEmployee('4', 'Alice Lopez', 'VP', 'Business', 'missing'),
+      ]
+      mockAxiosGet.mockResolvedValue({
+        data: { employees: mockEmployees },
+      } as unknown)
+      mockCalculateLayout.mockResolvedValue(
+        createMockLayout(mockEmployees) as elkUtils.ELKLayout
+      )
+
+      render(<OrgTree />)
+      const panel = await screen.findByRole('region', { name: 'Data issues' })
+      expect(panel).toHaveTextContent('Issues (2)')
+      expect(panel).toHaveTextContent('Reporting cycle')
+      expect(panel).toHaveTextContent('Unknown manager')
+
+      fireEvent.click(screen.getByTitle('Show Alice Lopez'))
+      expect(screen.getByTestId('employee-node-4')).toHaveClass('selected')
+    })
+  })
+
   describe('Edge Cases & Error Handling', () => {
     test('handles empty employees array', async () => {
       mockAxiosGet.mockResolvedValue({
@@ -886,4 +1962,222 @@ describe('OrgTree Component', () => {
       })
     })
   })
+
+  describe('Dotted-line managers', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CPO', 'Product', '1'),
+      { ...createEmployee('3', 'Bob Wilson', 'Engineer', 'Technology', '1'), secondaryManagerIds: ['2'] },
+    ]
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({ data: { employees: mockEmployees } } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    test('draws dotted lines outside the layout and hides them from the toolbar', async () => {
+      render(<OrgTree />)
+      await screen.findByTestId('dotted-line-2-3')
+
+      const toggle = screen.getByRole('button', { name: 'Dotted lines' })
+      expect(toggle).toHaveAttribute('aria-pressed', 'true')
+      await userEvent.click(toggle)
+      expect(screen.queryByTestId('dotted-line-2-3')).not.toBeInTheDocument()
+      expect(JSON.parse(localStorage.getItem('org-tree:dotted-lines') || 'true')).toBe(false)
+    })
+
+    test('drops a dotted line to the manager reports move to when their manager is removed', async () => {
+      mockAxiosGet.mockResolvedValue({
+        data: {
+          employees: [
+            ...mockEmployees,
+            { ...createEmployee('4', 'Alice Brown', 'Designer', 'Product', '2'), secondaryManagerIds: ['1'] },
+          ],
+        },
+      } as unknown)
+
+      render(<OrgTree />)
+      await screen.findByTestId('dotted-line-1-4')
+      await userEvent.click(screen.getByLabelText('Remove Jane Smith'))
+      await userEvent.click(screen.getByRole('button', { name: 'Remove' }))
+
+      await waitFor(() => {
+        expect(screen.queryByTestId('employee-node-2')).not.toBeInTheDocument()
+      })
+      expect(screen.queryByTestId('dotted-line-1-4')).not.toBeInTheDocument()
+      const lastCall = mockCalculateLayout.mock.calls[mockCalculateLayout.mock.calls.length - 1]
+      expect(lastCall[0]).toContainEqual({
+        ...createEmployee('4', 'Alice Brown', 'Designer', 'Product', '1'),
+        secondaryManagerIds: [],
+      })
+    })
+  })
+
+  describe('Open positions', () => {
+    const vacancy = {
+      ...createEmployee('3', 'Open position', 'Product Designer', 'Product', '2'),
+      vacancy: { requisitionId: 'REQ-7', targetStartDate: '2026-01-12' },
+    }
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CPO', 'Product', '1'),
+      vacancy,
+    ]
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({ data: { employees: mockEmployees } } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    test('shows open positions as placeholder cards counted apart from people', async () => {
+      render(<OrgTree />)
+      const card = await screen.findByTestId('employee-node-3')
+      expect(card).toHaveClass('vacancy')
+      expect(card).toHaveTextContent('REQ-7')
+      expect(card).toHaveTextContent('Starts 2026-01-12')
+      expect(screen.getByTestId('headcount-summary')).toHaveTextContent('2 people · 1 open position')
+      expect(screen.getByLabelText('Fill Product Designer')).toBeInTheDocument()
+      expect(screen.queryByLabelText('Fill Jane Smith')).not.toBeInTheDocument()
+    })
+
+    test('fills a position with a new hire through the fill endpoint', async () => {
+      const hire = createEmployee('4', 'New Hire', 'Product Designer', 'Product', '2')
+      mockAxiosPost.mockResolvedValue({
+        data: { employees: [mockEmployees[0], mockEmployees[1], hire] },
+      } as unknown)
+
+      render(<OrgTree />)
+      await userEvent.click(await screen.findByLabelText('Fill Product Designer'))
+      await userEvent.click(screen.getByText('New hire'))
+      await userEvent.type(screen.getByRole('textbox', { name: 'Name' }), 'New Hire')
+      await userEvent.click(screen.getByRole('button', { name: 'Fill position' }))
+
+      await waitFor(() => {
+        expect(mockAxiosPost).toHaveBeenCalledWith('/api/employees/3/fill', {
+          employee: {
+            name: 'New Hire',
+            designation: 'Product Designer',
+            team: 'Product',
+            managerId: '2',
+            startDate: '2026-01-12',
+          },
+        })
+        expect(screen.getByTestId('employee-node-4')).toBeInTheDocument()
+      })
+      expect(screen.queryByTestId('employee-node-3')).not.toBeInTheDocument()
+      expect(screen.getByTestId('headcount-summary')).toHaveTextContent('3 people')
+    })
+  })
+
+  describe('Keyboard operation', () => {
+    const mockEmployees = [
+      createEmployee('1', 'John Doe', 'CEO', 'Executive', ''),
+      createEmployee('2', 'Jane Smith', 'CTO', 'Technology', '1'),
+      createEmployee('3', 'Bob Wilson', 'CFO', 'Finance', '1'),
+      createEmployee('4', 'Alice Brown', 'Engineer', 'Technology', '2'),
+    ]
+
+    beforeEach(() => {
+      mockAxiosGet.mockResolvedValue({ data: { employees: mockEmployees } } as unknown)
+      mockCalculateLayout.mockImplementation(async (employees) =>
+        createMockLayout(employees) as elkUtils.ELKLayout
+      )
+    })
+
+    test('exposes the chart as a tree with a single tab stop', async () => {
+      render(<OrgTree />)
+      const root = await screen.findByTestId('employee-node-1')
+
+      expect(screen.getByRole('tree', { name: 'Org chart' })).toBeInTheDocument()
+      expect(screen.getAllByRole('treeitem')).toHaveLength(4)
+      expect(root).toHaveAttribute('tabindex', '0')
+      expect(root).toHaveAttribute('aria-level', '1')
+      expect(root).toHaveAttribute('aria-expanded', 'true')
+      expect(screen.getByTestId('employee-node-3')).toHaveAttribute('tabindex', '-1')
+      expect(screen.getByTestId('employee-node-3')).toHaveAttribute('aria-posinset', '2')
+      expect(screen.getByTestId('employee-node-3')).toHaveAttribute('aria-setsize', '2')
+      expect(screen.getByTestId('employee-node-4')).toHaveAttribute('aria-level', '3')
+      expect(screen.getByTestId('employee-node-4')).not.toHaveAttribute('aria-expanded')
+    })
+
+    test('arrow keys walk between managers, reports and colleagues', async () => {
+      render(<OrgTree />)
+      const root = await screen.findByTestId('employee-node-1')
+      act(() => root.focus())
+
+      fireEvent.keyDown(root, { key: 'ArrowDown' })
+      expect(screen.getByTestId('employee-node-2')).toHaveFocus()
+      fireEvent.keyDown(screen.getByTestId('employee-node-2'), { key: 'ArrowRight' })
+      expect(screen.getByTestId('employee-node-3')).toHaveFocus()
+      expect(screen.getByTestId('employee-node-3')).toHaveAttribute('tabindex', '0')
+      fireEvent.keyDown(screen.getByTestId('employee-node-3'), { key: 'ArrowUp' })
+      expect(root).toHaveFocus()
+    })
+
+    test('M opens the reassign picker, which moves the employee and announces it', async () => {
+      render(<OrgTree />)
+      const card = await screen.findByTestId('employee-node-4')
+
+      fireEvent.keyDown(card, { key: 'm' })
+      const dialog = await screen.findByRole('dialog')
+      expect(within(dialog).getByText('Reassign Alice Brown to…')).toBeInTheDocument()
+      await userEvent.selectOptions(within(dialog).getByTestId('team-filter'), '3')
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Reassign' }))
+
+      await waitFor(() => {
+        expect(mockAxiosPatch).toHaveBeenCalledWith('/api/employees/4', { managerId: '3' })
+      })
+      expect(screen.getByTestId('chart-announcer')).toHaveTextContent('Alice Brown now reports to Bob Wilson.')
+    })
+
+    test('the reassign action explains unavailable managers and previews the new reporting line', async () => {
+      render(<OrgTree />)
+      await userEvent.click(await screen.findByLabelText('Reassign Jane Smith'))
+      const dialog = await screen.findByRole('dialog')
+      const picker = within(dialog).getByTestId('team-filter')
+
+      expect(within(picker).getByRole('option', { name: 'Jane Smith — CTO · Cannot report to themselves' })).toBeDisabled()
+      expect(within(picker).getByRole('option', { name: 'Alice Brown — Engineer · Reports to Jane Smith' })).toBeDisabled()
+      expect(within(picker).getByRole('option', { name: 'John Doe — CEO · Current manager' })).toBeDisabled()
+      expect(within(picker).getByRole('option', { name: 'Bob Wilson — CFO' })).toBeEnabled()
+      expect(within(dialog).getByRole('button', { name: 'Reassign' })).toBeDisabled()
+
+      await userEvent.selectOptions(picker, '3')
+      const chain = within(dialog).getByRole('list', { name: 'New reporting line' })
+      expect(within(chain).getAllByRole('listitem').map((item) => item.textContent)).toEqual([
+        'John Doe',
+        'Bob Wilson',
+        'Jane Smith',
+      ])
+
+      await userEvent.click(within(dialog).getByRole('button', { name: 'Reassign' }))
+      await waitFor(() => {
+        expect(mockAxiosPatch).toHaveBeenCalledWith('/api/employees/2', { managerId: '3' })
+      })
+      // The move is undoable like a drag
+      expect(screen.getByRole('button', { name: /undo/i })).toBeEnabled()
+    })
+
+    test('announces keyboard drags as they start and are cancelled', async () => {
+      render(<OrgTree />)
+      const card = await screen.findByTestId('employee-node-4')
+      act(() => card.focus())
+
+      fireEvent.keyDown(card, { code: 'Space' })
+      await waitFor(() => {
+        expect(screen.getByTestId('chart-announcer')).toHaveTextContent(
+          'Picked up Alice Brown. Use the arrow keys to choose a manager'
+        )
+      })
+      fireEvent.keyDown(card, { code: 'Escape' })
+      await waitFor(() => {
+        expect(screen.getByTestId('chart-announcer')).toHaveTextContent('Move cancelled. Alice Brown stayed put.')
+      })
+      expect(mockAxiosPatch).not.toHaveBeenCalled()
+    })
+  })
 })
@@ -0,0 +1,126 @@
+import { expect, test, describe, vi } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { useState } from 'react'
+import { useOptimisticReassignments } from '../hooks/useOptimisticReassignments'
+import { Reassignment } from '../../services/types'
+import { createEmployee } from '../../services/tests/fixtures'
+
+const setup = (
+  save: (reassignments: Reassignment[], previousManagerIds: Map<string, string>) => Promise<void>,
+  initial = [createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '1'), createEmployee('4', '1')]
+) =>
+  renderHook(() => {
+    const [employees, setEmployees] = useState(initial)
+    return { employees, ...useOptimisticReassignments(employees, setEmployees, save) }
+  })
+
+describe('useOptimisticReassignments', () => {
+  test('applies the move before the save resolves and marks it pending', async () => {
+    let resolveSave: () => void = () => {}
+    const save = vi.fn(() => new Promise<void>((resolve) => { resolveSave = resolve }))
+    const { result } = setup(save)
+
+    let saving: Promise<void> = Promise.resolve()
+    act(() => {
+      saving = result.current.reassign([{ employeeId: '3', managerId: '2' }])
+    })
+
+    expect(result.current.employees.find((e) => e.id === '3')?.managerId).toBe('2')
+    expect(result.current.isPending('3')).toBe(true)
+    expect(save).toHaveBeenCalledWith([{ employeeId: '3', managerId: '2' }], new Map([['3', '1']]))
+
+    await act(async () => {
+      resolveSave()
+      await saving
+    })
+    expect(result.current.isPending('3')).toBe(false)
+    expect(result.current.employees.find((e) => e.id === '3')?.managerId).toBe('2')
+  })
+
+  test('restores the previous manager and rethrows when the save fails', async () => {
+    const failure = new Error('Network error')
+    const { result } = setup(vi.fn().mockRejectedValue(failure))
+
+    await act(async () => {
+      await expect(
+        result.current.reassign([{ employeeId: '3', managerId: '2' }])
+      ).rejects.toBe(failure)
+    })
+
+    expect(result.current.employees.find((e) => e.id === '3')?.managerId).toBe('1')
+    expect(result.current.isPending('3')).toBe(false)
+  })
+
+  test('drops a dotted line to the new manager and restores it if the save fails', async () => {
+    const failure = new Error('Network error')
+    const { result } = setup(vi.fn().mockRejectedValue(failure), [
+      createEmployee('1'),
+      createEmployee('2', '1'),
+      createEmployee('3', '1', { secondaryManagerIds: ['2', '4'] }),
+      createEmployee('4', '1'),
+    ])
+
+    let saving: Promise<void> = Promise.resolve()
+    act(() => {
+      saving = result.current.reassign([{ employeeId: '3', managerId: '2' }])
+    })
+    expect(result.current.employees.find((e) => e.id === '3')).toMatchObject({ managerId: '2', secondaryManagerIds: ['4'] })
+
+    await act(async () => {
+      await expect(saving).rejects.toBe(failure)
+    })
+    expect(result.current.employees.find((e) => e.id === '3')).toMatchObject({
+      managerId: '1',
+      secondaryManagerIds: ['2', '4'],
+    })
+  })
+
+  test('does not roll back over a newer move of the same employee', async () => {
+    let rejectFirst: (error: Error) => void = () => {}
+    const save = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise<void>((_, reject) => { rejectFirst = reject }))
+      .mockResolvedValueOnce(undefined)
+    const { result } = setup(save)
+
+    let first: Promise<void> = Promise.resolve()
+    act(() => {
+      first = result.current.reassign([{ employeeId: '3', managerId: '2' }])
+    })
+    await act(async () => {
+      await result.current.reassign([{ employeeId: '3', managerId: '4' }])
+    })
+    await act(async () => {
+      rejectFirst(new Error('Network error'))
+      await first.catch(() => {})
+    })
+
+    expect(result.current.employees.find((e) => e.id === '3')?.managerId).toBe('4')
+  })
+
+  test('rolls back every move of a failed batch', async () => {
+    const { result } = setup(vi.fn().mockRejectedValue(new Error('Cycle')))
+
+    await act(async () => {
+      await result.current
+        .reassign([
+          { employeeId: '3', managerId: '2' },
+          { employeeId: '4', managerId: '2' },
+        ])
+        .catch(() => {})
+    })
+
+    expect(result.current.employees.find((e) => e.id === '3')?.managerId).toBe('1')
+    expect(result.current.employees.find((e) => e.id === '4')?.managerId).toBe('1')
+  })
+
+  test('ignores unknown employees', async () => {
+    const save = vi.fn()
+    const { result } = setup(save)
+
+    await act(async () => {
+      await result.current.reassign([{ employeeId: '99', managerId: '1' }])
+    })
+    expect(save).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,90 @@
+import { expect, test, describe, vi } from 'vitest'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { useOutbox } from '../hooks/useOutbox'
+import { createMemoryOfflineStore } from '../../services/offlineStore'
+import { EmployeeServiceError } from '../../services/apiErrors'
+import { Reassignment } from '../../services/types'
+import { createEmployee } from '../../services/tests/fixtures'
+
+const move = (employeeId: string, fromManagerId: string, toManagerId: string) => ({
+  employeeId,
+  fromManagerId,
+  toManagerId,
+})
+
+describe('useOutbox', () => {
+  test('persists queued moves in the store', async () => {
+    const store = createMemoryOfflineStore()
+    const { result } = renderHook(() => useOutbox(store, vi.fn()))
+
+    await act(() => result.current.enqueue([move('2', '1', '3')]))
+    await act(() => result.current.enqueue([move('3', '1', '')]))
+    expect(result.current.items.map((item) => item.employeeId)).toEqual(['2', '3'])
+
+    const { result: reloaded } = renderHook(() => useOutbox(store, vi.fn()))
+    await waitFor(() => expect(reloaded.current.items).toHaveLength(2))
+    expect(reloaded.current.items[0]).toMatchObject(move('2', '1', '3'))
+  })
+
+  test('replays moves in order and reports conflicts per item', async () => {
+    const store = createMemoryOfflineStore()
+    const send = vi.fn(async ({ employeeId }: Reassignment) => {
+      if (employeeId === '5') throw new EmployeeServiceError('CYCLE', 'Would create a cycle')
+    })
+    const { result } = renderHook(() => useOutbox(store, send))
+    await act(() =>
+      result.current.enqueue([
+        move('2', '1', '3'),
+        move('2', '3', '4'),
+        move('3', '1', '4'),
+        move('4', '1', ''),
+        move('5', '1', '2'),
+        move('9', '1', '2'),
+      ])
+    )
+
+    const server = [
+      createEmployee('1'),
+      createEmployee('2', '1'),
+      createEmployee('3', '4'),
+      createEmployee('4', '2'),
+      createEmployee('5', '1'),
+    ]
+    let outcome: Awaited<ReturnType<typeof result.current.flush>> | undefined
+    await act(async () => {
+      outcome = await result.current.flush(server)
+    })
+
+    expect(send.mock.calls.map(([reassignment]) => reassignment)).toEqual([
+      { employeeId: '2', managerId: '3' },
+      { employeeId: '2', managerId: '4' },
+      { employeeId: '5', managerId: '2' },
+    ])
+    expect(outcome?.sent).toBe(2)
+    expect(result.current.conflicts.map(({ item, reason }) => [item.employeeId, reason])).toEqual([
+      ['4', 'Someone else moved this employee in the meantime'],
+      ['5', 'Would create a cycle'],
+      ['9', 'The employee no longer exists'],
+    ])
+    expect(result.current.items).toEqual([])
+    expect(await store.loadOutbox()).toEqual([])
+  })
+
+  test('stops at a network error and keeps the rest queued', async () => {
+    const store = createMemoryOfflineStore()
+    const send = vi
+      .fn()
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new EmployeeServiceError('NETWORK_ERROR', 'Network Error'))
+    const { result } = renderHook(() => useOutbox(store, send))
+    await act(() => result.current.enqueue([move('2', '1', '3'), move('3', '1', '2'), move('4', '1', '2')]))
+
+    await act(async () => {
+      await expect(
+        result.current.flush([createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '1'), createEmployee('4', '1')])
+      ).rejects.toMatchObject({ code: 'NETWORK_ERROR' })
+    })
+    expect(result.current.items.map((item) => item.employeeId)).toEqual(['3', '4'])
+    expect(result.current.conflicts).toEqual([])
+  })
+})
@@ -0,0 +1,80 @@
+import { expect, test, describe, vi } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import { useReassignmentHistory } from '../hooks/useReassignmentHistory'
+import { Reassignment } from '../../services/types'
+
+const entry = [{ employeeId: '3', fromManagerId: '1', toManagerId: '2' }]
+
+describe('useReassignmentHistory', () => {
+  test('starts empty', () => {
+    const { result } = renderHook(() => useReassignmentHistory(vi.fn()))
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  test('undo sends the reverse move and enables redo once saved', () => {
+    const apply = vi.fn((_: Reassignment[], onSaved: () => void) => onSaved())
+    const { result } = renderHook(() => useReassignmentHistory(apply))
+
+    act(() => result.current.record(entry))
+    expect(result.current.canUndo).toBe(true)
+
+    act(() => result.current.undo())
+    expect(apply).toHaveBeenLastCalledWith([{ employeeId: '3', managerId: '1' }], expect.any(Function))
+    expect(result.current.canUndo).toBe(false)
+    expect(result.current.canRedo).toBe(true)
+
+    act(() => result.current.redo())
+    expect(apply).toHaveBeenLastCalledWith([{ employeeId: '3', managerId: '2' }], expect.any(Function))
+    expect(result.current.canUndo).toBe(true)
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  test('a failed undo does not move the entry to the redo stack', () => {
+    const apply = vi.fn()
+    const { result } = renderHook(() => useReassignmentHistory(apply))
+
+    act(() => result.current.record(entry))
+    act(() => result.current.undo())
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  test('recording a new change clears the redo stack', () => {
+    const apply = vi.fn((_: Reassignment[], onSaved: () => void) => onSaved())
+    const { result } = renderHook(() => useReassignmentHistory(apply))
+
+    act(() => result.current.record(entry))
+    act(() => result.current.undo())
+    act(() => result.current.record([{ employeeId: '4', fromManagerId: '1', toManagerId: '2' }]))
+    expect(result.current.canRedo).toBe(false)
+  })
+
+  test('undoes a group move as one step', () => {
+    const apply = vi.fn((_: Reassignment[], onSaved: () => void) => onSaved())
+    const { result } = renderHook(() => useReassignmentHistory(apply))
+
+    act(() =>
+      result.current.record([
+        { employeeId: '3', fromManagerId: '1', toManagerId: '2' },
+        { employeeId: '4', fromManagerId: '5', toManagerId: '2' },
+      ])
+    )
+    act(() => result.current.undo())
+    expect(apply).toHaveBeenLastCalledWith(
+      [
+        { employeeId: '3', managerId: '1' },
+        { employeeId: '4', managerId: '5' },
+      ],
+      expect.any(Function)
+    )
+    expect(result.current.canUndo).toBe(false)
+  })
+
+  test('discards entries that mention a removed employee', () => {
+    const { result } = renderHook(() => useReassignmentHistory(vi.fn()))
+
+    act(() => result.current.record(entry))
+    act(() => result.current.discard('2'))
+    expect(result.current.canUndo).toBe(false)
+  })
+})
@@ -0,0 +1,78 @@
+import { expect, test, describe } from 'vitest'
+import {
+  MAX_SCALE,
+  MIN_SCALE,
+  centerOn,
+  clampScale,
+  fitBounds,
+  getNodesBounds,
+  getVisibleBounds,
+  intersects,
+  zoomAt,
+} from '../utils/viewport'
+
+describe('viewport transforms', () => {
+  test('clampScale keeps the zoom within limits', () => {
+    expect(clampScale(100)).toBe(MAX_SCALE)
+    expect(clampScale(0)).toBe(MIN_SCALE)
+    expect(clampScale(1)).toBe(1)
+  })
+
+  test('zoomAt keeps the point under the cursor fixed', () => {
+    const before = { x: 10, y: 20, scale: 1 }
+    const origin = { x: 110, y: 220 }
+    const after = zoomAt(before, 2, origin)
+
+    expect(after.scale).toBe(2)
+    // Layout point under the origin before and after zooming
+    const layoutBefore = { x: (origin.x - before.x) / before.scale, y: (origin.y - before.y) / before.scale }
+    const layoutAfter = { x: (origin.x - after.x) / after.scale, y: (origin.y - after.y) / after.scale }
+    expect(layoutAfter).toEqual(layoutBefore)
+  })
+
+  test('fitBounds shrinks a large layout to fit and centres it', () => {
+    const transform = fitBounds({ x: 0, y: 0, width: 2000, height: 500 }, { width: 1080, height: 600 }, 40)
+    expect(transform.scale).toBe(0.5)
+    expect(transform.x).toBe(40)
+    expect(transform.y).toBe((600 - 250) / 2)
+  })
+
+  test('fitBounds does not zoom in beyond maxScale', () => {
+    const transform = fitBounds({ x: 100, y: 100, width: 220, height: 80 }, { width: 1000, height: 800 }, 40, 1.5)
+    expect(transform.scale).toBe(1.5)
+    expect(transform.x).toBe((1000 - 330) / 2 - 150)
+  })
+
+  test('centerOn puts a layout point in the middle of the viewport', () => {
+    const transform = centerOn({ x: 0, y: 0, scale: 2 }, { x: 100, y: 50 }, { width: 800, height: 600 })
+    expect(transform).toEqual({ x: 200, y: 200, scale: 2 })
+  })
+
+  test('getVisibleBounds converts the viewport into layout coordinates', () => {
+    expect(getVisibleBounds({ x: -100, y: 50, scale: 2 }, { width: 800, height: 600 })).toEqual({
+      x: 50,
+      y: -25,
+      width: 400,
+      height: 300,
+    })
+  })
+
+  test('intersects detects overlapping boxes only', () => {
+    const viewport = { x: 0, y: 0, width: 100, height: 100 }
+    expect(intersects({ x: 90, y: 90, width: 50, height: 50 }, viewport)).toBe(true)
+    expect(intersects({ x: -20, y: 10, width: 30, height: 10 }, viewport)).toBe(true)
+    expect(intersects({ x: 100, y: 0, width: 50, height: 50 }, viewport)).toBe(false)
+    expect(intersects({ x: 0, y: -60, width: 50, height: 50 }, viewport)).toBe(false)
+  })
+
+  test('getNodesBounds wraps positioned nodes and ignores the rest', () => {
+    expect(
+      getNodesBounds([
+        { x: 10, y: 20, width: 220, height: 80 },
+        { x: 300, y: 200, width: 220, height: 80 },
+        { width: 220, height: 80 },
+      ])
+    ).toEqual({ x: 10, y: 20, width: 510, height: 260 })
+    expect(getNodesBounds([])).toBeNull()
+  })
+})
@@ -0,0 +1,109 @@
+import type { ELKEdgeSection, LayoutDirection } from './elkUtils';
+import { Bounds, Point } from './viewport';
+
+const CORNER_RADIUS = 8;
+// How far a dotted line runs out of a card before curving towards the other one
+const DOTTED_LINE_MIN_BEND = 60;
+
+const isVertical = (direction: LayoutDirection) => direction === 'DOWN' || direction === 'UP';
+
+/**
+ * Where a connector leaves a manager's card (`out`) or enters a report's
+ * card (`in`): the middle of the side facing along the layout direction.
+ */
+export function getAnchor(node: Bounds, direction: LayoutDirection, end: 'in' | 'out'): Point {
+    const centerX = node.x + node.width / 2;
+    const centerY = node.y + node.height / 2;
+    const outgoing = end === 'out';
+
+    switch (direction) {
+        case 'DOWN':
+            return { x: centerX, y: outgoing ? node.y + node.height : node.y };
+        case 'UP':
+            return { x: centerX, y: outgoing ? node.y : node.y + node.height };
+        case 'RIGHT':
+            return { x: outgoing ? node.x + node.width : node.x, y: centerY };
+        case 'LEFT':
+            return { x: outgoing ? node.x : node.x + node.width, y: centerY };
+    }
+}
+
+/**
+ * Elbow path from a manager to a report that turns halfway between the two
+ * management levels. Used when the layout did not route the edge.
+ */
+export function getConnectorPath(source: Bounds, target: Bounds, direction: LayoutDirection = 'DOWN'): string {
+    const start = getAnchor(source, direction, 'out');
+    const end = getAnchor(target, direction, 'in');
+
+    if (isVertical(direction)) {
+        const midY = (start.y + end.y) / 2;
+        return `M ${start.x} ${start.y} L ${start.x} ${midY} L ${end.x} ${midY} L ${end.x} ${end.y}`;
+    }
+    const midX = (start.x + end.x) / 2;
+    return `M ${start.x} ${start.y} L ${midX} ${start.y} L ${midX} ${end.y} L ${end.x} ${end.y}`;
+}
+
+/**
+ * Curve from a dotted-line manager to a report. These links are left out of
+ * the layout, so the two cards can sit anywhere; the curve leaves and enters
+ * along the layout direction and bows out when the cards share a level.
+ */
+export function getDottedLinePath(source: Bounds, target: Bounds, direction: LayoutDirection = 'DOWN'): string {
+    const start = getAnchor(source, direction, 'out');
+    const end = getAnchor(target, direction, 'in');
+    const sign = direction === 'UP' || direction === 'LEFT' ? -1 : 1;
+    const gap = isVertical(direction) ? end.y - start.y : end.x - start.x;
+    const bend = Math.max(Math.abs(gap) / 2, DOTTED_LINE_MIN_BEND) * sign;
+
+    if (isVertical(direction)) {
+        return `M ${start.x} ${start.y} C ${start.x} ${start.y + bend} ${end.x} ${end.y - bend} ${end.x} ${end.y}`;
+    }
+    return `M ${start.x} ${start.y} C ${start.x + bend} ${start.y} ${end.x - bend} ${end.y} ${end.x} ${end.y}`;
+}
+
+export function getSectionPoints(section: ELKEdgeSection): Point[] {
+    return [section.startPoint, ...(section.bendPoints || []), section.endPoint];
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+
+// The point `length` along the segment from `from` towards `to`
+const towards = (from: Point, to: Point, length: number): Point => {
+    const ratio = length / distance(from, to);
+    return { x: from.x + (to.x - from.x) * ratio, y: from.y + (to.y - from.y) * ratio };
+};
+
+/**
+ * Path through `points` with each bend rounded off. The radius shrinks on
+ * short segments so neighbouring curves never overlap.
+ */
+export function getRoundedPath(points: Point[], radius = CORNER_RADIUS): string {
+    if (points.length === 0) return '';
+    const [first] = points;
+    const last = points[points.length - 1];
+    let path = `M ${first.x} ${first.y}`;
+
+    for (let i = 1; i < points.length - 1; i++) {
+        const corner = points[i];
+        const r = Math.min(radius, distance(points[i - 1], corner) / 2, distance(corner, points[i + 1]) / 2);
+        if (r === 0) {
+            path += ` L ${corner.x} ${corner.y}`;
+            continue;
+        }
+        const before = towards(corner, points[i - 1], r);
+        const after = towards(corner, points[i + 1], r);
+        path += ` L ${before.x} ${before.y} Q ${corner.x} ${corner.y} ${after.x} ${after.y}`;
+    }
+
+    return `${path} L ${last.x} ${last.y}`;
+}
+
+/**
+ * Path for an edge as routed by ELK, or null when the layout carries no
+ * routing (e.g. an algorithm that only places nodes).
+ */
+export function getRoutedPath(sections: ELKEdgeSection[] | undefined, radius = CORNER_RADIUS): string | null {
+    if (!sections || sections.length === 0) return null;
+    return sections.map((section) => getRoundedPath(getSectionPoints(section), radius)).join(' ');
+}
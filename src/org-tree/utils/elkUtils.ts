@@ -1,5 +1,7 @@
-import ELK from 'elkjs/lib/elk.bundled.js';
+import ELK, { ELK as ELKApi } from 'elkjs/lib/elk-api';
+import elkWorkerUrl from 'elkjs/lib/elk-worker.min.js?url';
 import { Employee } from '../../services/types';
+import { getManagerChain } from '../../services/hierarchy';
 
 export interface ELKNode {
     id: string;
@@ -9,91 +11,228 @@ export interface ELKNode {
     height: number;
 }
 
+export interface ELKPoint {
+    x: number;
+    y: number;
+}
+
+/** One routed stretch of an edge, in the same coordinates as the nodes. */
+export interface ELKEdgeSection {
+    id: string;
+    startPoint: ELKPoint;
+    endPoint: ELKPoint;
+    bendPoints?: ELKPoint[];
+}
+
 export interface ELKEdge {
     id: string;
     sources: string[];
     targets: string[];
+    sections?: ELKEdgeSection[];
+}
+
+/**
+ * A team's box in the grouped view. A collapsed team is a single summary node
+ * with the same id and bounds, listed among the layout's children.
+ */
+export interface ELKGroup extends ELKNode {
+    team: string;
+    isCollapsed: boolean;
 }
 
 export interface ELKLayout {
     id: string;
+    /** Every card, with coordinates relative to the chart even when grouped. */
     children?: ELKNode[];
     edges?: ELKEdge[];
+    /** Team boxes; only present in the grouped view. */
+    groups?: ELKGroup[];
     width?: number;
     height?: number;
 }
 
-interface ELKLayoutOptions {
-    algorithm?: string;
-    direction?: string;
+/** Direction reports flow away from their manager. */
+export type LayoutDirection = 'DOWN' | 'RIGHT' | 'UP' | 'LEFT';
+
+export type LayoutAlgorithm = 'layered' | 'mrtree';
+
+export interface ELKLayoutOptions {
+    algorithm?: LayoutAlgorithm;
+    direction?: LayoutDirection;
+    /** Gap between neighbouring cards, in pixels. */
     spacing?: string;
+    /** Gap between management levels; mrtree uses `spacing` for both. */
     layerSpacing?: string;
+    /** Draws each team as a box around its members; always uses the layered algorithm. */
+    groupByTeam?: boolean;
 }
 
-const DEFAULT_LAYOUT_OPTIONS: ELKLayoutOptions = {
+interface LayoutRequestOptions extends Partial<ELKLayoutOptions> {
+    /** Aborting skips the request if it has not started yet; its result is then null. */
+    signal?: AbortSignal;
+    /** Teams drawn as a single summary node in the grouped view. */
+    collapsedTeams?: string[];
+}
+
+export const DEFAULT_LAYOUT_OPTIONS: Required<ELKLayoutOptions> = {
     algorithm: 'layered',
     direction: 'DOWN',
     spacing: '50',
     layerSpacing: '80',
+    groupByTeam: false,
 };
 
-export async function calculateOrgChartLayout(
+/** Room above a team's members for its header. */
+export const GROUP_HEADER_HEIGHT = 36;
+const GROUP_PADDING = 20;
+
+export const getTeamNodeId = (team: string) => `team:${team}`;
+
+let elkInstance: Promise<ELKApi> | null = null;
+
+// One shared ELK. Layout runs in elkjs's web worker so large orgs do not block
+// the main thread; without Worker support (e.g. tests) the bundled copy runs inline.
+function getElk(): Promise<ELKApi> {
+    if (!elkInstance) {
+        elkInstance = typeof Worker !== 'undefined'
+            ? Promise.resolve(new ELK({ workerUrl: elkWorkerUrl }))
+            : import('elkjs/lib/elk.bundled.js').then(module => new module.default());
+    }
+    return elkInstance;
+}
+
+// Requests run one at a time, so a burst of requests (one per keystroke) only
+// lays out the ones that are still wanted when their turn comes.
+let layoutQueue: Promise<unknown> = Promise.resolve();
+
+export function calculateOrgChartLayout(
+    employees: Employee[],
+    filteredEmployees: Employee[],
+    options: LayoutRequestOptions = {}
+): Promise<ELKLayout | null> {
+    const request = layoutQueue.then(() => runLayout(employees, filteredEmployees, options));
+    layoutQueue = request.catch(() => null);
+    return request;
+}
+
+async function runLayout(
     employees: Employee[],
     filteredEmployees: Employee[],
-    options: Partial<ELKLayoutOptions> = {}
+    { signal, collapsedTeams = [], ...options }: LayoutRequestOptions
 ): Promise<ELKLayout | null> {
-    if (filteredEmployees.length === 0) {
+    if (filteredEmployees.length === 0 || signal?.aborted) {
         return null;
     }
 
-    const elk = new ELK();
+    const elk = await getElk();
     const layoutOptions = { ...DEFAULT_LAYOUT_OPTIONS, ...options };
 
-    const filteredIds = new Set(filteredEmployees.map(e => e.id));
+    // First record wins when ids repeat, so duplicate data still produces a drawable graph
+    const employeesById = new Map<string, Employee>();
+    employees.forEach(emp => {
+        if (!employeesById.has(emp.id)) employeesById.set(emp.id, emp);
+    });
 
-    const nodesToShow = new Set(filteredIds);
+    const nodesToShow = new Set(filteredEmployees.map(e => e.id));
     filteredEmployees.forEach(emp => {
-        let current: Employee | null = emp;
-        while (current.managerId) {
-            nodesToShow.add(current.managerId);
-            current = employees.find(e => e.id === current?.managerId) || null;
-            if (!current) break;
-        }
+        getManagerChain(employeesById, emp.id).forEach(id => nodesToShow.add(id));
     });
 
-    const displayEmployees = employees.filter(e => nodesToShow.has(e.id));
+    const displayEmployees = [...employeesById.values()].filter(e => nodesToShow.has(e.id));
+    const { groupByTeam } = layoutOptions;
+
+    // Members of a collapsed team are all drawn as the team's summary node
+    const collapsed = new Set(groupByTeam ? collapsedTeams : []);
+    const nodeIdOf = (emp: Employee) => (emp.team && collapsed.has(emp.team) ? getTeamNodeId(emp.team) : emp.id);
 
-    const nodes = displayEmployees.map(emp => ({
-        id: emp.id,
-        width: 220,
-        height: 80,
-    }));
+    const edgesById = new Map<string, ELKEdge>();
+    displayEmployees
+        .filter(emp => emp.managerId && emp.managerId !== emp.id && employeesById.has(emp.managerId) && nodesToShow.has(emp.managerId))
+        .forEach(emp => {
+            const source = nodeIdOf(employeesById.get(emp.managerId) as Employee);
+            const target = nodeIdOf(emp);
+            if (source === target) return;
+            const id = `edge-${source}-${target}`;
+            if (!edgesById.has(id)) edgesById.set(id, { id, sources: [source], targets: [target] });
+        });
+
+    const sharedOptions = {
+        'elk.algorithm': groupByTeam ? 'layered' : layoutOptions.algorithm as string,
+        'elk.direction': layoutOptions.direction as string,
+        'elk.spacing.nodeNode': layoutOptions.spacing as string,
+        'elk.layered.spacing.nodeNodeBetweenLayers': layoutOptions.layerSpacing as string,
+        'elk.edgeRouting': 'ORTHOGONAL',
+        // Edges from one manager leave from the same point and share a trunk
+        'elk.layered.mergeEdges': 'true',
+    };
 
-    const edges = displayEmployees
-        .filter(emp => emp.managerId && nodesToShow.has(emp.managerId) && nodesToShow.has(emp.id))
-        .map(emp => ({
-            id: `edge-${emp.managerId}-${emp.id}`,
-            sources: [emp.managerId],
-            targets: [emp.id],
-        }));
+    const cardNode = (id: string) => ({ id, width: 220, height: 80 });
+    const teams = new Map<string, Employee[]>();
+    if (groupByTeam) {
+        displayEmployees.forEach(emp => {
+            if (!emp.team) return;
+            const members = teams.get(emp.team) || [];
+            members.push(emp);
+            teams.set(emp.team, members);
+        });
+    }
+    const groupNodes = [...teams].map(([team, members]) =>
+        collapsed.has(team)
+            ? cardNode(getTeamNodeId(team))
+            : {
+                id: getTeamNodeId(team),
+                layoutOptions: {
+                    ...sharedOptions,
+                    'elk.padding': `[top=${GROUP_HEADER_HEIGHT + GROUP_PADDING},left=${GROUP_PADDING},bottom=${GROUP_PADDING},right=${GROUP_PADDING}]`,
+                },
+                children: members.map(emp => cardNode(emp.id)),
+            }
+    );
 
     try {
         const graph = await elk.layout({
             id: 'root',
             layoutOptions: {
-                'elk.algorithm': layoutOptions.algorithm as string,
-                'elk.direction': layoutOptions.direction as string,
-                'elk.spacing.nodeNode': layoutOptions.spacing as string,
-                'elk.layered.spacing.nodeNodeBetweenLayers': layoutOptions.layerSpacing as string,
+                ...sharedOptions,
+                ...(groupByTeam && {
+                    // Lay out the teams and their members together so edges can cross team boxes,
+                    // and report every position relative to the chart
+                    'elk.hierarchyHandling': 'INCLUDE_CHILDREN',
+                    'elk.json.shapeCoords': 'ROOT',
+                    'elk.json.edgeCoords': 'ROOT',
+                }),
             },
-            children: nodes,
-            edges: edges,
+            children: [
+                ...groupNodes,
+                ...displayEmployees.filter(emp => !teams.has(emp.team)).map(emp => cardNode(emp.id)),
+            ],
+            edges: [...edgesById.values()],
         });
 
-        return graph as ELKLayout;
+        return groupByTeam ? flattenGroups(graph as ELKCompoundGraph, teams, collapsed) : graph as ELKLayout;
     } catch (error) {
         console.error('Layout calculation failed:', error);
         return null;
     }
 }
 
+
+type ELKCompoundGraph = Omit<ELKLayout, 'children'> & { children?: (ELKNode & { children?: ELKNode[] })[] };
+
+// Lifts team members out of their team boxes so every card is a child of the layout
+function flattenGroups(
+    graph: ELKCompoundGraph,
+    teams: Map<string, Employee[]>,
+    collapsed: Set<string>
+): ELKLayout {
+    const teamsById = new Map([...teams.keys()].map(team => [getTeamNodeId(team), team]));
+    const groups: ELKGroup[] = [];
+    const children = (graph.children || []).flatMap(({ children: members, ...node }) => {
+        const team = teamsById.get(node.id);
+        if (team === undefined) return [node];
+        const isCollapsed = collapsed.has(team);
+        groups.push({ ...node, team, isCollapsed });
+        return isCollapsed ? [node] : members || [];
+    });
+    return { ...graph, children, groups };
+}
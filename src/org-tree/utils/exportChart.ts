@@ -0,0 +1,238 @@
+import { Employee } from '../../services/types';
+import { Headcount, countHeadcountByTeam, describeHeadcount } from '../../services/vacancies';
+import { ELKGroup, ELKLayout, GROUP_HEADER_HEIGHT, LayoutDirection } from './elkUtils';
+import { getConnectorPath, getDottedLinePath, getRoutedPath } from './connectors';
+import { Size } from './viewport';
+
+export type ExportFormat = 'svg' | 'png' | 'pdf';
+
+export interface ChartSvgOptions {
+    direction?: LayoutDirection;
+    showArrowheads?: boolean;
+    showDottedLines?: boolean;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const BACKGROUND = '#0f1419';
+
+// Mirrors the .employee-card styles in index.css
+const CARD_STYLES = `
+.connection-line { stroke: #4a5568; stroke-width: 2; fill: none; }
+.connector-arrowhead { fill: #4a5568; }
+.dotted-line { stroke: #a78bfa; stroke-width: 1.5; stroke-dasharray: 6 4; fill: none; }
+.employee-card { fill: #1a1f2e; stroke: #2a3441; stroke-width: 2; }
+.employee-avatar-text { fill: #ffffff; font-weight: 700; font-size: 18px; }
+.employee-name { fill: #e1e4e8; font-weight: 600; font-size: 14px; }
+.employee-designation { fill: #9ca3af; font-size: 12px; }
+.employee-team-badge { fill: #1e3a5f; }
+.employee-team { fill: #60a5fa; font-size: 11px; }
+.team-group { fill: rgba(96,165,250,0.06); stroke: #2a3441; stroke-width: 1.5; stroke-dasharray: 4 4; }
+.team-group.collapsed { fill: #1a1f2e; stroke-dasharray: none; }
+.team-group-name { fill: #e1e4e8; font-weight: 600; font-size: 13px; }
+.team-group-count { fill: #9ca3af; font-size: 12px; }
+text { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+`;
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// SVG text does not wrap or clip, so long values are shortened to fit the card
+const truncate = (text: string, maxLength: number) =>
+    text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+
+const initials = (name: string) => name.split(' ').map(n => n[0]).join('');
+
+function renderCard(employee: Employee, x: number, y: number, width: number, height: number): string {
+    const avatarX = x + 12 + 28;
+    const avatarY = y + height / 2;
+    const textX = x + 12 + 56 + 12;
+    const team = truncate(employee.team || '', 22);
+    return `<g class="employee-node" data-id="${escapeXml(employee.id)}">
+<rect class="employee-card" x="${x}" y="${y}" width="${width}" height="${height}" rx="8" />
+<circle cx="${avatarX}" cy="${avatarY}" r="28" fill="url(#avatar-gradient)" />
+<text class="employee-avatar-text" x="${avatarX}" y="${avatarY}" text-anchor="middle" dominant-baseline="central">${escapeXml(initials(employee.name))}</text>
+<text class="employee-name" x="${textX}" y="${y + 24}">${escapeXml(truncate(employee.name, 18))}</text>
+<text class="employee-designation" x="${textX}" y="${y + 42}">${escapeXml(truncate(employee.designation, 22))}</text>
+${team ? `<rect class="employee-team-badge" x="${textX}" y="${y + 50}" width="${team.length * 6.5 + 12}" height="18" rx="3" />
+<text class="employee-team" x="${textX + 6}" y="${y + 63}">${escapeXml(team)}</text>` : ''}
+</g>`;
+}
+
+function renderGroup(group: ELKGroup, headcount: Headcount): string {
+    const { x = 0, y = 0, width, height, team, isCollapsed } = group;
+    // A collapsed team is a card-sized summary, so its text is centred in it
+    const nameY = isCollapsed ? y + height / 2 - 4 : y + GROUP_HEADER_HEIGHT / 2 + 4;
+    return `<g class="team-group-node" data-team="${escapeXml(team)}">
+<rect class="team-group${isCollapsed ? ' collapsed' : ''}" x="${x}" y="${y}" width="${width}" height="${height}" rx="8" />
+<text class="team-group-name" x="${x + 12}" y="${nameY}">${escapeXml(truncate(team, 24))}</text>
+<text class="team-group-count" x="${x + 12}" y="${nameY + 18}">${escapeXml(describeHeadcount(headcount))}</text>
+</g>`;
+}
+
+/**
+ * Standalone SVG document of a computed layout, with employee cards drawn as
+ * SVG shapes so the file opens in any viewer or slide tool. Only what the
+ * layout contains is drawn, so filters and collapsed subtrees carry over.
+ */
+export function buildChartSvg(
+    layout: ELKLayout,
+    employeesById: Map<string, Employee>,
+    size: Size,
+    { direction = 'DOWN', showArrowheads = false, showDottedLines = false }: ChartSvgOptions = {}
+): string {
+    const nodesById = new Map((layout.children || []).map(node => [node.id, node]));
+
+    const headcounts = countHeadcountByTeam([...employeesById.values()]);
+    const groups = (layout.groups || []).map(group =>
+        renderGroup(group, headcounts.get(group.team) ?? { people: 0, openPositions: 0 })
+    );
+
+    const edges = (layout.edges || []).map(edge => {
+        const source = nodesById.get(edge.sources[0]);
+        const target = nodesById.get(edge.targets[0]);
+        if (!source || !target || source.x === undefined || source.y === undefined || target.x === undefined || target.y === undefined) {
+            return '';
+        }
+        const path = getRoutedPath(edge.sections) ??
+            getConnectorPath({ ...source, x: source.x, y: source.y }, { ...target, x: target.x, y: target.y }, direction);
+        return `<path class="connection-line" d="${path}"${showArrowheads ? ' marker-end="url(#connector-arrowhead)"' : ''} />`;
+    });
+
+    const dottedLines = !showDottedLines ? [] : (layout.children || []).flatMap(target => {
+        const employee = employeesById.get(target.id);
+        const { x, y } = target;
+        if (!employee || x === undefined || y === undefined) return [];
+        return (employee.secondaryManagerIds || []).map(managerId => {
+            const source = nodesById.get(managerId);
+            if (managerId === employee.managerId || !source || source.x === undefined || source.y === undefined) return '';
+            const path = getDottedLinePath({ ...source, x: source.x, y: source.y }, { ...target, x, y }, direction);
+            return `<path class="dotted-line" d="${path}" />`;
+        });
+    });
+
+    const cards = (layout.children || []).map(node => {
+        const employee = employeesById.get(node.id);
+        if (!employee || node.x === undefined || node.y === undefined) return '';
+        return renderCard(employee, node.x, node.y, node.width, node.height);
+    });
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="${SVG_NS}" width="${size.width}" height="${size.height}" viewBox="0 0 ${size.width} ${size.height}">
+<defs>
+<style>${CARD_STYLES}</style>
+<linearGradient id="avatar-gradient" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0%" stop-color="#667eea" />
+<stop offset="100%" stop-color="#764ba2" />
+</linearGradient>
+<marker id="connector-arrowhead" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+<path d="M 0 0 L 10 5 L 0 10 z" class="connector-arrowhead" />
+</marker>
+</defs>
+<rect width="100%" height="100%" fill="${BACKGROUND}" />
+${groups.join('\n')}
+${edges.join('\n')}
+${dottedLines.join('\n')}
+${cards.join('\n')}
+</svg>`;
+}
+
+function loadSvgImage(svg: string): Promise<HTMLImageElement> {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    return new Promise<HTMLImageElement>((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Could not render the chart image'));
+        image.src = url;
+    }).finally(() => URL.revokeObjectURL(url));
+}
+
+// Draws the `source` part of the chart onto a new canvas at `scale`
+function drawRegion(
+    image: HTMLImageElement,
+    source: { x: number; y: number; width: number; height: number },
+    scale: number
+): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(source.width * scale);
+    canvas.height = Math.ceil(source.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported');
+    context.fillStyle = BACKGROUND;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, source.x, source.y, source.width, source.height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+}
+
+export async function svgToPng(svg: string, size: Size, scale: number): Promise<Blob> {
+    const image = await loadSvgImage(svg);
+    const canvas = drawRegion(image, { x: 0, y: 0, ...size }, scale);
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    });
+}
+
+// A4 landscape in points
+const PDF_PAGE = { width: 842, height: 595 };
+const PDF_MARGIN = 24;
+// Below this, card text becomes unreadable in print, so the chart spans several pages instead
+const PDF_MIN_SCALE = 0.5;
+const PDF_RASTER_SCALE = 2;
+
+/**
+ * Splits the chart into page-sized tiles. Small charts are scaled to fit one
+ * page; larger ones keep a readable scale and continue across pages.
+ */
+export function paginate(size: Size, page: Size = PDF_PAGE, margin = PDF_MARGIN) {
+    const printable = { width: page.width - margin * 2, height: page.height - margin * 2 };
+    const fitScale = Math.min(printable.width / size.width, printable.height / size.height, 1);
+    const scale = Math.max(fitScale, PDF_MIN_SCALE);
+    const tileWidth = printable.width / scale;
+    const tileHeight = printable.height / scale;
+    const columns = Math.ceil(size.width / tileWidth);
+    const rows = Math.ceil(size.height / tileHeight);
+
+    const tiles = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns; column++) {
+            const x = column * tileWidth;
+            const y = row * tileHeight;
+            tiles.push({
+                x,
+                y,
+                width: Math.min(tileWidth, size.width - x),
+                height: Math.min(tileHeight, size.height - y),
+            });
+        }
+    }
+    return { scale, tiles };
+}
+
+export async function svgToPdf(svg: string, size: Size): Promise<Blob> {
+    // jsPDF is large and only needed here, so it is loaded on first use
+    const [{ jsPDF }, image] = await Promise.all([import('jspdf'), loadSvgImage(svg)]);
+    const { scale, tiles } = paginate(size);
+    const pdf = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+
+    tiles.forEach((tile, index) => {
+        if (index > 0) pdf.addPage();
+        const canvas = drawRegion(image, tile, scale * PDF_RASTER_SCALE);
+        pdf.addImage(canvas, 'PNG', PDF_MARGIN, PDF_MARGIN, tile.width * scale, tile.height * scale);
+        if (tiles.length > 1) {
+            pdf.setFontSize(8);
+            pdf.text(`${index + 1} / ${tiles.length}`, PDF_PAGE.width - PDF_MARGIN, PDF_PAGE.height - 10, { align: 'right' });
+        }
+    });
+
+    return pdf.output('blob');
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
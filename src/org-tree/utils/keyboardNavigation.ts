@@ -0,0 +1,161 @@
+import { KeyboardCode, KeyboardCoordinateGetter } from '@dnd-kit/core';
+import { Employee } from '../../services/types';
+import type { ELKNode, LayoutDirection } from './elkUtils';
+
+/** Where an arrow key moves focus in the reporting tree. */
+export type TreeMove = 'manager' | 'report' | 'previous' | 'next';
+
+// Per layout direction: the key towards the manager, the key towards the
+// reports, and the keys to the previous and next sibling
+const TREE_KEYS: Record<LayoutDirection, [string, string, string, string]> = {
+    DOWN: ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'],
+    UP: ['ArrowDown', 'ArrowUp', 'ArrowLeft', 'ArrowRight'],
+    RIGHT: ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'],
+    LEFT: ['ArrowRight', 'ArrowLeft', 'ArrowUp', 'ArrowDown'],
+};
+
+const TREE_MOVES: TreeMove[] = ['manager', 'report', 'previous', 'next'];
+
+export function getTreeMove(key: string, direction: LayoutDirection): TreeMove | null {
+    const index = TREE_KEYS[direction].indexOf(key);
+    return index === -1 ? null : TREE_MOVES[index];
+}
+
+export type TreeItemPosition = {
+    /** 1 for the top of the chart. */
+    level: number;
+    /** 1-based place among the cards sharing its manager. */
+    position: number;
+    setSize: number;
+};
+
+export interface ChartTree {
+    /** The card focus moves to, or null when there is none that way. */
+    neighbor(id: string, move: TreeMove): string | null;
+    position(id: string): TreeItemPosition;
+    /** Where focus starts when the chart is first tabbed into. */
+    firstRoot: string | null;
+}
+
+/**
+ * Reporting structure of the cards in a layout, as a tree of laid out cards:
+ * a card whose manager is not laid out is a root. Siblings are ordered the way
+ * they are drawn, across the layout direction.
+ */
+export function createChartTree(
+    nodes: ELKNode[],
+    employeesById: Map<string, Employee>,
+    direction: LayoutDirection
+): ChartTree {
+    const across = direction === 'DOWN' || direction === 'UP' ? 'x' : 'y';
+    const cards = nodes
+        .filter(node => employeesById.has(node.id))
+        .sort((a, b) => (a[across] ?? 0) - (b[across] ?? 0));
+    const laidOut = new Set(cards.map(node => node.id));
+
+    const parentById = new Map<string, string>();
+    const childrenById = new Map<string, string[]>();
+    const roots: string[] = [];
+    // Place of each card among its siblings, so lookups don't search the list
+    const indexById = new Map<string, number>();
+    cards.forEach(({ id }) => {
+        const managerId = employeesById.get(id)?.managerId;
+        let siblings = roots;
+        if (managerId && managerId !== id && laidOut.has(managerId)) {
+            parentById.set(id, managerId);
+            siblings = childrenById.get(managerId) ?? [];
+            if (siblings.length === 0) childrenById.set(managerId, siblings);
+        }
+        if (!indexById.has(id)) indexById.set(id, siblings.length);
+        siblings.push(id);
+    });
+
+    const siblingsOf = (id: string) => {
+        const parentId = parentById.get(id);
+        return parentId === undefined ? roots : childrenById.get(parentId) ?? [];
+    };
+
+    return {
+        neighbor(id, move) {
+            if (move === 'manager') return parentById.get(id) ?? null;
+            if (move === 'report') return childrenById.get(id)?.[0] ?? null;
+            const index = indexById.get(id);
+            if (index === undefined) return null;
+            return siblingsOf(id)[index + (move === 'next' ? 1 : -1)] ?? null;
+        },
+        position(id) {
+            const siblings = siblingsOf(id);
+            let level = 1;
+            // Managers loop back on themselves only in broken data; stop at the first repeat
+            const seen = new Set([id]);
+            for (let current = parentById.get(id); current !== undefined && !seen.has(current); current = parentById.get(current)) {
+                seen.add(current);
+                level++;
+            }
+            return { level, position: (indexById.get(id) ?? -1) + 1, setSize: siblings.length };
+        },
+        firstRoot: roots[0] ?? null,
+    };
+}
+
+type Rect = { left: number; top: number; width: number; height: number };
+
+const ARROW_VECTORS: Record<string, [number, number]> = {
+    [KeyboardCode.Up]: [0, -1],
+    [KeyboardCode.Down]: [0, 1],
+    [KeyboardCode.Left]: [-1, 0],
+    [KeyboardCode.Right]: [1, 0],
+};
+
+/**
+ * The rect nearest to `from` in the direction of an arrow key. Rects off to
+ * the side count as further away, so a press lands on the card most nearly
+ * in line with the one being dragged.
+ */
+export function findNearestInDirection<T extends Rect>(from: Rect, candidates: T[], code: string): T | null {
+    const vector = ARROW_VECTORS[code];
+    if (!vector) return null;
+    const center = (rect: Rect) => ({ x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 });
+    const origin = center(from);
+
+    let nearest: T | null = null;
+    let nearestScore = Infinity;
+    candidates.forEach(candidate => {
+        const point = center(candidate);
+        const dx = point.x - origin.x;
+        const dy = point.y - origin.y;
+        const along = dx * vector[0] + dy * vector[1];
+        const aside = Math.abs(dx * vector[1] - dy * vector[0]);
+        // Only rects within 45 degrees of the arrow count as being that way
+        if (along <= 1 || aside > along) return;
+        const score = along + aside * 2;
+        if (score < nearestScore) {
+            nearest = candidate;
+            nearestScore = score;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * Keyboard drags jump from card to card instead of nudging the dragged card
+ * a few pixels per press: each arrow key centres it on the nearest drop
+ * target that way.
+ */
+export const chartKeyboardCoordinates: KeyboardCoordinateGetter = (event, { active, context }) => {
+    const { collisionRect, droppableRects, droppableContainers } = context;
+    if (!collisionRect || !(event.code in ARROW_VECTORS)) return undefined;
+
+    const candidates = droppableContainers.getEnabled().flatMap(container => {
+        const rect = droppableRects.get(container.id);
+        return rect && container.data.current?.id !== active ? [{ ...rect, id: container.id }] : [];
+    });
+    const target = findNearestInDirection(collisionRect, candidates, event.code);
+    if (!target) return undefined;
+
+    event.preventDefault();
+    return {
+        x: target.left + (target.width - collisionRect.width) / 2,
+        y: target.top + (target.height - collisionRect.height) / 2,
+    };
+};
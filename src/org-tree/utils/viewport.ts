@@ -0,0 +1,118 @@
+/**
+ * Transform applied to the chart stage: layout point `p` is drawn at
+ * `p * scale + (x, y)` in viewport pixels.
+ */
+export interface ViewTransform {
+    x: number;
+    y: number;
+    scale: number;
+}
+
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface Size {
+    width: number;
+    height: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 2.5;
+
+export function clampScale(scale: number): number {
+    return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+/**
+ * Scales by `factor` while keeping the layout point under `origin`
+ * (in viewport pixels) fixed on screen.
+ */
+export function zoomAt(transform: ViewTransform, factor: number, origin: Point): ViewTransform {
+    const scale = clampScale(transform.scale * factor);
+    const ratio = scale / transform.scale;
+    return {
+        scale,
+        x: origin.x - (origin.x - transform.x) * ratio,
+        y: origin.y - (origin.y - transform.y) * ratio,
+    };
+}
+
+/**
+ * Transform that shows all of `bounds` centred in the viewport, never
+ * zooming in beyond `maxScale`.
+ */
+export function fitBounds(bounds: Bounds, viewport: Size, padding = 40, maxScale = 1): ViewTransform {
+    const availableWidth = Math.max(viewport.width - padding * 2, 1);
+    const availableHeight = Math.max(viewport.height - padding * 2, 1);
+    const scale = clampScale(
+        Math.min(
+            availableWidth / Math.max(bounds.width, 1),
+            availableHeight / Math.max(bounds.height, 1),
+            maxScale
+        )
+    );
+    return {
+        scale,
+        x: (viewport.width - bounds.width * scale) / 2 - bounds.x * scale,
+        y: (viewport.height - bounds.height * scale) / 2 - bounds.y * scale,
+    };
+}
+
+/**
+ * Moves the view so the layout `point` sits in the middle of the viewport.
+ */
+export function centerOn(transform: ViewTransform, point: Point, viewport: Size): ViewTransform {
+    return {
+        scale: transform.scale,
+        x: viewport.width / 2 - point.x * transform.scale,
+        y: viewport.height / 2 - point.y * transform.scale,
+    };
+}
+
+/**
+ * The part of the layout currently visible, in layout coordinates.
+ */
+export function getVisibleBounds(transform: ViewTransform, viewport: Size): Bounds {
+    return {
+        x: -transform.x / transform.scale,
+        y: -transform.y / transform.scale,
+        width: viewport.width / transform.scale,
+        height: viewport.height / transform.scale,
+    };
+}
+
+export function intersects(a: Bounds, b: Bounds): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/**
+ * Smallest box around the given positioned nodes, or null when none have a position.
+ */
+export function getNodesBounds(
+    nodes: { x?: number; y?: number; width: number; height: number }[]
+): Bounds | null {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    nodes.forEach((node) => {
+        if (node.x === undefined || node.y === undefined) return;
+        minX = Math.min(minX, node.x);
+        minY = Math.min(minY, node.y);
+        maxX = Math.max(maxX, node.x + node.width);
+        maxY = Math.max(maxY, node.y + node.height);
+    });
+
+    if (minX === Infinity) return null;
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
@@ -0,0 +1,76 @@
+import { ApiError, ApiErrorBody, ApiErrorCode } from './types';
+
+const DEFAULT_ERROR_DESCRIPTION = 'Please try again later';
+
+/** Failures with no structured API error, such as a dropped connection. */
+export type ServiceErrorCode = ApiErrorCode | 'NETWORK_ERROR' | 'UNKNOWN';
+
+/**
+ * What every `EmployeeService` rejects with, whichever backend it talks to.
+ */
+export class EmployeeServiceError extends Error {
+    readonly code: ServiceErrorCode;
+    readonly ids: string[];
+
+    constructor(code: ServiceErrorCode, message: string, ids: string[] = []) {
+        super(message);
+        this.name = 'EmployeeServiceError';
+        this.code = code;
+        this.ids = ids;
+    }
+
+    /** The error as the API reports it; null when the API gave no reason. */
+    get apiError(): ApiError | null {
+        return this.code === 'NETWORK_ERROR' || this.code === 'UNKNOWN'
+            ? null
+            : { code: this.code, message: this.message, ids: this.ids };
+    }
+
+    static fromApiError(error: ApiError): EmployeeServiceError {
+        return new EmployeeServiceError(error.code, error.message, error.ids);
+    }
+}
+
+function isApiErrorBody(data: unknown): data is ApiErrorBody {
+    const error = (data as ApiErrorBody | undefined)?.error;
+    return typeof error?.code === 'string' && typeof error?.message === 'string';
+}
+
+/**
+ * Extracts the structured error the API sends with 4xx responses, if any.
+ */
+export function getApiError(error: unknown): ApiError | null {
+    if (error instanceof EmployeeServiceError) return error.apiError;
+    const data = (error as { response?: { data?: unknown } } | null)?.response?.data;
+    return isApiErrorBody(data) ? data.error : null;
+}
+
+/**
+ * Wraps a failed HTTP request in an `EmployeeServiceError`. Requests that got
+ * no response at all are reported as network errors.
+ */
+export function toServiceError(error: unknown): EmployeeServiceError {
+    if (error instanceof EmployeeServiceError) return error;
+    const apiError = getApiError(error);
+    if (apiError) return EmployeeServiceError.fromApiError(apiError);
+    const hasResponse = Boolean((error as { response?: unknown } | null)?.response);
+    return new EmployeeServiceError(
+        hasResponse ? 'UNKNOWN' : 'NETWORK_ERROR',
+        error instanceof Error ? error.message : 'Request failed'
+    );
+}
+
+/**
+ * Whether the request never reached the API, as opposed to being refused by it.
+ */
+export function isNetworkError(error: unknown): boolean {
+    return error instanceof EmployeeServiceError && error.code === 'NETWORK_ERROR';
+}
+
+/**
+ * Message to show the user for a failed request: the API's own reason when it
+ * sent one, otherwise a generic retry hint.
+ */
+export function describeApiError(error: unknown, fallback: string = DEFAULT_ERROR_DESCRIPTION): string {
+    return getApiError(error)?.message ?? fallback;
+}
@@ -0,0 +1,223 @@
+import axios from 'axios';
+import { Employee } from './types';
+
+export type EmployeeChange =
+    | { type: 'created' | 'updated'; employee: Employee }
+    | { type: 'deleted'; id: string };
+
+export interface ChangeFeed {
+    /**
+     * Calls `listener` with each group of employee changes as they arrive.
+     * Returns a function that stops the subscription.
+     */
+    subscribe(listener: (changes: EmployeeChange[]) => void): () => void;
+}
+
+export type StreamEvent = {
+    id: string | null;
+    event: string;
+    data: string;
+};
+
+/**
+ * Reads a `text/event-stream` body into its events. Comments and fields other
+ * than `id`, `event` and `data` are ignored; multi-line data is joined with
+ * newlines as EventSource does.
+ */
+export function parseEventStream(text: string): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    text.replace(/\r\n?/g, '\n').split('\n\n').forEach(block => {
+        let id: string | null = null;
+        let event = 'message';
+        const data: string[] = [];
+        block.split('\n').forEach(line => {
+            if (!line || line.startsWith(':')) return;
+            const separator = line.indexOf(':');
+            const field = separator === -1 ? line : line.slice(0, separator);
+            const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+            if (field === 'id') id = value;
+            else if (field === 'event') event = value;
+            else if (field === 'data') data.push(value);
+        });
+        if (id !== null || data.length > 0) {
+            events.push({ id, event, data: data.join('\n') });
+        }
+    });
+    return events;
+}
+
+export function formatEventStream(events: StreamEvent[]): string {
+    return events
+        .map(({ id, event, data }) => {
+            const lines = id === null ? [] : [`id: ${id}`];
+            if (data) {
+                lines.push(`event: ${event}`, ...data.split('\n').map(line => `data: ${line}`));
+            }
+            return `${lines.join('\n')}\n\n`;
+        })
+        .join('');
+}
+
+export function toStreamEvent(change: EmployeeChange, id: string): StreamEvent {
+    return change.type === 'deleted'
+        ? { id, event: change.type, data: JSON.stringify({ id: change.id }) }
+        : { id, event: change.type, data: JSON.stringify({ employee: change.employee }) };
+}
+
+function fromStreamEvent({ event, data }: StreamEvent): EmployeeChange | null {
+    if (!data) return null;
+    const payload = JSON.parse(data);
+    if (event === 'deleted') return { type: 'deleted', id: payload.id };
+    if (event === 'created' || event === 'updated') return { type: event, employee: payload.employee };
+    return null;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Custom field values are compared by content; a missing value equals an empty one
+const sameValue = (a: unknown, b: unknown): boolean => {
+    if (isRecord(a) || isRecord(b)) {
+        const left = isRecord(a) ? a : {};
+        const right = isRecord(b) ? b : {};
+        return Object.keys({ ...left, ...right }).every(key => sameValue(left[key], right[key]));
+    }
+    return (a ?? '') === (b ?? '');
+};
+
+/** Field-by-field comparison that treats a null manager like an empty one. */
+export const isSameEmployee = (a: Employee, b: Employee) =>
+    (Object.keys({ ...a, ...b }) as (keyof Employee)[]).every(key => sameValue(a[key], b[key]));
+
+/**
+ * Applies `changes` in order. Changes that leave a record as it already is
+ * (such as the echo of an edit made in this tab) are skipped, so
+ * `changedIds` lists only the employees that really changed here.
+ */
+export function applyEmployeeChanges(
+    employees: Employee[],
+    changes: EmployeeChange[]
+): { employees: Employee[]; changedIds: string[] } {
+    let next = employees;
+    const changedIds = new Set<string>();
+    changes.forEach(change => {
+        if (change.type === 'deleted') {
+            if (!next.some(emp => emp.id === change.id)) return;
+            next = next.filter(emp => emp.id !== change.id);
+            changedIds.add(change.id);
+            return;
+        }
+        const { employee } = change;
+        const index = next.findIndex(emp => emp.id === employee.id);
+        if (index !== -1 && isSameEmployee(next[index], employee)) return;
+        next = index === -1
+            ? [...next, employee]
+            : next.map((emp, position) => (position === index ? employee : emp));
+        changedIds.add(employee.id);
+    });
+    return { employees: next, changedIds: [...changedIds] };
+}
+
+/**
+ * The changes that turn `from` into `to`.
+ */
+export function diffEmployees(from: Employee[], to: Employee[]): EmployeeChange[] {
+    const fromById = new Map(from.map(emp => [emp.id, emp]));
+    const toIds = new Set(to.map(emp => emp.id));
+    const changes: EmployeeChange[] = [];
+    to.forEach(employee => {
+        const current = fromById.get(employee.id);
+        if (!current) changes.push({ type: 'created', employee });
+        else if (!isSameEmployee(current, employee)) changes.push({ type: 'updated', employee });
+    });
+    from.forEach(emp => {
+        if (!toIds.has(emp.id)) changes.push({ type: 'deleted', id: emp.id });
+    });
+    return changes;
+}
+
+type EventStreamChangeFeedOptions = {
+    baseUrl?: string;
+    /** How long to wait between requests for new events. */
+    intervalMs?: number;
+    /** The longest wait after failed requests, which double it each time. */
+    maxIntervalMs?: number;
+};
+
+const DEFAULT_POLL_INTERVAL = 2000;
+const DEFAULT_MAX_POLL_INTERVAL = 60000;
+
+const isBrowserOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+/**
+ * Follows `GET /api/employees/changes`, an event stream of employee changes.
+ * The endpoint is read in short requests that pass the last event id back as
+ * `since`, which works through the mock server where a held-open stream
+ * cannot. The first request only picks up the current position, so older
+ * changes already reflected in the list are not replayed.
+ *
+ * Failed requests back off, and only the first of a run is logged. While the
+ * browser reports being offline, polling waits for it to come back.
+ */
+export function createEventStreamChangeFeed({
+    baseUrl = '',
+    intervalMs = DEFAULT_POLL_INTERVAL,
+    maxIntervalMs = DEFAULT_MAX_POLL_INTERVAL,
+}: EventStreamChangeFeedOptions = {}): ChangeFeed {
+    const url = `${baseUrl.replace(/\/+$/, '')}/api/employees/changes`;
+
+    return {
+        subscribe(listener) {
+            let lastEventId: string | null = null;
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            let stopped = false;
+            let failures = 0;
+
+            const resume = () => {
+                if (!stopped) poll();
+            };
+
+            const schedule = () => {
+                if (stopped) return;
+                if (isBrowserOffline()) {
+                    window.addEventListener('online', resume, { once: true });
+                    return;
+                }
+                const delay = Math.min(intervalMs * 2 ** failures, Math.max(intervalMs, maxIntervalMs));
+                timer = setTimeout(poll, delay);
+            };
+
+            const poll = async () => {
+                try {
+                    const response = await axios.get<string>(url, {
+                        params: lastEventId === null ? {} : { since: lastEventId },
+                        responseType: 'text',
+                        headers: { Accept: 'text/event-stream' },
+                    });
+                    if (stopped) return;
+                    const events = parseEventStream(String(response.data ?? ''));
+                    const changes = events.flatMap(event => {
+                        const change = fromStreamEvent(event);
+                        return change ? [change] : [];
+                    });
+                    const lastId = events.filter(event => event.id !== null).pop()?.id;
+                    const isFirstRequest = lastEventId === null;
+                    if (lastId !== undefined) lastEventId = lastId;
+                    if (!isFirstRequest && changes.length > 0) listener(changes);
+                    failures = 0;
+                } catch (error) {
+                    // Keep following; the next request picks up from the last event seen
+                    if (failures === 0) console.error('Error reading employee changes:', error);
+                    failures++;
+                }
+                schedule();
+            };
+
+            poll();
+            return () => {
+                stopped = true;
+                clearTimeout(timer);
+                if (typeof window !== 'undefined') window.removeEventListener('online', resume);
+            };
+        },
+    };
+}
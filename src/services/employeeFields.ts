@@ -0,0 +1,203 @@
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, Employee, EmploymentType } from './types';
+
+export const EMPLOYMENT_TYPE_LABELS: Record<EmploymentType, string> = {
+    fte: 'Full-time',
+    contractor: 'Contractor',
+    intern: 'Intern',
+};
+
+/**
+ * A field the chart can search, filter and show: one of the optional built-in
+ * fields or an admin-defined one.
+ */
+export type EmployeeFieldDescriptor = {
+    key: string;
+    label: string;
+    type: CustomFieldType;
+    options?: string[];
+    custom: boolean;
+};
+
+type BuiltInField = 'team' | 'email' | 'location' | 'startDate' | 'employmentType' | 'jobLevel';
+
+const BUILT_IN_FIELDS: (EmployeeFieldDescriptor & { key: BuiltInField })[] = [
+    { key: 'team', label: 'Team', type: 'text', custom: false },
+    { key: 'location', label: 'Location', type: 'text', custom: false },
+    {
+        key: 'employmentType',
+        label: 'Employment type',
+        type: 'enum',
+        options: Object.keys(EMPLOYMENT_TYPE_LABELS),
+        custom: false,
+    },
+    { key: 'jobLevel', label: 'Level', type: 'text', custom: false },
+    { key: 'email', label: 'Email', type: 'text', custom: false },
+    { key: 'startDate', label: 'Start date', type: 'date', custom: false },
+];
+
+// Fields with few distinct values, offered in the filter
+const FILTERABLE_BUILT_IN_FIELDS = new Set<string>(['team', 'location', 'employmentType', 'jobLevel']);
+
+export function getEmployeeFields(schema: CustomFieldDefinition[]): EmployeeFieldDescriptor[] {
+    return [...BUILT_IN_FIELDS, ...schema.map(field => ({ ...field, custom: true }))];
+}
+
+export function getFieldValue(employee: Employee, field: EmployeeFieldDescriptor): CustomFieldValue | undefined {
+    const value = field.custom ? employee.customFields?.[field.key] : employee[field.key as BuiltInField];
+    return value === '' || value === null ? undefined : value;
+}
+
+export function formatFieldValue(field: EmployeeFieldDescriptor, value: CustomFieldValue): string {
+    if (field.type === 'boolean') return value ? 'Yes' : 'No';
+    if (field.key === 'employmentType' && !field.custom) {
+        return EMPLOYMENT_TYPE_LABELS[value as EmploymentType] ?? String(value);
+    }
+    return String(value);
+}
+
+/** Every field the employee has a value for, formatted for display. */
+export function describeEmployeeFields(
+    employee: Employee,
+    fields: EmployeeFieldDescriptor[]
+): { field: EmployeeFieldDescriptor; value: string }[] {
+    return fields.flatMap(field => {
+        const value = getFieldValue(employee, field);
+        return value === undefined ? [] : [{ field, value: formatFieldValue(field, value) }];
+    });
+}
+
+/** Case-insensitive match on the name, designation or any field's displayed value. */
+export function matchesSearch(employee: Employee, term: string, fields: EmployeeFieldDescriptor[]): boolean {
+    const needle = term.toLowerCase();
+    return [
+        employee.name,
+        employee.designation,
+        ...describeEmployeeFields(employee, fields).map(({ value }) => value),
+    ].some(value => (value ?? '').toLowerCase().includes(needle));
+}
+
+export type FieldFilterGroup = {
+    field: EmployeeFieldDescriptor;
+    /** Raw values present in the org, in display order. */
+    values: CustomFieldValue[];
+};
+
+/**
+ * The values the org can be filtered by, grouped by field. Text fields are
+ * offered only when they are built in and short, such as team or location;
+ * enum and yes/no fields always are. Fields nobody has a value for are left out.
+ */
+export function getFilterGroups(employees: Employee[], fields: EmployeeFieldDescriptor[]): FieldFilterGroup[] {
+    return fields
+        .filter(field =>
+            field.custom ? field.type === 'enum' || field.type === 'boolean' : FILTERABLE_BUILT_IN_FIELDS.has(field.key)
+        )
+        .map(field => {
+            const present = new Set(employees.map(emp => getFieldValue(emp, field)));
+            present.delete(undefined);
+            const values = field.options
+                ? field.options.filter(option => present.has(option))
+                : [...present].sort((a, b) => String(a).localeCompare(String(b)));
+            return { field, values: values as CustomFieldValue[] };
+        })
+        .filter(group => group.values.length > 0);
+}
+
+/** A filter choice as a single string, for select inputs. */
+export function encodeFieldFilter(key: string, value: CustomFieldValue): string {
+    return JSON.stringify([key, value]);
+}
+
+export function matchesFieldFilter(employee: Employee, filter: string, fields: EmployeeFieldDescriptor[]): boolean {
+    const [key, value] = JSON.parse(filter) as [string, CustomFieldValue];
+    const field = fields.find(candidate => candidate.key === key);
+    return field !== undefined && getFieldValue(employee, field) === value;
+}
+
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * The first problem with a set of field definitions: keys that are missing,
+ * malformed, repeated or taken by a built-in field, missing labels, and enum
+ * fields without values.
+ */
+export function validateFieldSchema(schema: CustomFieldDefinition[]): string | null {
+    const builtIn = new Set<string>(['id', 'name', 'designation', 'managerId', ...BUILT_IN_FIELDS.map(field => field.key)]);
+    const seen = new Set<string>();
+    for (const field of schema) {
+        if (!KEY_PATTERN.test(field.key ?? '')) {
+            return `"${field.key ?? ''}" is not a valid field key; use letters, digits and underscores`;
+        }
+        if (builtIn.has(field.key)) return `"${field.key}" is a built-in field`;
+        if (seen.has(field.key)) return `The key "${field.key}" is used more than once`;
+        seen.add(field.key);
+        if (!field.label?.trim()) return `The field "${field.key}" needs a label`;
+        if (field.type === 'enum' && !(field.options?.length)) {
+            return `The field "${field.label}" needs at least one value to choose from`;
+        }
+    }
+    return null;
+}
+
+const isValidDate = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value));
+
+/**
+ * The first problem with the optional built-in fields of a new or updated
+ * record: a malformed email or start date, an unknown employment type, or an
+ * open position without a requisition id or with a malformed target date.
+ */
+export function validateEmployeeDetails(attrs: Partial<Employee>): string | null {
+    if (attrs.email && !/^[^\s@]+@[^\s@]+$/.test(attrs.email)) return `${attrs.email} is not an email address`;
+    if (attrs.startDate && !isValidDate(attrs.startDate)) return 'Start date must be a date such as 2021-04-01';
+    if (attrs.employmentType && !(attrs.employmentType in EMPLOYMENT_TYPE_LABELS)) {
+        return `Employment type must be one of ${Object.keys(EMPLOYMENT_TYPE_LABELS).join(', ')}`;
+    }
+    if (attrs.vacancy) {
+        if (!attrs.vacancy.requisitionId?.trim()) return 'Open positions need a requisition id';
+        if (attrs.vacancy.targetStartDate && !isValidDate(attrs.vacancy.targetStartDate)) {
+            return 'Target start date must be a date such as 2025-01-06';
+        }
+    }
+    return null;
+}
+
+function checkValue(field: CustomFieldDefinition, value: CustomFieldValue): boolean {
+    switch (field.type) {
+        case 'number':
+            return typeof value === 'number' && Number.isFinite(value);
+        case 'boolean':
+            return typeof value === 'boolean';
+        case 'date':
+            return typeof value === 'string' && isValidDate(value);
+        case 'enum':
+            return typeof value === 'string' && (field.options ?? []).includes(value);
+        default:
+            return typeof value === 'string';
+    }
+}
+
+/**
+ * The first problem with an employee's custom field values: required fields
+ * left empty, values of the wrong type or outside an enum, and keys the
+ * schema does not define. Open positions have no required fields.
+ */
+export function validateCustomFields(
+    values: Record<string, CustomFieldValue> | undefined,
+    schema: CustomFieldDefinition[],
+    isVacancy = false
+): string | null {
+    const entries = values ?? {};
+    const unknown = Object.keys(entries).find(key => !schema.some(field => field.key === key));
+    if (unknown) return `There is no field called "${unknown}"`;
+    for (const field of schema) {
+        const value = entries[field.key];
+        if (value === undefined || value === '') {
+            if (field.required && !isVacancy) return `${field.label} is required`;
+        } else if (!checkValue(field, value)) {
+            return field.type === 'enum'
+                ? `${field.label} must be one of ${(field.options ?? []).join(', ')}`
+                : `${field.label} must be a ${field.type === 'text' ? 'text value' : field.type}`;
+        }
+    }
+    return null;
+}
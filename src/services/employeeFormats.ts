@@ -0,0 +1,339 @@
+import { CoreEmployeeField, CustomFieldDefinition, CustomFieldValue, Employee, ImportedEmployee } from './types';
+
+export type DataExportFormat = 'csv' | 'json' | 'dot' | 'mermaid';
+
+export const DATA_EXPORT_FILES: Record<DataExportFormat, { extension: string; mimeType: string }> = {
+    csv: { extension: 'csv', mimeType: 'text/csv' },
+    json: { extension: 'json', mimeType: 'application/json' },
+    dot: { extension: 'dot', mimeType: 'text/vnd.graphviz' },
+    mermaid: { extension: 'mmd', mimeType: 'text/plain' },
+};
+
+/** An employee with their reports nested below them. */
+export type EmployeeTreeNode = Employee & {
+    children: EmployeeTreeNode[];
+}
+
+const FIELDS: CoreEmployeeField[] = ['id', 'name', 'designation', 'team', 'managerId'];
+
+/** Optional built-in fields, written after the core ones by every format. */
+export const DETAIL_FIELDS = ['email', 'location', 'photoUrl', 'startDate', 'employmentType', 'jobLevel'] as const;
+
+export type DetailField = typeof DETAIL_FIELDS[number];
+
+/** What marks an open position, written after the details. */
+export const VACANCY_COLUMNS = ['vacancy.requisitionId', 'vacancy.targetStartDate'] as const;
+
+export type VacancyColumn = typeof VACANCY_COLUMNS[number];
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+
+/** Separates the ids of dotted-line managers within one cell. */
+export const LIST_SEPARATOR = ';';
+
+/** Column, or DOT attribute, holding an admin-defined field. */
+export const customFieldColumn = (key: string) => `${CUSTOM_FIELD_PREFIX}${key}`;
+
+// Records from the API may carry null for a missing manager
+const normalize = (emp: Employee): Employee => ({
+    ...emp,
+    id: emp.id,
+    name: emp.name ?? '',
+    designation: emp.designation ?? '',
+    team: emp.team ?? '',
+    managerId: emp.managerId ?? '',
+});
+
+/**
+ * An employee as named text values, the way flat formats store it: core
+ * fields always, the others only when the employee has them.
+ */
+export function toFlatRecord(emp: Employee): Record<string, string> {
+    const normalized = normalize(emp);
+    const record: Record<string, string> = {};
+    FIELDS.forEach(field => {
+        record[field] = normalized[field];
+    });
+    if (emp.secondaryManagerIds?.length) {
+        record.secondaryManagerIds = emp.secondaryManagerIds.join(LIST_SEPARATOR);
+    }
+    DETAIL_FIELDS.forEach(field => {
+        const value = emp[field];
+        if (value) record[field] = value;
+    });
+    if (emp.vacancy) {
+        record['vacancy.requisitionId'] = emp.vacancy.requisitionId;
+        if (emp.vacancy.targetStartDate) record['vacancy.targetStartDate'] = emp.vacancy.targetStartDate;
+    }
+    Object.entries(emp.customFields ?? {}).forEach(([key, value]) => {
+        if (value !== '' && value !== null && value !== undefined) record[customFieldColumn(key)] = String(value);
+    });
+    return record;
+}
+
+function readCustomValue(field: CustomFieldDefinition | undefined, text: string): CustomFieldValue {
+    if (field?.type === 'number' && text.trim() !== '' && Number.isFinite(Number(text))) return Number(text);
+    if (field?.type === 'boolean' && /^(true|false|yes|no)$/i.test(text)) return /^(true|yes)$/i.test(text);
+    return text;
+}
+
+/**
+ * Reads back a record written by `toFlatRecord`. Core fields are kept even
+ * when empty; other fields are left out when their text is empty. Values of
+ * custom fields are typed from the schema, and unknown ones stay text.
+ */
+export function fromFlatRecord(record: Record<string, string>, schema: CustomFieldDefinition[] = []): ImportedEmployee {
+    const employee: ImportedEmployee = { id: record.id ?? '' };
+    FIELDS.forEach(field => {
+        if (field in record) employee[field] = record[field];
+    });
+    const secondaryManagerIds = (record.secondaryManagerIds ?? '').split(LIST_SEPARATOR).map(id => id.trim()).filter(Boolean);
+    if (secondaryManagerIds.length > 0) employee.secondaryManagerIds = secondaryManagerIds;
+    DETAIL_FIELDS.forEach(field => {
+        if (record[field]) Object.assign(employee, { [field]: record[field] });
+    });
+    // A requisition id is what makes the record an open position
+    if (record['vacancy.requisitionId']) {
+        employee.vacancy = {
+            requisitionId: record['vacancy.requisitionId'],
+            ...(record['vacancy.targetStartDate'] ? { targetStartDate: record['vacancy.targetStartDate'] } : {}),
+        };
+    }
+    Object.entries(record).forEach(([column, text]) => {
+        if (!column.startsWith(CUSTOM_FIELD_PREFIX) || text === '') return;
+        const key = column.slice(CUSTOM_FIELD_PREFIX.length);
+        const field = schema.find(candidate => candidate.key === key);
+        employee.customFields = { ...employee.customFields, [key]: readCustomValue(field, text) };
+    });
+    return employee;
+}
+
+/**
+ * Columns that hold every value of `records`, in a stable order: core fields,
+ * dotted-line managers, built-in details, open position details, then custom fields in schema order followed by any the
+ * schema no longer defines. Every schema field gets a column, even if empty.
+ */
+export function flatColumns(records: Record<string, string>[], schema: CustomFieldDefinition[] = []): string[] {
+    const present = new Set(records.flatMap(record => Object.keys(record)));
+    const custom = schema.map(field => customFieldColumn(field.key));
+    return [
+        ...FIELDS,
+        ...(present.has('secondaryManagerIds') ? ['secondaryManagerIds'] : []),
+        ...DETAIL_FIELDS.filter(field => present.has(field)),
+        ...VACANCY_COLUMNS.filter(column => present.has(column)),
+        ...custom,
+        ...[...present].filter(column => column.startsWith(CUSTOM_FIELD_PREFIX) && !custom.includes(column)),
+    ];
+}
+
+const csvCell = (value: string) => (/[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export function toCsv(employees: Employee[], schema: CustomFieldDefinition[] = []): string {
+    const records = employees.map(toFlatRecord);
+    const columns = flatColumns(records, schema);
+    const lines = [
+        columns.map(csvCell).join(','),
+        ...records.map(record => columns.map(column => csvCell(record[column] ?? '')).join(',')),
+    ];
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Builds the reporting forest. Anyone whose manager is not in `employees`
+ * (including everyone when exporting a filtered subset) becomes a root, and
+ * people only reachable through a reporting cycle are added as roots too, so
+ * every record appears exactly once. `managerId` is kept on each node.
+ */
+export function toEmployeeTree(employees: Employee[]): EmployeeTreeNode[] {
+    const nodes = new Map<string, EmployeeTreeNode>();
+    employees.forEach(emp => {
+        if (!nodes.has(emp.id)) nodes.set(emp.id, { ...normalize(emp), children: [] });
+    });
+
+    const reportsByManager = new Map<string, EmployeeTreeNode[]>();
+    nodes.forEach(node => {
+        if (!node.managerId) return;
+        const reports = reportsByManager.get(node.managerId) || [];
+        reports.push(node);
+        reportsByManager.set(node.managerId, reports);
+    });
+
+    const placed = new Set<string>();
+    const attach = (root: EmployeeTreeNode) => {
+        const stack = [root];
+        placed.add(root.id);
+        while (stack.length > 0) {
+            const node = stack.pop() as EmployeeTreeNode;
+            node.children = (reportsByManager.get(node.id) || []).filter(child => !placed.has(child.id));
+            node.children.forEach(child => placed.add(child.id));
+            stack.push(...node.children);
+        }
+    };
+
+    const roots = [...nodes.values()].filter(node => !node.managerId || !nodes.has(node.managerId));
+    roots.forEach(attach);
+    nodes.forEach(node => {
+        if (!placed.has(node.id)) {
+            roots.push(node);
+            attach(node);
+        }
+    });
+    return roots;
+}
+
+export function toNestedJson(employees: Employee[]): string {
+    return `${JSON.stringify({ employees: toEmployeeTree(employees) }, null, 2)}\n`;
+}
+
+const dotString = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+// Attribute names with dots, such as custom fields, have to be quoted
+const dotName = (name: string) => (/^\w+$/.test(name) ? name : dotString(name));
+
+/**
+ * Graphviz digraph with one node per employee. Every field is kept as a node
+ * attribute so the file can be read back; edges are drawn only between
+ * employees that are both in the export, dashed for dotted-line managers.
+ */
+export function toDot(employees: Employee[]): string {
+    const ids = new Set(employees.map(emp => emp.id));
+    const lines = ['digraph org {', '  rankdir=TB;', '  node [shape=box, style=rounded];'];
+    employees.map(normalize).forEach(emp => {
+        const { id, ...record } = toFlatRecord(emp);
+        const attributes = [
+            `label=${dotString(emp.designation ? `${emp.name}\n${emp.designation}` : emp.name)}`,
+            ...Object.entries(record).map(([name, value]) => `${dotName(name)}=${dotString(value)}`),
+        ];
+        lines.push(`  ${dotString(id)} [${attributes.join(', ')}];`);
+    });
+    employees.map(normalize).forEach(emp => {
+        if (emp.managerId && ids.has(emp.managerId)) {
+            lines.push(`  ${dotString(emp.managerId)} -> ${dotString(emp.id)};`);
+        }
+        (emp.secondaryManagerIds ?? []).filter(managerId => ids.has(managerId)).forEach(managerId => {
+            lines.push(`  ${dotString(managerId)} -> ${dotString(emp.id)} [style=dashed];`);
+        });
+    });
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+}
+
+const DOT_NODE = /^\s*("(?:[^"\\]|\\.)*")\s*\[(.*)\];?\s*$/;
+const DOT_DASHED_EDGE = /^\s*("(?:[^"\\]|\\.)*")\s*->\s*("(?:[^"\\]|\\.)*")\s*\[[^\]]*style\s*=\s*"?dashed"?[^\]]*\];?\s*$/;
+const DOT_ATTRIBUTE = /(\w+|"(?:[^"\\]|\\.)*")\s*=\s*("(?:[^"\\]|\\.)*")/g;
+
+const readDotString = (quoted: string) =>
+    quoted.slice(1, -1).replace(/\\(.)/g, (_, char: string) => (char === 'n' ? '\n' : char));
+
+// Adds the dotted-line managers drawn as dashed edges to those the records list
+function withDottedLines(employees: Employee[], dottedLines: [string, string][]): Employee[] {
+    return employees.map(emp => {
+        const drawn = dottedLines.filter(([, employeeId]) => employeeId === emp.id).map(([managerId]) => managerId);
+        const secondaryManagerIds = [...new Set([...(emp.secondaryManagerIds ?? []), ...drawn])];
+        return secondaryManagerIds.length > 0 ? { ...emp, secondaryManagerIds } : emp;
+    });
+}
+
+/**
+ * Reads back the employees written by `toDot`, typing custom field values
+ * from `schema`. Dashed edges are read as dotted-line managers.
+ */
+export function parseDot(text: string, schema: CustomFieldDefinition[] = []): Employee[] {
+    const employees: Employee[] = [];
+    const dottedLines: [string, string][] = [];
+    text.split('\n').forEach(line => {
+        const edge = DOT_DASHED_EDGE.exec(line);
+        if (edge) {
+            dottedLines.push([readDotString(edge[1]), readDotString(edge[2])]);
+            return;
+        }
+        const match = DOT_NODE.exec(line);
+        if (!match || match[1] === '"node"') return;
+        const attributes: Record<string, string> = {};
+        for (const [, key, value] of match[2].matchAll(DOT_ATTRIBUTE)) {
+            attributes[key.startsWith('"') ? readDotString(key) : key] = readDotString(value);
+        }
+        delete attributes.label;
+        employees.push(normalize({
+            ...fromFlatRecord(attributes, schema),
+            id: readDotString(match[1]),
+        } as Employee));
+    });
+    return withDottedLines(employees, dottedLines);
+}
+
+// Mermaid ids must be plain words, so employee ids are kept in the record comment
+const mermaidId = (index: number) => `e${index}`;
+
+const mermaidText = (value: string) =>
+    value.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;').replace(/\n/g, ' ');
+
+const MERMAID_RECORD = /^\s*%% employee (.*)$/;
+const MERMAID_DOTTED_LINE = /^\s*e(\d+)\s*-\.->\s*e(\d+)\s*$/;
+
+/**
+ * Mermaid flowchart. Mermaid has no custom attributes, so each employee is
+ * also written as a JSON `%%` comment that `parseMermaid` reads back.
+ * Dotted-line managers are drawn as dotted links.
+ */
+export function toMermaid(employees: Employee[]): string {
+    const indexById = new Map<string, number>();
+    employees.forEach((emp, index) => {
+        if (!indexById.has(emp.id)) indexById.set(emp.id, index);
+    });
+
+    const lines = ['flowchart TD'];
+    employees.map(normalize).forEach((emp, index) => {
+        lines.push(`  %% employee ${JSON.stringify(emp)}`);
+        const label = emp.designation
+            ? `${mermaidText(emp.name)}<br/>${mermaidText(emp.designation)}`
+            : mermaidText(emp.name);
+        lines.push(`  ${mermaidId(index)}["${label}"]`);
+    });
+    employees.map(normalize).forEach((emp, index) => {
+        const managerIndex = emp.managerId ? indexById.get(emp.managerId) : undefined;
+        if (managerIndex !== undefined) {
+            lines.push(`  ${mermaidId(managerIndex)} --> ${mermaidId(index)}`);
+        }
+        (emp.secondaryManagerIds ?? []).forEach(managerId => {
+            const dottedIndex = indexById.get(managerId);
+            if (dottedIndex !== undefined) lines.push(`  ${mermaidId(dottedIndex)} -.-> ${mermaidId(index)}`);
+        });
+    });
+    return `${lines.join('\n')}\n`;
+}
+
+/** Reads back the employees written by `toMermaid`, with dotted links as dotted-line managers. */
+export function parseMermaid(text: string): Employee[] {
+    const employees: Employee[] = [];
+    const dottedLinks: [number, number][] = [];
+    text.split('\n').forEach(line => {
+        const record = MERMAID_RECORD.exec(line);
+        if (record) employees.push(normalize(JSON.parse(record[1]) as Employee));
+        const link = MERMAID_DOTTED_LINE.exec(line);
+        if (link) dottedLinks.push([Number(link[1]), Number(link[2])]);
+    });
+    // Node ids are positions among the records
+    const dottedLines = dottedLinks.flatMap(([from, to]): [string, string][] =>
+        employees[from] && employees[to] ? [[employees[from].id, employees[to].id]] : []
+    );
+    return withDottedLines(employees, dottedLines);
+}
+
+/** `schema` names the custom fields CSV files get a column for. */
+export function serializeEmployees(
+    employees: Employee[],
+    format: DataExportFormat,
+    schema: CustomFieldDefinition[] = []
+): string {
+    switch (format) {
+        case 'csv':
+            return toCsv(employees, schema);
+        case 'json':
+            return toNestedJson(employees);
+        case 'dot':
+            return toDot(employees);
+        case 'mermaid':
+            return toMermaid(employees);
+    }
+}
@@ -0,0 +1,127 @@
+import axios from 'axios';
+import { toServiceError } from './apiErrors';
+import {
+    ChangeOptions,
+    CustomFieldDefinition,
+    Employee,
+    EmployeeEvent,
+    ImportedEmployee,
+    NewEmployee,
+    Reassignment,
+    VacancyFiller,
+} from './types';
+
+/**
+ * Everything the org chart needs from a backend. Implementations reject with
+ * an `EmployeeServiceError`. Changes take `ChangeOptions` to date them in the
+ * history; an invalid date is rejected with `INVALID_DATE`.
+ */
+export interface EmployeeService {
+    list(): Promise<Employee[]>;
+    get(id: string): Promise<Employee>;
+    update(id: string, attrs: Partial<NewEmployee>, options?: ChangeOptions): Promise<Employee>;
+    create(employee: NewEmployee, options?: ChangeOptions): Promise<Employee>;
+    /** Removes `id` and moves their reports to `reassignTo` (empty for top level). */
+    delete(id: string, reassignTo: string, options?: ChangeOptions): Promise<void>;
+    /** Applies every move or none of them. */
+    batch(moves: Reassignment[], options?: ChangeOptions): Promise<Employee[]>;
+    /**
+     * Upserts the records by id and resolves with the whole org. Fields a
+     * record leaves out keep their current value.
+     */
+    importEmployees(employees: ImportedEmployee[], options?: ChangeOptions): Promise<Employee[]>;
+    /**
+     * Puts someone in the open position `vacancyId`, which is then removed,
+     * and resolves with the whole org.
+     */
+    fillVacancy(vacancyId: string, filler: VacancyFiller, options?: ChangeOptions): Promise<Employee[]>;
+    /** The org as it stood at `asOf`, an ISO 8601 timestamp. */
+    listAsOf(asOf: string): Promise<Employee[]>;
+    /** Every recorded change to the org, oldest first. */
+    events(): Promise<EmployeeEvent[]>;
+    /** Every recorded change to one employee, oldest first. */
+    history(id: string): Promise<EmployeeEvent[]>;
+    /** The admin-defined fields every record's `customFields` follow. */
+    getFieldSchema(): Promise<CustomFieldDefinition[]>;
+    /** Replaces the field definitions and resolves with the saved ones. */
+    saveFieldSchema(fields: CustomFieldDefinition[]): Promise<CustomFieldDefinition[]>;
+}
+
+export async function request<T>(send: () => Promise<{ data: T }>): Promise<T> {
+    try {
+        const response = await send();
+        return response.data;
+    } catch (error) {
+        throw toServiceError(error);
+    }
+}
+
+type HttpEmployeeServiceOptions = {
+    /** Prefix for every request, e.g. `https://hr.example.com`. Empty keeps requests on this origin. */
+    baseUrl?: string;
+};
+
+/**
+ * REST backend. With no base URL it talks to this origin, which is where the
+ * Mirage mock server answers during development.
+ */
+export function createHttpEmployeeService({ baseUrl = '' }: HttpEmployeeServiceOptions = {}): EmployeeService {
+    const root = `${baseUrl.replace(/\/+$/, '')}/api/employees`;
+    const url = (id: string) => `${root}/${encodeURIComponent(id)}`;
+    const fieldsUrl = `${baseUrl.replace(/\/+$/, '')}/api/employee-fields`;
+
+    return {
+        async list() {
+            const data = await request<{ employees?: Employee[] }>(() => axios.get(root));
+            return data?.employees ?? [];
+        },
+        async get(id) {
+            return (await request<{ employee: Employee }>(() => axios.get(url(id)))).employee;
+        },
+        async update(id, attrs, options) {
+            return (await request<{ employee: Employee }>(() => axios.patch(url(id), { ...attrs, ...options }))).employee;
+        },
+        async create(employee, options) {
+            return (await request<{ employee: Employee }>(() => axios.post(root, { ...employee, ...options }))).employee;
+        },
+        async delete(id, reassignTo, options) {
+            await request(() => axios.delete(url(id), { params: { reassignTo, ...options } }));
+        },
+        async batch(moves, options) {
+            const data = await request<{ employees?: Employee[] }>(() => axios.post(`${root}/batch`, { moves, ...options }));
+            return data?.employees ?? [];
+        },
+        async importEmployees(employees, options) {
+            const data = await request<{ employees?: Employee[] }>(
+                () => axios.post(`${root}/import`, { employees, ...options })
+            );
+            return data?.employees ?? [];
+        },
+        async fillVacancy(vacancyId, filler, options) {
+            const data = await request<{ employees?: Employee[] }>(
+                () => axios.post(`${url(vacancyId)}/fill`, { ...filler, ...options })
+            );
+            return data?.employees ?? [];
+        },
+        async listAsOf(asOf) {
+            const data = await request<{ employees?: Employee[] }>(() => axios.get(root, { params: { asOf } }));
+            return data?.employees ?? [];
+        },
+        async events() {
+            const data = await request<{ events?: EmployeeEvent[] }>(() => axios.get(`${root}/history`));
+            return data?.events ?? [];
+        },
+        async history(id) {
+            const data = await request<{ events?: EmployeeEvent[] }>(() => axios.get(`${url(id)}/history`));
+            return data?.events ?? [];
+        },
+        async getFieldSchema() {
+            const data = await request<{ fields?: CustomFieldDefinition[] }>(() => axios.get(fieldsUrl));
+            return data?.fields ?? [];
+        },
+        async saveFieldSchema(fields) {
+            const data = await request<{ fields?: CustomFieldDefinition[] }>(() => axios.put(fieldsUrl, { fields }));
+            return data?.fields ?? [];
+        },
+    };
+}
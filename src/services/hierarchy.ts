@@ -0,0 +1,343 @@
+import { ApiError, Employee, HierarchyIssue, Reassignment, ReportCounts } from './types';
+
+function indexReports(employees: Employee[]): Map<string, string[]> {
+    const reportsByManager = new Map<string, string[]>();
+    employees.forEach(emp => {
+        if (!emp.managerId) return;
+        const reports = reportsByManager.get(emp.managerId) || [];
+        reports.push(emp.id);
+        reportsByManager.set(emp.managerId, reports);
+    });
+    return reportsByManager;
+}
+
+function collectDescendants(reportsByManager: Map<string, string[]>, employeeId: string, into: Set<string>) {
+    const queue = [...(reportsByManager.get(employeeId) || [])];
+    while (queue.length > 0) {
+        const id = queue.pop() as string;
+        if (into.has(id) || id === employeeId) continue;
+        into.add(id);
+        queue.push(...(reportsByManager.get(id) || []));
+    }
+}
+
+/**
+ * Returns the ids of everyone below `employeeId` in the reporting tree.
+ */
+export function getDescendantIds(employees: Employee[], employeeId: string): Set<string> {
+    const descendants = new Set<string>();
+    collectDescendants(indexReports(employees), employeeId, descendants);
+    return descendants;
+}
+
+/**
+ * Checks whether `employeeId` may report to `managerId`. Returns the reason
+ * the change would corrupt the hierarchy, or null when it is allowed.
+ * An empty `managerId` makes the employee top level and is always allowed.
+ */
+export function validateReassignment(
+    employees: Employee[],
+    employeeId: string,
+    managerId: string | null
+): ApiError | null {
+    const byId = new Map(employees.map(emp => [emp.id, emp]));
+
+    if (!byId.has(employeeId)) {
+        return {
+            code: 'EMPLOYEE_NOT_FOUND',
+            message: `Employee ${employeeId} does not exist`,
+            ids: [employeeId],
+        };
+    }
+    if (!managerId) return null;
+
+    if (managerId === employeeId) {
+        return {
+            code: 'SELF_REFERENCE',
+            message: 'An employee cannot report to themselves',
+            ids: [employeeId],
+        };
+    }
+    if (!byId.has(managerId)) {
+        return {
+            code: 'MANAGER_NOT_FOUND',
+            message: `Manager ${managerId} does not exist`,
+            ids: [managerId],
+        };
+    }
+
+    // Reaching the employee while walking up from the new manager means the move would close a loop
+    const chain = [managerId, ...getManagerChain(byId, managerId)];
+    const position = chain.indexOf(employeeId);
+    if (position !== -1) {
+        return {
+            code: 'CYCLE',
+            message: `${byId.get(managerId)?.name ?? managerId} reports to ${byId.get(employeeId)?.name ?? employeeId}, so this move would create a reporting cycle`,
+            ids: [employeeId, ...chain.slice(0, position)],
+        };
+    }
+    return null;
+}
+
+/**
+ * Checks the dotted-line managers given for `employeeId`, whose solid-line
+ * manager is `managerId`. Each must exist and appear once, and neither the
+ * employee nor their solid-line manager can be one. Returns null when allowed.
+ */
+export function validateSecondaryManagers(
+    employees: Employee[],
+    employeeId: string,
+    secondaryManagerIds: string[],
+    managerId: string | null
+): ApiError | null {
+    const ids = new Set(employees.map(emp => emp.id));
+    if (!ids.has(employeeId)) {
+        return {
+            code: 'EMPLOYEE_NOT_FOUND',
+            message: `Employee ${employeeId} does not exist`,
+            ids: [employeeId],
+        };
+    }
+    const seen = new Set<string>();
+    for (const id of secondaryManagerIds) {
+        if (id === employeeId) {
+            return {
+                code: 'SELF_REFERENCE',
+                message: 'An employee cannot have a dotted line to themselves',
+                ids: [employeeId],
+            };
+        }
+        if (!ids.has(id)) {
+            return {
+                code: 'MANAGER_NOT_FOUND',
+                message: `Manager ${id} does not exist`,
+                ids: [id],
+            };
+        }
+        if (id === managerId || seen.has(id)) {
+            return {
+                code: 'INVALID_EMPLOYEE',
+                message: id === managerId
+                    ? 'The solid-line manager cannot also be a dotted-line manager'
+                    : `Manager ${id} is listed more than once`,
+                ids: [employeeId, id],
+            };
+        }
+        seen.add(id);
+    }
+    return null;
+}
+
+/**
+ * `employee` moved under `managerId`. A dotted line to the new manager is
+ * dropped, since it becomes the solid line.
+ */
+export function withManager(employee: Employee, managerId: string): Employee {
+    return employee.secondaryManagerIds?.includes(managerId)
+        ? { ...employee, managerId, secondaryManagerIds: employee.secondaryManagerIds.filter(id => id !== managerId) }
+        : { ...employee, managerId };
+}
+
+/**
+ * `employees` with every dotted line to `managerId` removed, for when that
+ * manager leaves. Records without such a line are returned as they are.
+ */
+export function removeSecondaryManager(employees: Employee[], managerId: string): Employee[] {
+    return employees.map(emp =>
+        emp.secondaryManagerIds?.includes(managerId)
+            ? { ...emp, secondaryManagerIds: emp.secondaryManagerIds.filter(id => id !== managerId) }
+            : emp
+    );
+}
+
+/**
+ * Validates a set of moves as one unit: every move is checked against the
+ * hierarchy as it would look once all of them are applied, so the batch is
+ * rejected if any single move is invalid.
+ */
+export function validateBatchReassignment(
+    employees: Employee[],
+    moves: Reassignment[]
+): ApiError | null {
+    const movedIds = new Set<string>();
+    for (const move of moves) {
+        if (movedIds.has(move.employeeId)) {
+            return {
+                code: 'INVALID_EMPLOYEE',
+                message: `Employee ${move.employeeId} appears more than once in the batch`,
+                ids: [move.employeeId],
+            };
+        }
+        movedIds.add(move.employeeId);
+    }
+
+    const managerById = new Map(moves.map(move => [move.employeeId, move.managerId]));
+    const afterMoves = employees.map(emp =>
+        managerById.has(emp.id) ? { ...emp, managerId: managerById.get(emp.id) as string } : emp
+    );
+
+    for (const move of moves) {
+        const error = validateReassignment(afterMoves, move.employeeId, move.managerId);
+        if (error) return error;
+    }
+    return null;
+}
+
+/**
+ * Ids of the managers above `employeeId`, nearest first. Stops at the first
+ * repeated id, so it is safe to call on data that contains cycles.
+ */
+export function getManagerChain(byId: Map<string, Employee>, employeeId: string): string[] {
+    const chain: string[] = [];
+    const visited = new Set([employeeId]);
+    let current = byId.get(employeeId)?.managerId;
+    while (current && !visited.has(current)) {
+        chain.push(current);
+        visited.add(current);
+        current = byId.get(current)?.managerId;
+    }
+    return chain;
+}
+
+/**
+ * Whether `employeeId` sits anywhere below `managerId`.
+ */
+export function isSubordinate(byId: Map<string, Employee>, managerId: string, employeeId: string): boolean {
+    return getManagerChain(byId, employeeId).includes(managerId);
+}
+
+/**
+ * Why `employeeIds` cannot all be moved under `managerId`, phrased for a
+ * list of possible managers, or null when the move is allowed. Someone
+ * already managing everyone being moved is not a move either.
+ */
+export function getReassignmentBlocker(
+    byId: Map<string, Employee>,
+    employeeIds: string[],
+    managerId: string
+): string | null {
+    if (employeeIds.includes(managerId)) {
+        return employeeIds.length === 1 ? 'Cannot report to themselves' : 'Being reassigned';
+    }
+    const chain = getManagerChain(byId, managerId);
+    const above = employeeIds.find(id => chain.includes(id));
+    if (above !== undefined) {
+        const name = byId.get(above)?.name ?? above;
+        return chain[0] === above ? `Reports to ${name}` : `In ${name}'s reporting line`;
+    }
+    if (employeeIds.every(id => byId.get(id)?.managerId === managerId)) {
+        return 'Current manager';
+    }
+    return null;
+}
+
+/**
+ * Finds data problems that make the reporting tree ambiguous or impossible to
+ * draw: reporting cycles, managers that do not exist, repeated ids and more
+ * than one top-level employee.
+ */
+export function validateHierarchy(employees: Employee[]): HierarchyIssue[] {
+    const issues: HierarchyIssue[] = [];
+    const byId = new Map<string, Employee>();
+    const duplicates = new Set<string>();
+
+    employees.forEach(emp => {
+        if (byId.has(emp.id)) {
+            duplicates.add(emp.id);
+        } else {
+            byId.set(emp.id, emp);
+        }
+    });
+    duplicates.forEach(id => {
+        issues.push({
+            type: 'DUPLICATE_ID',
+            message: `${employees.filter(emp => emp.id === id).length} records share the id ${id}`,
+            ids: [id],
+        });
+    });
+
+    byId.forEach(emp => {
+        if (emp.managerId && !byId.has(emp.managerId)) {
+            issues.push({
+                type: 'ORPHAN',
+                message: `${emp.name} reports to ${emp.managerId}, who does not exist`,
+                ids: [emp.id],
+            });
+        }
+    });
+
+    // Walk up from every employee; a walk that runs into itself has found a cycle.
+    // Employees whose chain is already known to end cleanly or in a cycle are not walked again.
+    const settled = new Set<string>();
+    byId.forEach(emp => {
+        const path: string[] = [];
+        const onPath = new Set<string>();
+        let current: string | undefined = emp.id;
+        while (current && byId.has(current) && !settled.has(current) && !onPath.has(current)) {
+            path.push(current);
+            onPath.add(current);
+            current = byId.get(current)?.managerId;
+        }
+        if (current && onPath.has(current)) {
+            const cycle = path.slice(path.indexOf(current));
+            issues.push({
+                type: 'CYCLE',
+                message: `Reporting cycle: ${cycle.map(id => byId.get(id)?.name ?? id).join(' → ')} → ${byId.get(current)?.name ?? current}`,
+                ids: cycle,
+            });
+        }
+        path.forEach(id => settled.add(id));
+    });
+
+    const roots = [...byId.values()].filter(emp => !emp.managerId);
+    if (roots.length > 1) {
+        issues.push({
+            type: 'MULTIPLE_ROOTS',
+            message: `${roots.length} employees have no manager: ${roots.map(emp => emp.name).join(', ')}`,
+            ids: roots.map(emp => emp.id),
+        });
+    }
+
+    return issues;
+}
+
+/**
+ * Direct and total (all levels) report counts for every employee with reports.
+ * Open positions are counted on their own rather than as reports.
+ * Employees caught in a cycle are counted once.
+ */
+export function countReports(employees: Employee[]): Map<string, ReportCounts> {
+    const byId = new Map<string, Employee>();
+    employees.forEach(emp => {
+        if (!byId.has(emp.id)) byId.set(emp.id, emp);
+    });
+
+    const counts = new Map<string, ReportCounts>();
+    const countsFor = (id: string) => {
+        const found = counts.get(id) || { direct: 0, total: 0, openPositions: 0 };
+        counts.set(id, found);
+        return found;
+    };
+    byId.forEach(emp => {
+        if (!emp.managerId || !byId.has(emp.managerId)) return;
+        if (!emp.vacancy) countsFor(emp.managerId).direct += 1;
+
+        getManagerChain(byId, emp.id).forEach(managerId => {
+            countsFor(managerId)[emp.vacancy ? 'openPositions' : 'total'] += 1;
+        });
+    });
+    return counts;
+}
+
+/**
+ * Everyone hidden because one of their managers is collapsed.
+ */
+export function getCollapsedDescendantIds(employees: Employee[], collapsedIds: Iterable<string>): Set<string> {
+    const reportsByManager = indexReports(employees);
+    const hidden = new Set<string>();
+    for (const id of collapsedIds) {
+        if (hidden.has(id)) continue;
+        collectDescendants(reportsByManager, id, hidden);
+    }
+    return hidden;
+}
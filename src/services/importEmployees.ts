@@ -0,0 +1,421 @@
+import {
+    ApiErrorCode,
+    CoreEmployeeField,
+    CustomFieldDefinition,
+    Employee,
+    ImportIssue,
+    ImportIssueType,
+    ImportedEmployee,
+} from './types';
+import { validateHierarchy, validateSecondaryManagers, withManager } from './hierarchy';
+import { validateCustomFields, validateEmployeeDetails } from './employeeFields';
+import {
+    DETAIL_FIELDS,
+    DetailField,
+    LIST_SEPARATOR,
+    VACANCY_COLUMNS,
+    VacancyColumn,
+    customFieldColumn,
+    flatColumns,
+    fromFlatRecord,
+    parseDot,
+    parseMermaid,
+    toFlatRecord,
+} from './employeeFormats';
+
+export type EmployeeField = CoreEmployeeField;
+
+export const EMPLOYEE_FIELDS: EmployeeField[] = ['id', 'name', 'designation', 'team', 'managerId'];
+
+/** A field a column can be mapped to; `key` is its column name in exported files. */
+export type ImportField = {
+    key: string;
+    label: string;
+}
+
+/** Source column for each import field, by key, or null when the file has none. */
+export type ColumnMapping = Record<string, string | null>;
+
+export type ImportTable = {
+    columns: string[];
+    rows: Record<string, string>[];
+}
+
+/** API error code returned when an import is rejected because of this issue. */
+export const IMPORT_ISSUE_ERROR_CODE: Record<ImportIssueType, ApiErrorCode> = {
+    MISSING_ID: 'INVALID_EMPLOYEE',
+    MISSING_NAME: 'INVALID_EMPLOYEE',
+    DUPLICATE_ID: 'INVALID_EMPLOYEE',
+    INVALID_DETAILS: 'INVALID_EMPLOYEE',
+    UNKNOWN_MANAGER: 'MANAGER_NOT_FOUND',
+    INVALID_SECONDARY_MANAGER: 'INVALID_EMPLOYEE',
+    CYCLE: 'CYCLE',
+};
+
+type BuiltInColumn = EmployeeField | 'secondaryManagerIds' | DetailField | VacancyColumn;
+
+const FIELD_LABELS: Record<BuiltInColumn, string> = {
+    id: 'Id',
+    name: 'Name',
+    designation: 'Designation',
+    team: 'Team',
+    managerId: 'Manager id',
+    secondaryManagerIds: 'Dotted-line manager ids',
+    email: 'Email',
+    location: 'Location',
+    photoUrl: 'Photo URL',
+    startDate: 'Start date',
+    employmentType: 'Employment type',
+    jobLevel: 'Level',
+    'vacancy.requisitionId': 'Requisition id',
+    'vacancy.targetStartDate': 'Target start date',
+};
+
+// Header spellings commonly found in HR exports, compared without case or punctuation
+const COLUMN_ALIASES: Record<BuiltInColumn, string[]> = {
+    id: ['id', 'employeeid', 'empid', 'staffid'],
+    name: ['name', 'fullname', 'employeename', 'employee'],
+    designation: ['designation', 'title', 'jobtitle', 'role', 'position'],
+    team: ['team', 'department', 'dept', 'group'],
+    managerId: ['managerid', 'manager', 'reportsto', 'supervisorid', 'supervisor'],
+    secondaryManagerIds: ['secondarymanagerids', 'dottedlinemanagerids', 'dottedlinemanagers', 'dottedline'],
+    email: ['email', 'emailaddress', 'workemail'],
+    location: ['location', 'office', 'city'],
+    photoUrl: ['photourl', 'photo', 'avatar', 'imageurl'],
+    startDate: ['startdate', 'hiredate', 'joindate', 'datejoined'],
+    employmentType: ['employmenttype', 'workertype', 'contracttype'],
+    jobLevel: ['joblevel', 'level', 'grade'],
+    'vacancy.requisitionId': ['vacancyrequisitionid', 'requisitionid', 'requisition', 'reqid'],
+    'vacancy.targetStartDate': ['vacancytargetstartdate', 'targetstartdate'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Every field a column can be mapped to: the core ones, dotted-line
+ * managers, the built-in details, those of open positions, then the schema's.
+ */
+export function getImportFields(schema: CustomFieldDefinition[] = []): ImportField[] {
+    return [
+        ...[...EMPLOYEE_FIELDS, 'secondaryManagerIds' as const, ...DETAIL_FIELDS, ...VACANCY_COLUMNS].map(key => ({ key, label: FIELD_LABELS[key] })),
+        ...schema.map(field => ({ key: customFieldColumn(field.key), label: field.label })),
+    ];
+}
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells containing commas,
+ * line breaks and doubled quotes, and both LF and CRLF line endings.
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const input = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (inQuotes) {
+            if (char === '"' && input[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell !== '' || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+
+    // Blank lines carry no record
+    return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+const toCell = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+// Nested exports list each employee's reports under `children`
+function flattenRecords(records: object[]): Record<string, unknown>[] {
+    return records.flatMap(record => {
+        const { children, ...rest } = record as Record<string, unknown>;
+        return [rest, ...(Array.isArray(children) ? flattenRecords(children) : [])];
+    });
+}
+
+// Objects such as `customFields` become one `customFields.<key>` column per
+// value, and lists such as `secondaryManagerIds` one cell
+function flattenValues(record: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(record).flatMap(([key, value]) => {
+        if (Array.isArray(value)) return [[key, value.join(LIST_SEPARATOR)]];
+        return value !== null && typeof value === 'object'
+            ? Object.entries(value).map(([subKey, subValue]) => [`${key}.${subKey}`, subValue])
+            : [[key, value]];
+    }));
+}
+
+function employeesToTable(employees: Employee[]): ImportTable {
+    if (employees.length === 0) {
+        throw new Error('No employees found in the file');
+    }
+    const records = employees.map(toFlatRecord);
+    const columns = flatColumns(records);
+    return {
+        columns,
+        rows: records.map(record => Object.fromEntries(columns.map(column => [column, record[column] ?? '']))),
+    };
+}
+
+/**
+ * Reads a CSV (first row is the header) or JSON file into columns and rows.
+ * JSON may be an array of objects or an object with an `employees` array,
+ * flat or nested through `children`. Graphviz and Mermaid files written by
+ * the data export are read back too. Throws when the content cannot be read.
+ */
+export function parseImportFile(fileName: string, text: string): ImportTable {
+    const name = fileName.toLowerCase();
+    if (name.endsWith('.dot') || name.endsWith('.gv')) {
+        return employeesToTable(parseDot(text));
+    }
+    if (name.endsWith('.mmd')) {
+        return employeesToTable(parseMermaid(text));
+    }
+    if (name.endsWith('.json')) {
+        let data: unknown;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            throw new Error('The file is not valid JSON');
+        }
+        const records = Array.isArray(data) ? data : (data as { employees?: unknown })?.employees;
+        if (!Array.isArray(records) || records.some(record => typeof record !== 'object' || record === null)) {
+            throw new Error('Expected a list of employee objects');
+        }
+        const flat = flattenRecords(records).map(flattenValues);
+        const columns = [...new Set(flat.flatMap(record => Object.keys(record)))];
+        const rows = flat.map(record =>
+            Object.fromEntries(columns.map(column => [column, toCell(record[column])]))
+        );
+        return { columns, rows };
+    }
+
+    const [header, ...lines] = parseCsv(text);
+    if (!header) {
+        throw new Error('The file is empty');
+    }
+    const columns = header.map(column => column.trim());
+    const rows = lines.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])));
+    return { columns, rows };
+}
+
+/**
+ * Picks the column for each field by matching headers against common names,
+ * and custom fields against their key or label.
+ */
+export function guessColumnMapping(columns: string[], schema: CustomFieldDefinition[] = []): ColumnMapping {
+    const mapping: ColumnMapping = {};
+    getImportFields(schema).forEach(({ key, label }) => {
+        const names = key in COLUMN_ALIASES
+            ? COLUMN_ALIASES[key as BuiltInColumn]
+            : [normalizeHeader(key), normalizeHeader(label)];
+        mapping[key] = columns.find(column => names.includes(normalizeHeader(column))) ?? null;
+    });
+    return mapping;
+}
+
+/**
+ * Reads each row into a record. Fields mapped to no column are left out of
+ * the record rather than read as empty, so they never overwrite anything;
+ * so are optional fields whose cell is empty. Custom field values are typed
+ * from `schema`.
+ */
+export function applyColumnMapping(
+    table: ImportTable,
+    mapping: ColumnMapping,
+    schema: CustomFieldDefinition[] = []
+): ImportedEmployee[] {
+    const mapped = Object.keys(mapping).filter(key => mapping[key]);
+    return table.rows.map(row =>
+        fromFlatRecord(
+            Object.fromEntries(mapped.map(key => [key, (row[mapping[key] as string] ?? '').trim()])),
+            schema
+        )
+    );
+}
+
+/**
+ * An imported record applied to the employee it updates, or made into a new
+ * employee. Fields the record leaves out, custom ones included, are kept,
+ * except a dotted line to a new manager the record gives, which becomes the
+ * solid line as it does on a move.
+ */
+export function applyImportedEmployee(current: Employee | undefined, imported: ImportedEmployee): Employee {
+    if (!current) {
+        return { name: '', designation: '', team: '', managerId: '', ...imported };
+    }
+    const updated = imported.customFields
+        ? { ...current, ...imported, customFields: { ...current.customFields, ...imported.customFields } }
+        : { ...current, ...imported };
+    return imported.managerId && !imported.secondaryManagerIds ? withManager(updated, imported.managerId) : updated;
+}
+
+/**
+ * The org after an import: records with a known id update the existing
+ * employee, the rest are added. Fields files do not carry are kept.
+ */
+export function mergeImport(existing: Employee[], imported: ImportedEmployee[]): Employee[] {
+    const importedById = new Map(imported.map(emp => [emp.id, emp]));
+    const merged = existing.map(emp => {
+        const update = importedById.get(emp.id);
+        return update ? applyImportedEmployee(emp, update) : emp;
+    });
+    const existingIds = new Set(existing.map(emp => emp.id));
+    const added = imported
+        .filter(emp => !existingIds.has(emp.id))
+        .map(emp => applyImportedEmployee(undefined, emp));
+    return [...merged, ...added];
+}
+
+const formatRows = (rows: number[]) =>
+    rows.length === 1 ? `Row ${rows[0]}` : `Rows ${rows.slice(0, 5).join(', ')}${rows.length > 5 ? ` and ${rows.length - 5} more` : ''}`;
+
+/**
+ * Problems that would stop `imported` from being merged into `existing`:
+ * records without an id or name, ids repeated within the file, details or
+ * custom field values that break `fields`, managers that exist in neither,
+ * dotted lines that are not allowed once merged, and reporting cycles the
+ * import would create.
+ */
+export function validateImport(
+    existing: Employee[],
+    imported: ImportedEmployee[],
+    fields: CustomFieldDefinition[] = []
+): ImportIssue[] {
+    const issues: ImportIssue[] = [];
+    const existingById = new Map(existing.map(emp => [emp.id, emp]));
+    const existingIds = new Set(existingById.keys());
+    const rowsById = new Map<string, number[]>();
+    const missingIds: number[] = [];
+    const missingNames: number[] = [];
+    const unnamedIds: string[] = [];
+
+    imported.forEach((emp, index) => {
+        const row = index + 1;
+        if (!emp.id) {
+            missingIds.push(row);
+        } else {
+            rowsById.set(emp.id, [...(rowsById.get(emp.id) || []), row]);
+        }
+        // Updates from a file without names keep the name the employee has
+        if (emp.name === '' || (emp.name === undefined && !existingIds.has(emp.id))) {
+            missingNames.push(row);
+            if (emp.id) unnamedIds.push(emp.id);
+        }
+    });
+
+    if (missingIds.length > 0) {
+        issues.push({
+            type: 'MISSING_ID',
+            message: `${formatRows(missingIds)} ${missingIds.length === 1 ? 'has' : 'have'} no id`,
+            ids: [],
+            rows: missingIds,
+        });
+    }
+    if (missingNames.length > 0) {
+        issues.push({
+            type: 'MISSING_NAME',
+            message: `${formatRows(missingNames)} ${missingNames.length === 1 ? 'has' : 'have'} no name`,
+            ids: unnamedIds,
+            rows: missingNames,
+        });
+    }
+    rowsById.forEach((rows, id) => {
+        if (rows.length > 1) {
+            issues.push({
+                type: 'DUPLICATE_ID',
+                message: `${formatRows(rows)} share the id ${id}`,
+                ids: [id],
+                rows,
+            });
+        }
+    });
+
+    // Updates are checked as merged, so custom fields a file leaves out keep their values
+    imported.forEach((emp, index) => {
+        const current = existingById.get(emp.id);
+        const record = applyImportedEmployee(current, emp);
+        const problem = validateEmployeeDetails(emp)
+            ?? (!current || 'customFields' in emp
+                ? validateCustomFields(record.customFields, fields, Boolean(record.vacancy))
+                : null);
+        if (problem) {
+            issues.push({
+                type: 'INVALID_DETAILS',
+                message: `${formatRows([index + 1])}: ${problem}`,
+                ids: emp.id ? [emp.id] : [],
+                rows: [index + 1],
+            });
+        }
+    });
+
+    const knownIds = new Set([...existingIds, ...rowsById.keys()]);
+    const rowsByUnknownManager = new Map<string, number[]>();
+    imported.forEach((emp, index) => {
+        if (emp.managerId && !knownIds.has(emp.managerId)) {
+            rowsByUnknownManager.set(emp.managerId, [...(rowsByUnknownManager.get(emp.managerId) || []), index + 1]);
+        }
+    });
+    rowsByUnknownManager.forEach((rows, managerId) => {
+        issues.push({
+            type: 'UNKNOWN_MANAGER',
+            message: `${formatRows(rows)} ${rows.length === 1 ? 'reports' : 'report'} to ${managerId}, who is not in the file or the current org`,
+            ids: [managerId],
+            rows,
+        });
+    });
+
+    const merged = mergeImport(existing, imported.filter(emp => emp.id));
+    const mergedById = new Map(merged.map(emp => [emp.id, emp]));
+    imported.forEach((emp, index) => {
+        const record = mergedById.get(emp.id);
+        if (!record || !emp.secondaryManagerIds) return;
+        const error = validateSecondaryManagers(merged, emp.id, emp.secondaryManagerIds, record.managerId);
+        if (error) {
+            issues.push({
+                type: 'INVALID_SECONDARY_MANAGER',
+                message: `${formatRows([index + 1])}: ${error.message}`,
+                ids: error.ids,
+                rows: [index + 1],
+            });
+        }
+    });
+
+    // Only cycles that involve an imported record are the import's doing
+    validateHierarchy(merged)
+        .filter(issue => issue.type === 'CYCLE' && issue.ids.some(id => rowsById.has(id)))
+        .forEach(issue => {
+            issues.push({
+                type: 'CYCLE',
+                message: issue.message,
+                ids: issue.ids,
+                rows: issue.ids.flatMap(id => rowsById.get(id) || []),
+            });
+        });
+
+    return issues;
+}
@@ -0,0 +1,208 @@
+import { EmployeeServiceError } from './apiErrors';
+import { EmployeeService } from './employeeService';
+import {
+    getDescendantIds,
+    removeSecondaryManager,
+    validateBatchReassignment,
+    validateReassignment,
+    validateSecondaryManagers,
+    withManager,
+} from './hierarchy';
+import { IMPORT_ISSUE_ERROR_CODE, mergeImport, validateImport } from './importEmployees';
+import { diffEmployees } from './changeFeed';
+import {
+    getEmployeeHistory,
+    getOrgAsOf,
+    parseAsOf,
+    sortEvents,
+    toEmployeeEvents,
+    validateEffectiveAt,
+} from './orgHistory';
+import { validateCustomFields, validateEmployeeDetails, validateFieldSchema } from './employeeFields';
+import { fillVacancy, validateFill } from './vacancies';
+import { ChangeOptions, CustomFieldDefinition, Employee, EmployeeEvent, NewEmployee } from './types';
+
+function notFound(id: string) {
+    return new EmployeeServiceError('EMPLOYEE_NOT_FOUND', `Employee ${id} does not exist`, [id]);
+}
+
+function managerNotFound(id: string) {
+    return new EmployeeServiceError('MANAGER_NOT_FOUND', `Manager ${id} does not exist`, [id]);
+}
+
+function invalidDate(value: string) {
+    return new EmployeeServiceError('INVALID_DATE', `${value} is not a valid date`);
+}
+
+const copy = <T>(value: T): T => structuredClone(value);
+
+// Changes take effect now unless the caller dates them
+function effectiveDate({ effectiveAt }: ChangeOptions = {}): string {
+    if (effectiveAt === undefined) return new Date().toISOString();
+    const date = parseAsOf(effectiveAt);
+    if (!date) throw invalidDate(effectiveAt);
+    return date;
+}
+
+/**
+ * Keeps the org and its history in memory and enforces the same rules as the API, so tests
+ * and demos can run without a server. Records are copied on the way in and
+ * out so callers cannot change the stored org by accident.
+ */
+export function createInMemoryEmployeeService(
+    seed: Employee[] = [],
+    fieldSchema: CustomFieldDefinition[] = []
+): EmployeeService {
+    let employees = seed.map(copy);
+    let fields = structuredClone(fieldSchema);
+    let nextId = employees.reduce((max, emp) => Math.max(max, Number(emp.id) || 0), 0) + 1;
+    // The seed counts as created when the service is
+    const events: EmployeeEvent[] = toEmployeeEvents(
+        diffEmployees([], employees),
+        new Date().toISOString()
+    );
+
+    // Every change goes through here so it is recorded in the history
+    const commit = (next: Employee[], effectiveAt: string) => {
+        const changes = diffEmployees(employees, next);
+        const error = validateEffectiveAt(
+            events,
+            changes.map(change => (change.type === 'deleted' ? change.id : change.employee.id)),
+            effectiveAt
+        );
+        if (error) throw EmployeeServiceError.fromApiError(error);
+        events.push(...toEmployeeEvents(changes, effectiveAt));
+        employees = next;
+    };
+
+    const checkDetails = (attrs: Partial<NewEmployee>, current: Employee | null) => {
+        const isVacancy = Boolean(attrs.vacancy ?? current?.vacancy);
+        const problem = validateEmployeeDetails(attrs)
+            ?? (!current || 'customFields' in attrs ? validateCustomFields(attrs.customFields, fields, isVacancy) : null);
+        if (problem) throw new EmployeeServiceError('INVALID_EMPLOYEE', problem);
+    };
+
+    const nextEmployeeId = () => {
+        while (employees.some(emp => emp.id === String(nextId))) nextId++;
+        return String(nextId++);
+    };
+
+    const find = (id: string) => {
+        const employee = employees.find(emp => emp.id === id);
+        if (!employee) throw notFound(id);
+        return employee;
+    };
+
+    return {
+        async list() {
+            return employees.map(copy);
+        },
+        async get(id) {
+            return copy(find(id));
+        },
+        async update(id, attrs, options) {
+            const effectiveAt = effectiveDate(options);
+            const current = find(id);
+            checkDetails(attrs, current);
+            if ('managerId' in attrs) {
+                const error = validateReassignment(employees, id, attrs.managerId ?? '');
+                if (error) throw EmployeeServiceError.fromApiError(error);
+            }
+            let updated: Employee = { ...current, ...copy(attrs), id };
+            if ('secondaryManagerIds' in attrs) {
+                const error = validateSecondaryManagers(
+                    employees, id, updated.secondaryManagerIds ?? [], updated.managerId
+                );
+                if (error) throw EmployeeServiceError.fromApiError(error);
+            } else if ('managerId' in attrs) {
+                updated = withManager(updated, updated.managerId);
+            }
+            commit(employees.map(emp => (emp.id === id ? updated : emp)), effectiveAt);
+            return copy(find(id));
+        },
+        async create(attrs, options) {
+            const effectiveAt = effectiveDate(options);
+            if (!attrs.name?.trim()) {
+                throw new EmployeeServiceError('INVALID_EMPLOYEE', 'Name is required');
+            }
+            checkDetails(attrs, null);
+            if (attrs.managerId && !employees.some(emp => emp.id === attrs.managerId)) {
+                throw managerNotFound(attrs.managerId);
+            }
+            const employee = { ...copy(attrs), id: nextEmployeeId() };
+            commit([...employees, employee], effectiveAt);
+            return copy(employee);
+        },
+        async delete(id, reassignTo, options) {
+            const effectiveAt = effectiveDate(options);
+            find(id);
+            if (reassignTo) {
+                if (!employees.some(emp => emp.id === reassignTo)) throw managerNotFound(reassignTo);
+                if (reassignTo === id || getDescendantIds(employees, id).has(reassignTo)) {
+                    throw new EmployeeServiceError(
+                        'CYCLE',
+                        'Reports cannot move under the employee being removed or their own subtree',
+                        [id, reassignTo]
+                    );
+                }
+            }
+            commit(
+                removeSecondaryManager(employees.filter(emp => emp.id !== id), id)
+                    .map(emp => (emp.managerId === id ? withManager(emp, reassignTo) : emp)),
+                effectiveAt
+            );
+        },
+        async batch(moves, options) {
+            const effectiveAt = effectiveDate(options);
+            const error = validateBatchReassignment(employees, moves);
+            if (error) throw EmployeeServiceError.fromApiError(error);
+            const managerById = new Map(moves.map(move => [move.employeeId, move.managerId]));
+            commit(employees.map(emp =>
+                managerById.has(emp.id) ? withManager(emp, managerById.get(emp.id) as string) : emp
+            ), effectiveAt);
+            return employees.filter(emp => managerById.has(emp.id)).map(copy);
+        },
+        async importEmployees(imported, options) {
+            const effectiveAt = effectiveDate(options);
+            const [issue] = validateImport(employees, imported, fields);
+            if (issue) {
+                throw new EmployeeServiceError(IMPORT_ISSUE_ERROR_CODE[issue.type], issue.message, issue.ids);
+            }
+            commit(mergeImport(employees, imported.map(copy)), effectiveAt);
+            return employees.map(copy);
+        },
+        async fillVacancy(vacancyId, filler, options) {
+            const effectiveAt = effectiveDate(options);
+            const error = validateFill(employees, vacancyId, filler);
+            if (error) throw EmployeeServiceError.fromApiError(error);
+            if (!('employeeId' in filler)) checkDetails(filler.employee, null);
+            const person = 'employeeId' in filler
+                ? find(filler.employeeId)
+                : { ...copy(filler.employee), id: nextEmployeeId() };
+            commit(fillVacancy(employees, vacancyId, person), effectiveAt);
+            return employees.map(copy);
+        },
+        async listAsOf(asOf) {
+            const date = parseAsOf(asOf);
+            if (!date) throw invalidDate(asOf);
+            return getOrgAsOf(events, date);
+        },
+        async events() {
+            return sortEvents(events).map(copy);
+        },
+        async history(id) {
+            const found = getEmployeeHistory(events, id);
+            if (found.length === 0) throw notFound(id);
+            return found.map(copy);
+        },
+        async getFieldSchema() {
+            return structuredClone(fields);
+        },
+        async saveFieldSchema(next) {
+            const problem = validateFieldSchema(next);
+            if (problem) throw new EmployeeServiceError('INVALID_FIELD_SCHEMA', problem);
+            fields = structuredClone(next);
+            return structuredClone(fields);
+        },
+    };
+}
@@ -1,9 +1,186 @@
-import { createServer, Model } from 'miragejs';
+import { createServer, Model, Response } from 'miragejs';
+import {
+  ApiError,
+  ApiErrorCode,
+  ChangeOptions,
+  CustomFieldDefinition,
+  Employee,
+  EmployeeEvent,
+  ImportedEmployee,
+  Reassignment,
+  Scenario,
+  ScenarioSummary,
+  VacancyFiller,
+} from './types';
+import {
+  getDescendantIds,
+  removeSecondaryManager,
+  validateBatchReassignment,
+  validateReassignment,
+  validateSecondaryManagers,
+  withManager,
+} from './hierarchy';
+import { IMPORT_ISSUE_ERROR_CODE, applyImportedEmployee, validateImport } from './importEmployees';
+import { EmployeeService, createHttpEmployeeService } from './employeeService';
+import { EmployeeChange, diffEmployees, formatEventStream, toStreamEvent } from './changeFeed';
+import { validateCustomFields, validateEmployeeDetails, validateFieldSchema } from './employeeFields';
+import {
+  getEmployeeHistory,
+  getOrgAsOf,
+  parseAsOf,
+  sortEvents,
+  toEmployeeEvents,
+  validateEffectiveAt,
+} from './orgHistory';
+import { countScenarioChanges, diffScenario, getScenarioChanges, validateScenarioPublish } from './scenarios';
+import { VACANCY_NAME, fillVacancy, validateFill } from './vacancies';
+
+const ERROR_STATUS: Record<ApiErrorCode, number> = {
+  EMPLOYEE_NOT_FOUND: 404,
+  MANAGER_NOT_FOUND: 422,
+  SELF_REFERENCE: 422,
+  INVALID_EMPLOYEE: 422,
+  CYCLE: 409,
+  SCENARIO_NOT_FOUND: 404,
+  INVALID_SCENARIO: 422,
+  CONFLICT: 409,
+  INVALID_DATE: 422,
+  INVALID_FIELD_SCHEMA: 422,
+};
+
+function errorResponse(error: ApiError) {
+  return new Response(ERROR_STATUS[error.code], {}, { error });
+}
+
+function employeeNotFound(id: string) {
+  return errorResponse({
+    code: 'EMPLOYEE_NOT_FOUND',
+    message: `Employee ${id} does not exist`,
+    ids: [id],
+  });
+}
+
+function scenarioNotFound(id: string) {
+  return errorResponse({
+    code: 'SCENARIO_NOT_FOUND',
+    message: `Scenario ${id} does not exist`,
+    ids: [id],
+  });
+}
+
+function invalidScenario(message: string) {
+  return errorResponse({ code: 'INVALID_SCENARIO', message, ids: [] });
+}
+
+const toSummary = (scenario: Scenario): ScenarioSummary => ({
+  id: scenario.id,
+  name: scenario.name,
+  updatedAt: scenario.updatedAt,
+  changeCount: countScenarioChanges(diffScenario(scenario.baseEmployees, scenario.employees)),
+});
+
+const SEED_FIELDS: CustomFieldDefinition[] = [
+  { key: 'costCenter', label: 'Cost center', type: 'text', required: false },
+  { key: 'remote', label: 'Remote', type: 'boolean', required: false },
+  {
+    key: 'clearance',
+    label: 'Security clearance',
+    type: 'enum',
+    required: false,
+    options: ['Confidential', 'Secret'],
+  },
+];
+
+// Checks the optional fields of a new record, or of the fields an update sends
+function invalidDetails(attrs: Partial<Employee>, fields: CustomFieldDefinition[], current: Employee | null) {
+  const isVacancy = Boolean(attrs.vacancy ?? current?.vacancy);
+  const problem = validateEmployeeDetails(attrs)
+    ?? (!current || 'customFields' in attrs ? validateCustomFields(attrs.customFields, fields, isVacancy) : null);
+  return problem ? errorResponse({ code: 'INVALID_EMPLOYEE', message: problem, ids: [] }) : null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Backdated changes explaining how the seeded org came about, so the timeline
+// has something to show. The open positions were opened in the last few
+// months; everyone else has been there since the founding.
+const SEED_HISTORY = {
+  foundedDaysAgo: 720,
+  hiredDaysAgo: { '6': 400, '10': 150, '11': 60, '12': 21 } as Record<string, number>,
+  moves: [
+    { employeeId: '7', fromManagerId: '2', daysAgo: 300 },
+    { employeeId: '10', fromManagerId: '3', daysAgo: 90 },
+  ],
+};
+
+function createSeedHistory(employees: Employee[], now: number): EmployeeEvent[] {
+  const daysAgo = (days: number) => new Date(now - days * DAY_MS).toISOString();
+  const events = employees.flatMap((employee): EmployeeEvent[] => {
+    const move = SEED_HISTORY.moves.find((m) => m.employeeId === employee.id);
+    const hired: EmployeeEvent = {
+      employeeId: employee.id,
+      type: 'created',
+      employee: { ...employee, managerId: move ? move.fromManagerId : employee.managerId },
+      effectiveAt: daysAgo(SEED_HISTORY.hiredDaysAgo[employee.id] ?? SEED_HISTORY.foundedDaysAgo),
+    };
+    return move
+      ? [hired, { employeeId: employee.id, type: 'updated', employee: { ...employee }, effectiveAt: daysAgo(move.daysAgo) }]
+      : [hired];
+  });
+  return sortEvents(events);
+}
+
+function invalidDate(value: string) {
+  return errorResponse({ code: 'INVALID_DATE', message: `${value} is not a valid date`, ids: [] });
+}
+
+// Changes take effect now unless the request dates them; null for a date that does not parse
+function effectiveDate(value: unknown): string | null {
+  if (value === undefined) return new Date().toISOString();
+  return typeof value === 'string' ? parseAsOf(value) : null;
+}
+
+// Each tab runs its own mock server; they stay in step by relaying changes over this channel
+const CHANGE_CHANNEL = 'org-chart-employee-changes';
+
+type RelayMessage =
+  | { type: 'changes'; changes: EmployeeChange[]; effectiveAt: string }
+  | { type: 'hello' }
+  | { type: 'snapshot'; employees: Employee[]; events: EmployeeEvent[] };
+
+type MakeServerOptions = {
+  /** Mirage's `test` environment skips the seeds and the response delay. */
+  environment?: 'development' | 'test';
+};
+
+export function makeServer({ environment = 'development' }: MakeServerOptions = {}) {
+  const changeLog: EmployeeChange[] = [];
+  // Every change ever made, kept alongside the current records so past states can be rebuilt
+  const history: EmployeeEvent[] = [];
+  let fieldSchema = structuredClone(SEED_FIELDS);
+  const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANGE_CHANNEL);
+
+  // Changes made through this tab's routes are relayed; relayed ones are only logged
+  const record = (changes: EmployeeChange[], relay = true, effectiveAt = new Date().toISOString()) => {
+    changeLog.push(...changes);
+    history.push(...toEmployeeEvents(changes, effectiveAt));
+    if (relay && changes.length > 0) {
+      channel?.postMessage({ type: 'changes', changes, effectiveAt } satisfies RelayMessage);
+    }
+  };
+
+  // Run once the rest of a request checks out, with every employee the change touches
+  const outOfOrder = (employeeIds: Iterable<string>, effectiveAt: string) => {
+    const error = validateEffectiveAt(history, employeeIds, effectiveAt);
+    return error ? errorResponse(error) : null;
+  };
+
+  const server = createServer({
+    environment,
 
-export function makeServer() {
-  return createServer({
     models: {
       employee: Model,
+      scenario: Model,
     },
 
     seeds(server) {
@@ -12,7 +189,13 @@ export function makeServer() {
           name: 'Mark Hill', 
           designation: 'Chief Executive Officer',
           team: 'Executive',
-          managerId: null
+          managerId: null,
+          email: 'mark.hill@example.com',
+          location: 'New York',
+          startDate: '2015-03-02',
+          employmentType: 'fte',
+          jobLevel: 'E9',
+          customFields: { costCenter: 'CC-100', remote: false, clearance: 'Secret' }
       });
 
       server.create('employee', { 
@@ -20,7 +203,13 @@ export function makeServer() {
           name: 'Joe Linux', 
           designation: 'Chief Technology Officer',
           team: 'Technology',
-          managerId: '1'
+          managerId: '1',
+          email: 'joe.linux@example.com',
+          location: 'San Francisco',
+          startDate: '2016-07-18',
+          employmentType: 'fte',
+          jobLevel: 'E8',
+          customFields: { costCenter: 'CC-200', remote: true, clearance: 'Confidential' }
       });
       
       server.create('employee', { 
@@ -28,7 +217,13 @@ export function makeServer() {
           name: 'Linda May', 
           designation: 'Chief Business Officer',
           team: 'Business',
-          managerId: '1'
+          managerId: '1',
+          email: 'linda.may@example.com',
+          location: 'New York',
+          startDate: '2017-01-09',
+          employmentType: 'fte',
+          jobLevel: 'E8',
+          customFields: { costCenter: 'CC-300', remote: false }
       });
       
       server.create('employee', { 
@@ -36,7 +231,13 @@ export function makeServer() {
           name: 'John Green', 
           designation: 'Chief Financial Officer',
           team: 'Finance',
-          managerId: '1'
+          managerId: '1',
+          email: 'john.green@example.com',
+          location: 'London',
+          startDate: '2016-11-14',
+          employmentType: 'fte',
+          jobLevel: 'E8',
+          customFields: { costCenter: 'CC-400', remote: false, clearance: 'Confidential' }
       });
       
       server.create('employee', { 
@@ -44,7 +245,14 @@ export function makeServer() {
           name: 'Ron Blomquist', 
           designation: 'VP of Engineering',
           team: 'Technology',
-          managerId: '2'
+          managerId: '2',
+          secondaryManagerIds: ['6'],
+          email: 'ron.blomquist@example.com',
+          location: 'San Francisco',
+          startDate: '2018-05-21',
+          employmentType: 'fte',
+          jobLevel: 'E7',
+          customFields: { costCenter: 'CC-210', remote: true }
       });
       
       server.create('employee', { 
@@ -52,7 +260,13 @@ export function makeServer() {
           name: 'Michael Rubin', 
           designation: 'VP of Product',
           team: 'Technology',
-          managerId: '2'
+          managerId: '2',
+          email: 'michael.rubin@example.com',
+          location: 'Remote',
+          startDate: '2019-09-03',
+          employmentType: 'contractor',
+          jobLevel: 'E7',
+          customFields: { costCenter: 'CC-220', remote: true }
       });
       
       server.create('employee', { 
@@ -60,7 +274,14 @@ export function makeServer() {
           name: 'Alice Lopez', 
           designation: 'VP of Marketing',
           team: 'Business',
-          managerId: '3'
+          managerId: '3',
+          secondaryManagerIds: ['6'],
+          email: 'alice.lopez@example.com',
+          location: 'New York',
+          startDate: '2019-02-11',
+          employmentType: 'fte',
+          jobLevel: 'E7',
+          customFields: { costCenter: 'CC-310', remote: false }
       });
       
       server.create('employee', { 
@@ -68,7 +289,13 @@ export function makeServer() {
           name: 'Mary Johnson', 
           designation: 'VP of Sales',
           team: 'Business',
-          managerId: '3'
+          managerId: '3',
+          email: 'mary.johnson@example.com',
+          location: 'Chicago',
+          startDate: '2020-06-15',
+          employmentType: 'fte',
+          jobLevel: 'E7',
+          customFields: { costCenter: 'CC-320', remote: false }
       });
       
       server.create('employee', { 
@@ -76,7 +303,13 @@ export function makeServer() {
           name: 'Kirk Douglas', 
           designation: 'VP of Accounting',
           team: 'Finance',
-          managerId: '4'
+          managerId: '4',
+          email: 'kirk.douglas@example.com',
+          location: 'London',
+          startDate: '2020-10-05',
+          employmentType: 'fte',
+          jobLevel: 'E6',
+          customFields: { costCenter: 'CC-410', remote: false }
       });
       
       server.create('employee', { 
@@ -84,12 +317,44 @@ export function makeServer() {
           name: 'Erica Reel', 
           designation: 'VP of Operations',
           team: 'Finance',
-          managerId: '4'
+          managerId: '4',
+          email: 'erica.reel@example.com',
+          location: 'London',
+          startDate: '2023-05-22',
+          employmentType: 'intern',
+          jobLevel: 'E3',
+          customFields: { costCenter: 'CC-420', remote: true }
+      });
+
+      server.create('employee', {
+          id: '11',
+          name: VACANCY_NAME,
+          designation: 'Senior Product Designer',
+          team: 'Technology',
+          managerId: '6',
+          location: 'San Francisco',
+          vacancy: { requisitionId: 'REQ-1042', targetStartDate: '2026-01-12' }
+      });
+
+      server.create('employee', {
+          id: '12',
+          name: VACANCY_NAME,
+          designation: 'Financial Analyst',
+          team: 'Finance',
+          managerId: '9',
+          location: 'London',
+          vacancy: { requisitionId: 'REQ-1057' }
       });
     },
 
     routes() {
-      this.get('/api/employees', (schema) => {
+      // With `asOf` the org is rebuilt from its history as it stood at that date
+      this.get('/api/employees', (schema, request) => {
+        const { asOf } = request.queryParams;
+        if (typeof asOf === 'string') {
+          const date = parseAsOf(asOf);
+          return date ? { employees: getOrgAsOf(history, date) } : invalidDate(asOf);
+        }
         return new Promise((resolve) => {
           setTimeout(() => {
             resolve(schema.all('employee'));
@@ -97,16 +362,454 @@ export function makeServer() {
         });
       });
 
+      // Event stream of changes after the `since` event id. Without `since` it
+      // only reports the current position for the client to follow from.
+      this.get('/api/employees/changes', (_schema, request) => {
+        const { since } = request.queryParams;
+        const start = Math.min(Number(since) || 0, changeLog.length);
+        const events = since === undefined
+          ? [{ id: String(changeLog.length), event: 'message', data: '' }]
+          : changeLog.slice(start).map((change, index) => toStreamEvent(change, String(start + index + 1)));
+        return new Response(200, { 'Content-Type': 'text/event-stream' }, formatEventStream(events));
+      }, { timing: 0 });
+
+      this.get('/api/employees/history', () => ({ events: sortEvents(history) }));
+
+      this.get('/api/employees/:id/history', (_schema, request) => {
+        const id = request.params.id;
+        const events = getEmployeeHistory(history, id);
+        return events.length > 0 ? { events } : employeeNotFound(id);
+      });
+
+      this.get('/api/employees/:id', (schema, request) => {
+        const id = request.params.id;
+        return schema.find('employee', id) ?? employeeNotFound(id);
+      });
+
       this.patch('/api/employees/:id', (schema, request) => {
         const id = request.params.id;
-        const attrs = JSON.parse(request.requestBody);
+        const { effectiveAt: date, ...attrs } = JSON.parse(request.requestBody);
         const employee = schema.find('employee', id);
-        if (employee) {
-          employee.update(attrs);
-          return employee;
+        if (!employee) {
+          return employeeNotFound(id);
+        }
+        const effectiveAt = effectiveDate(date);
+        if (!effectiveAt) {
+          return invalidDate(String(date));
+        }
+        delete attrs.id;
+        const invalid = invalidDetails(attrs, fieldSchema, employee.attrs as Employee);
+        if (invalid) {
+          return invalid;
+        }
+        if ('managerId' in attrs) {
+          const error = validateReassignment(schema.db.employees as Employee[], id, attrs.managerId);
+          if (error) {
+            return errorResponse(error);
+          }
+        }
+        const updated = { ...(employee.attrs as Employee), ...attrs };
+        if ('secondaryManagerIds' in attrs) {
+          const error = validateSecondaryManagers(
+            schema.db.employees as Employee[],
+            id,
+            updated.secondaryManagerIds ?? [],
+            updated.managerId
+          );
+          if (error) {
+            return errorResponse(error);
+          }
+        } else if ('managerId' in attrs) {
+          attrs.secondaryManagerIds = withManager(updated, updated.managerId ?? '').secondaryManagerIds;
+        }
+        const early = outOfOrder([id], effectiveAt);
+        if (early) {
+          return early;
+        }
+        employee.update(attrs);
+        record([{ type: 'updated', employee: employee.attrs as Employee }], true, effectiveAt);
+        return employee;
+      });
+
+      // Applies every move or none of them
+      this.post('/api/employees/batch', (schema, request) => {
+        const { moves = [], effectiveAt: date } = JSON.parse(request.requestBody) as
+          { moves?: Reassignment[] } & ChangeOptions;
+        const effectiveAt = effectiveDate(date);
+        if (!effectiveAt) {
+          return invalidDate(String(date));
+        }
+        const error = validateBatchReassignment(schema.db.employees as Employee[], moves);
+        if (error) {
+          return errorResponse(error);
         }
-        return null;
+        const early = outOfOrder(moves.map((move) => move.employeeId), effectiveAt);
+        if (early) {
+          return early;
+        }
+        moves.forEach((move) => {
+          const { secondaryManagerIds } = withManager(schema.db.employees.find(move.employeeId), move.managerId);
+          schema.db.employees.update(move.employeeId, { managerId: move.managerId, secondaryManagerIds });
+        });
+        record(
+          moves.map((move) => ({ type: 'updated', employee: schema.db.employees.find(move.employeeId) })),
+          true,
+          effectiveAt
+        );
+        return schema.find('employee', moves.map((move) => move.employeeId));
+      });
+
+      // Upserts every imported record by id, or rejects the whole file
+      this.post('/api/employees/import', (schema, request) => {
+        const { employees = [], effectiveAt: date } = JSON.parse(request.requestBody) as
+          { employees?: ImportedEmployee[] } & ChangeOptions;
+        const effectiveAt = effectiveDate(date);
+        if (!effectiveAt) {
+          return invalidDate(String(date));
+        }
+        const [issue] = validateImport(schema.db.employees as Employee[], employees, fieldSchema);
+        if (issue) {
+          return errorResponse({
+            code: IMPORT_ISSUE_ERROR_CODE[issue.type],
+            message: issue.message,
+            ids: issue.ids,
+          });
+        }
+        const early = outOfOrder(employees.map((employee) => employee.id), effectiveAt);
+        if (early) {
+          return early;
+        }
+        // Fields a record leaves out are kept on updates and empty on new employees
+        const changes: EmployeeChange[] = employees.map((employee) => {
+          const current = schema.db.employees.find(employee.id) as Employee | null;
+          if (current) {
+            schema.db.employees.update(employee.id, applyImportedEmployee(current, employee));
+            return { type: 'updated', employee: schema.db.employees.find(employee.id) };
+          }
+          schema.create('employee', applyImportedEmployee(undefined, employee));
+          return { type: 'created', employee: schema.db.employees.find(employee.id) };
+        });
+        record(changes, true, effectiveAt);
+        return schema.all('employee');
+      });
+
+      this.post('/api/employees', (schema, request) => {
+        const { effectiveAt: date, ...attrs } = JSON.parse(request.requestBody);
+        const effectiveAt = effectiveDate(date);
+        if (!effectiveAt) {
+          return invalidDate(String(date));
+        }
+        if (!attrs.name?.trim()) {
+          return errorResponse({
+            code: 'INVALID_EMPLOYEE',
+            message: 'Name is required',
+            ids: [],
+          });
+        }
+        const invalid = invalidDetails(attrs, fieldSchema, null);
+        if (invalid) {
+          return invalid;
+        }
+        if (attrs.managerId && !schema.find('employee', attrs.managerId)) {
+          return errorResponse({
+            code: 'MANAGER_NOT_FOUND',
+            message: `Manager ${attrs.managerId} does not exist`,
+            ids: [attrs.managerId],
+          });
+        }
+        const early = outOfOrder([], effectiveAt);
+        if (early) {
+          return early;
+        }
+        const employee = schema.create('employee', attrs);
+        record([{ type: 'created', employee: employee.attrs as Employee }], true, effectiveAt);
+        return employee;
+      });
+
+      // The person moves into the position's place, or is hired into it, and the position goes away
+      this.post('/api/employees/:id/fill', (schema, request) => {
+        const id = request.params.id;
+        const { effectiveAt: date, ...filler } = JSON.parse(request.requestBody) as VacancyFiller & ChangeOptions;
+        const effectiveAt = effectiveDate(date);
+        if (!effectiveAt) {
+          return invalidDate(String(date));
+        }
+        // The db's list overrides `find` to look up by id, so hand on a plain array
+        const before = [...(schema.db.employees as Employee[])];
+        const error = validateFill(before, id, filler);
+        if (error) {
+          return errorResponse(error);
+        }
+        // The position, whoever fills it, and everyone reporting to it change
+        const touched = before.filter((emp) =>
+          emp.id === id ||
+          ('employeeId' in filler && emp.id === filler.employeeId) ||
+          emp.managerId === id ||
+          emp.secondaryManagerIds?.includes(id)
+        );
+        const early = outOfOrder(touched.map((emp) => emp.id), effectiveAt);
+        if (early) {
+          return early;
+        }
+        let person: Employee;
+        if ('employeeId' in filler) {
+          person = schema.db.employees.find(filler.employeeId);
+        } else {
+          const invalid = invalidDetails(filler.employee, fieldSchema, null);
+          if (invalid) {
+            return invalid;
+          }
+          person = { ...filler.employee, id: schema.db.employees.insert({ name: filler.employee.name }).id };
+        }
+        const changes = diffEmployees(before, fillVacancy(before, id, person));
+        changes.forEach((change) => {
+          if (change.type === 'deleted') {
+            schema.db.employees.remove(change.id);
+          } else {
+            schema.db.employees.update(change.employee.id, {
+              ...change.employee,
+              managerId: change.employee.managerId || null,
+            });
+          }
+        });
+        record(changes.map((change) =>
+          change.type === 'deleted' ? change : { type: change.type, employee: schema.db.employees.find(change.employee.id) }
+        ), true, effectiveAt);
+        return schema.all('employee');
+      });
+
+      this.delete('/api/employees/:id', (schema, request) => {
+        const id = request.params.id;
+        const employee = schema.find('employee', id);
+        if (!employee) {
+          return employeeNotFound(id);
+        }
+        const effectiveAt = effectiveDate(request.queryParams.effectiveAt);
+        if (!effectiveAt) {
+          return invalidDate(String(request.queryParams.effectiveAt));
+        }
+        // Reports move to the manager chosen by the client (empty for top level),
+        // or to the removed employee's own manager when no choice was sent.
+        const reassignTo = 'reassignTo' in request.queryParams
+          ? (request.queryParams.reassignTo as string) || null
+          : (employee.attrs as Employee).managerId ?? null;
+        if (reassignTo) {
+          const employees = schema.db.employees as Employee[];
+          if (!schema.find('employee', reassignTo)) {
+            return errorResponse({
+              code: 'MANAGER_NOT_FOUND',
+              message: `Manager ${reassignTo} does not exist`,
+              ids: [reassignTo],
+            });
+          }
+          if (reassignTo === id || getDescendantIds(employees, id).has(reassignTo)) {
+            return errorResponse({
+              code: 'CYCLE',
+              message: 'Reports cannot move under the employee being removed or their own subtree',
+              ids: [id, reassignTo],
+            });
+          }
+        }
+        const touched = (schema.db.employees as Employee[]).filter((emp) =>
+          emp.id === id || emp.managerId === id || emp.secondaryManagerIds?.includes(id)
+        );
+        const early = outOfOrder(touched.map((emp) => emp.id), effectiveAt);
+        if (early) {
+          return early;
+        }
+        employee.destroy();
+        // Reports move to the new manager and dotted lines to the removed employee go away
+        const before = schema.db.employees as Employee[];
+        const after = removeSecondaryManager(before, id)
+          .map((emp) => (emp.managerId === id ? withManager(emp, reassignTo ?? '') : emp));
+        const changed = diffEmployees(before, after);
+        changed.forEach((change) => {
+          if (change.type === 'updated') {
+            const { managerId, secondaryManagerIds } = change.employee;
+            schema.db.employees.update(change.employee.id, {
+              managerId: managerId === '' ? null : managerId,
+              secondaryManagerIds,
+            });
+          }
+        });
+        record([
+          ...changed.map((change): EmployeeChange =>
+            change.type === 'updated'
+              ? { type: 'updated', employee: schema.db.employees.find(change.employee.id) }
+              : change
+          ),
+          { type: 'deleted', id },
+        ], true, effectiveAt);
+        return new Response(204);
+      });
+
+      this.get('/api/employee-fields', () => ({ fields: fieldSchema }));
+
+      // Replaces every definition; values already stored are left as they are
+      this.put('/api/employee-fields', (_schema, request) => {
+        const { fields = [] } = JSON.parse(request.requestBody) as { fields?: CustomFieldDefinition[] };
+        const problem = validateFieldSchema(fields);
+        if (problem) {
+          return errorResponse({ code: 'INVALID_FIELD_SCHEMA', message: problem, ids: [] });
+        }
+        fieldSchema = fields;
+        return { fields: fieldSchema };
+      });
+
+      // Scenarios are drafts kept by this tab's server only; publishing one
+      // is what reaches the live org and the other tabs
+      this.get('/api/scenarios', (schema) => {
+        const scenarios = (schema.db.scenarios as Scenario[]).map(toSummary);
+        return { scenarios: scenarios.sort((a, b) => b.updatedAt - a.updatedAt) };
+      });
+
+      this.post('/api/scenarios', (schema, request) => {
+        const { name, employees } = JSON.parse(request.requestBody) as { name?: string; employees?: Employee[] };
+        if (!name?.trim()) {
+          return invalidScenario('Name is required');
+        }
+        // The draft is forked from the live org as the server has it now
+        const baseEmployees = (schema.db.employees as Employee[]).map((emp) => ({ ...emp }));
+        const { id } = schema.db.scenarios.insert({
+          name: name.trim(),
+          baseEmployees,
+          employees: employees ?? baseEmployees,
+          updatedAt: Date.now(),
+        });
+        return schema.find('scenario', id);
+      });
+
+      this.get('/api/scenarios/:id', (schema, request) => {
+        const id = request.params.id;
+        return schema.find('scenario', id) ?? scenarioNotFound(id);
+      });
+
+      this.patch('/api/scenarios/:id', (schema, request) => {
+        const id = request.params.id;
+        const scenario = schema.find('scenario', id);
+        if (!scenario) {
+          return scenarioNotFound(id);
+        }
+        const { name, employees } = JSON.parse(request.requestBody) as { name?: string; employees?: Employee[] };
+        if (name !== undefined && !name.trim()) {
+          return invalidScenario('Name is required');
+        }
+        if (employees !== undefined && !Array.isArray(employees)) {
+          return invalidScenario('Employees must be a list');
+        }
+        scenario.update({
+          ...(name === undefined ? {} : { name: name.trim() }),
+          ...(employees === undefined ? {} : { employees }),
+          updatedAt: Date.now(),
+        });
+        return scenario;
+      });
+
+      this.delete('/api/scenarios/:id', (schema, request) => {
+        const id = request.params.id;
+        const scenario = schema.find('scenario', id);
+        if (!scenario) {
+          return scenarioNotFound(id);
+        }
+        scenario.destroy();
+        return new Response(204);
+      });
+
+      // Applies everything the draft changed as one batch, then discards the draft.
+      // Employees added in the draft get real ids here.
+      this.post('/api/scenarios/:id/publish', (schema, request) => {
+        const id = request.params.id;
+        const scenario = schema.find('scenario', id);
+        if (!scenario) {
+          return scenarioNotFound(id);
+        }
+        const draft = scenario.attrs as Scenario;
+        const error = validateScenarioPublish(schema.db.employees as Employee[], draft);
+        if (error) {
+          return errorResponse(error);
+        }
+
+        const changes = getScenarioChanges(draft);
+        const idMap = new Map<string, string>();
+        changes.forEach((change) => {
+          if (change.type === 'created') {
+            const { id: draftId, ...attrs } = change.employee;
+            idMap.set(draftId, schema.db.employees.insert({ ...attrs, managerId: null }).id);
+          }
+        });
+        const resolve = (employeeId: string) => idMap.get(employeeId) ?? employeeId;
+        const published: EmployeeChange[] = changes.map((change) => {
+          if (change.type === 'deleted') {
+            schema.db.employees.remove(change.id);
+            return change;
+          }
+          const employeeId = resolve(change.employee.id);
+          schema.db.employees.update(employeeId, {
+            ...change.employee,
+            id: employeeId,
+            managerId: change.employee.managerId ? resolve(change.employee.managerId) : null,
+            secondaryManagerIds: change.employee.secondaryManagerIds?.map(resolve),
+          });
+          return { type: change.type, employee: schema.db.employees.find(employeeId) };
+        });
+        scenario.destroy();
+        record(published);
+        return schema.all('employee');
       });
     },
   });
-}
\ No newline at end of file
+  // Every request would be logged to the console, including the change feed's polls.
+  // Set here because Mirage ignores a `logging` option passed to createServer.
+  server.logging = false;
+
+  history.push(...createSeedHistory(server.db.employees as Employee[], Date.now()));
+
+  if (channel) {
+    const applyRelayed = (changes: EmployeeChange[], effectiveAt?: string) => {
+      changes.forEach((change) => {
+        if (change.type === 'deleted') {
+          server.db.employees.remove(change.id);
+        } else if (server.db.employees.find(change.employee.id)) {
+          server.db.employees.update(change.employee.id, change.employee);
+        } else {
+          server.db.employees.insert(change.employee);
+        }
+      });
+      record(changes, false, effectiveAt);
+    };
+
+    // A new tab asks the open ones for their data, since its seeds may be out of date
+    let awaitingSnapshot = true;
+    channel.onmessage = ({ data }: MessageEvent<RelayMessage>) => {
+      if (data.type === 'hello') {
+        // The db collection carries methods, so send plain copies of the records
+        const employees = (server.db.employees as Employee[]).map((emp) => ({ ...emp }));
+        channel.postMessage({ type: 'snapshot', employees, events: history } satisfies RelayMessage);
+      } else if (data.type === 'snapshot' && awaitingSnapshot) {
+        awaitingSnapshot = false;
+        applyRelayed(diffEmployees(server.db.employees as Employee[], data.employees));
+        // The open tab's history already explains its records
+        history.splice(0, history.length, ...data.events);
+      } else if (data.type === 'changes') {
+        applyRelayed(data.changes, data.effectiveAt);
+      }
+    };
+    channel.postMessage({ type: 'hello' } satisfies RelayMessage);
+
+    const shutdown = server.shutdown.bind(server);
+    server.shutdown = () => {
+      channel.close();
+      shutdown();
+    };
+  }
+
+  return server;
+}
+
+/**
+ * Starts the mock server and returns a service that talks to it.
+ */
+export function createMockEmployeeService(): EmployeeService {
+  makeServer();
+  return createHttpEmployeeService();
+}
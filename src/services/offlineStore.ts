@@ -0,0 +1,133 @@
+import { Employee } from './types';
+
+export type CachedEmployees = {
+    employees: Employee[];
+    /** When the list was last confirmed by the server, in ms since the epoch. */
+    savedAt: number;
+};
+
+/** A reassignment made while the API was unreachable, waiting to be sent. */
+export type OutboxItem = {
+    id: string;
+    employeeId: string;
+    /** The manager the move was made from, used to spot changes made by others meanwhile. */
+    fromManagerId: string;
+    toManagerId: string;
+    queuedAt: number;
+};
+
+export interface OfflineStore {
+    loadEmployees(): Promise<CachedEmployees | null>;
+    saveEmployees(employees: Employee[]): Promise<void>;
+    loadOutbox(): Promise<OutboxItem[]>;
+    saveOutbox(items: OutboxItem[]): Promise<void>;
+}
+
+const EMPLOYEES_KEY = 'employees';
+const OUTBOX_KEY = 'outbox';
+
+type KeyValueStore = {
+    get<T>(key: string): Promise<T | undefined>;
+    set<T>(key: string, value: T): Promise<void>;
+};
+
+function createMemoryKeyValueStore(): KeyValueStore {
+    const values = new Map<string, unknown>();
+    return {
+        async get<T>(key: string) {
+            return values.get(key) as T | undefined;
+        },
+        async set<T>(key: string, value: T) {
+            values.set(key, structuredClone(value));
+        },
+    };
+}
+
+const OBJECT_STORE = 'offline';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(name: string): Promise<IDBDatabase> {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE);
+    };
+    return promisify(request);
+}
+
+/**
+ * IndexedDB-backed store that falls back to memory when IndexedDB is missing
+ * or refuses to open (some private browsing modes), so callers never need to
+ * check whether persistence is available.
+ */
+function createIndexedDbKeyValueStore(name: string): KeyValueStore {
+    const fallback = createMemoryKeyValueStore();
+    const database = openDatabase(name).catch(error => {
+        console.error('Offline cache unavailable, keeping it in memory:', error);
+        return null;
+    });
+
+    return {
+        async get<T>(key: string) {
+            const db = await database;
+            if (!db) return fallback.get<T>(key);
+            const store = db.transaction(OBJECT_STORE, 'readonly').objectStore(OBJECT_STORE);
+            return (await promisify(store.get(key))) as T | undefined;
+        },
+        async set<T>(key: string, value: T) {
+            const db = await database;
+            if (!db) return fallback.set(key, value);
+            const store = db.transaction(OBJECT_STORE, 'readwrite').objectStore(OBJECT_STORE);
+            await promisify(store.put(value, key));
+        },
+    };
+}
+
+function createOfflineStoreFrom(values: KeyValueStore): OfflineStore {
+    return {
+        async loadEmployees() {
+            return (await values.get<CachedEmployees>(EMPLOYEES_KEY)) ?? null;
+        },
+        async saveEmployees(employees) {
+            await values.set<CachedEmployees>(EMPLOYEES_KEY, { employees, savedAt: Date.now() });
+        },
+        async loadOutbox() {
+            return (await values.get<OutboxItem[]>(OUTBOX_KEY)) ?? [];
+        },
+        async saveOutbox(items) {
+            await values.set(OUTBOX_KEY, items);
+        },
+    };
+}
+
+/**
+ * Persists the employee cache and outbox in IndexedDB, or in memory where
+ * IndexedDB is not available.
+ */
+export function createOfflineStore(name: string = 'org-chart'): OfflineStore {
+    return createOfflineStoreFrom(
+        typeof indexedDB === 'undefined' ? createMemoryKeyValueStore() : createIndexedDbKeyValueStore(name)
+    );
+}
+
+/** Store that only lives as long as the page, for tests. */
+export function createMemoryOfflineStore(): OfflineStore {
+    return createOfflineStoreFrom(createMemoryKeyValueStore());
+}
+
+/**
+ * `employees` with the queued moves applied, for showing the chart as the
+ * user left it while the moves are still waiting to be sent.
+ */
+export function applyOutboxItems(employees: Employee[], items: OutboxItem[]): Employee[] {
+    if (items.length === 0) return employees;
+    const managerById = new Map(items.map(item => [item.employeeId, item.toManagerId]));
+    return employees.map(emp =>
+        managerById.has(emp.id) ? { ...emp, managerId: managerById.get(emp.id) as string } : emp
+    );
+}
@@ -0,0 +1,84 @@
+import { EmployeeChange } from './changeFeed';
+import { ApiError, Employee, EmployeeEvent } from './types';
+
+/**
+ * Turns changes into history events that take effect at `effectiveAt`.
+ * Records are copied so later edits to them do not rewrite history.
+ */
+export function toEmployeeEvents(changes: EmployeeChange[], effectiveAt: string): EmployeeEvent[] {
+    return changes.map(change =>
+        change.type === 'deleted'
+            ? { employeeId: change.id, type: 'deleted', employee: null, effectiveAt }
+            : { employeeId: change.employee.id, type: change.type, employee: { ...change.employee }, effectiveAt }
+    );
+}
+
+/**
+ * Reads `value` as a date, returning it as an ISO timestamp or null when it
+ * is not one.
+ */
+export function parseAsOf(value: string): string | null {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+
+/**
+ * Checks that a change to `employeeIds` can take effect at `effectiveAt`.
+ * Every event holds the whole record from then on, so a change dated before
+ * one already recorded for the same employee would be undone by it in every
+ * later state. Changes apply to the org straight away, so they cannot be
+ * dated in the future either.
+ */
+export function validateEffectiveAt(
+    events: EmployeeEvent[],
+    employeeIds: Iterable<string>,
+    effectiveAt: string,
+    now: number = Date.now()
+): ApiError | null {
+    const time = Date.parse(effectiveAt);
+    if (time > now) {
+        return { code: 'INVALID_DATE', message: `${effectiveAt} is in the future`, ids: [] };
+    }
+    const ids = new Set(employeeIds);
+    const later = new Set(
+        events
+            .filter(event => ids.has(event.employeeId) && Date.parse(event.effectiveAt) > time)
+            .map(event => event.employeeId)
+    );
+    return later.size > 0
+        ? {
+            code: 'INVALID_DATE',
+            message: `${effectiveAt} is before the latest recorded change to the same employees`,
+            ids: [...later],
+        }
+        : null;
+}
+
+/** Events in the order they took effect; events with the same date keep their recorded order. */
+export function sortEvents(events: EmployeeEvent[]): EmployeeEvent[] {
+    return events
+        .map((event, index) => ({ event, index, time: Date.parse(event.effectiveAt) }))
+        .sort((a, b) => a.time - b.time || a.index - b.index)
+        .map(({ event }) => event);
+}
+
+/**
+ * The org as it stood at `asOf`, rebuilt by replaying every event in effect by then.
+ */
+export function getOrgAsOf(events: EmployeeEvent[], asOf: string): Employee[] {
+    const cutoff = Date.parse(asOf);
+    const byId = new Map<string, Employee>();
+    sortEvents(events).forEach(event => {
+        if (Date.parse(event.effectiveAt) > cutoff) return;
+        if (event.employee) {
+            byId.set(event.employeeId, { ...event.employee });
+        } else {
+            byId.delete(event.employeeId);
+        }
+    });
+    return [...byId.values()];
+}
+
+export function getEmployeeHistory(events: EmployeeEvent[], employeeId: string): EmployeeEvent[] {
+    return sortEvents(events.filter(event => event.employeeId === employeeId));
+}
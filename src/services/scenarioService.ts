@@ -0,0 +1,50 @@
+import axios from 'axios';
+import { request } from './employeeService';
+import { Employee, Scenario, ScenarioSummary } from './types';
+
+/**
+ * Saved draft reorganizations. Implementations reject with an
+ * `EmployeeServiceError`.
+ */
+export interface ScenarioService {
+    list(): Promise<ScenarioSummary[]>;
+    get(id: string): Promise<Scenario>;
+    /** Forks the live org into a new draft, optionally starting from `employees`. */
+    create(name: string, employees?: Employee[]): Promise<Scenario>;
+    update(id: string, attrs: Partial<Pick<Scenario, 'name' | 'employees'>>): Promise<Scenario>;
+    delete(id: string): Promise<void>;
+    /** Applies the draft to the live org in one batch and resolves with the whole org. */
+    publish(id: string): Promise<Employee[]>;
+}
+
+type HttpScenarioServiceOptions = {
+    baseUrl?: string;
+};
+
+export function createHttpScenarioService({ baseUrl = '' }: HttpScenarioServiceOptions = {}): ScenarioService {
+    const root = `${baseUrl.replace(/\/+$/, '')}/api/scenarios`;
+    const url = (id: string) => `${root}/${encodeURIComponent(id)}`;
+
+    return {
+        async list() {
+            const data = await request<{ scenarios?: ScenarioSummary[] }>(() => axios.get(root));
+            return data?.scenarios ?? [];
+        },
+        async get(id) {
+            return (await request<{ scenario: Scenario }>(() => axios.get(url(id)))).scenario;
+        },
+        async create(name, employees) {
+            return (await request<{ scenario: Scenario }>(() => axios.post(root, { name, employees }))).scenario;
+        },
+        async update(id, attrs) {
+            return (await request<{ scenario: Scenario }>(() => axios.patch(url(id), attrs))).scenario;
+        },
+        async delete(id) {
+            await request(() => axios.delete(url(id)));
+        },
+        async publish(id) {
+            const data = await request<{ employees?: Employee[] }>(() => axios.post(`${url(id)}/publish`));
+            return data?.employees ?? [];
+        },
+    };
+}
@@ -0,0 +1,156 @@
+import { ApiError, ApiErrorCode, Employee, HierarchyIssueType, Scenario } from './types';
+import { EmployeeChange, applyEmployeeChanges, diffEmployees, isSameEmployee } from './changeFeed';
+import { countReports, validateHierarchy } from './hierarchy';
+import { isVacancy } from './vacancies';
+
+export type ScenarioMove = {
+    employee: Employee;
+    fromManagerId: string;
+    toManagerId: string;
+};
+
+export type SpanOfControlChange = {
+    manager: Employee;
+    before: number;
+    after: number;
+};
+
+export type TeamHeadcount = {
+    team: string;
+    before: number;
+    after: number;
+    /** Open positions in the team, counted apart from the people. */
+    openBefore: number;
+    openAfter: number;
+};
+
+/** How a draft differs from the live org. */
+export type ScenarioDiff = {
+    moved: ScenarioMove[];
+    added: Employee[];
+    removed: Employee[];
+    /** Managers whose number of direct reports changes. */
+    spanChanges: SpanOfControlChange[];
+    /** Every team in either org, including unchanged ones. */
+    headcounts: TeamHeadcount[];
+};
+
+const managerOf = (emp: Employee) => emp.managerId ?? '';
+
+function countByTeam(employees: Employee[]): Map<string, number> {
+    const counts = new Map<string, number>();
+    employees.forEach(emp => counts.set(emp.team ?? '', (counts.get(emp.team ?? '') ?? 0) + 1));
+    return counts;
+}
+
+const people = (employees: Employee[]) => employees.filter(emp => !isVacancy(emp));
+
+export function diffScenario(live: Employee[], draft: Employee[]): ScenarioDiff {
+    const liveById = new Map(live.map(emp => [emp.id, emp]));
+    const draftById = new Map(draft.map(emp => [emp.id, emp]));
+
+    const moved = draft.flatMap(emp => {
+        const before = liveById.get(emp.id);
+        return before && managerOf(before) !== managerOf(emp)
+            ? [{ employee: emp, fromManagerId: managerOf(before), toManagerId: managerOf(emp) }]
+            : [];
+    });
+
+    const liveReports = countReports(live);
+    const draftReports = countReports(draft);
+    const spanChanges = [...draft, ...live.filter(emp => !draftById.has(emp.id))].flatMap(manager => {
+        const before = liveById.has(manager.id) ? liveReports.get(manager.id)?.direct ?? 0 : 0;
+        const after = draftById.has(manager.id) ? draftReports.get(manager.id)?.direct ?? 0 : 0;
+        return before === after ? [] : [{ manager, before, after }];
+    });
+
+    const liveTeams = countByTeam(people(live));
+    const draftTeams = countByTeam(people(draft));
+    const liveOpen = countByTeam(live.filter(isVacancy));
+    const draftOpen = countByTeam(draft.filter(isVacancy));
+    const headcounts = [...new Set([...countByTeam(live).keys(), ...countByTeam(draft).keys()])]
+        .sort((a, b) => a.localeCompare(b))
+        .map(team => ({
+            team,
+            before: liveTeams.get(team) ?? 0,
+            after: draftTeams.get(team) ?? 0,
+            openBefore: liveOpen.get(team) ?? 0,
+            openAfter: draftOpen.get(team) ?? 0,
+        }));
+
+    return {
+        moved,
+        added: draft.filter(emp => !liveById.has(emp.id)),
+        removed: live.filter(emp => !draftById.has(emp.id)),
+        spanChanges,
+        headcounts,
+    };
+}
+
+export function countScenarioChanges(diff: ScenarioDiff): number {
+    return diff.moved.length + diff.added.length + diff.removed.length;
+}
+
+/**
+ * What the draft changed relative to the org it was forked from.
+ */
+export function getScenarioChanges(scenario: Pick<Scenario, 'baseEmployees' | 'employees'>): EmployeeChange[] {
+    return diffEmployees(scenario.baseEmployees, scenario.employees);
+}
+
+const HIERARCHY_ERROR_CODE: Partial<Record<HierarchyIssueType, ApiErrorCode>> = {
+    CYCLE: 'CYCLE',
+    ORPHAN: 'MANAGER_NOT_FOUND',
+    DUPLICATE_ID: 'INVALID_EMPLOYEE',
+};
+
+const issueKey = (issue: { type: string; ids: string[] }) => `${issue.type}:${[...issue.ids].sort().join(',')}`;
+
+/**
+ * Checks whether the draft's changes can be applied to `live` as one batch.
+ * Employees the draft changed must not have been changed in the live org
+ * since the draft was created, and the result must not introduce cycles,
+ * missing managers or repeated ids.
+ */
+export function validateScenarioPublish(live: Employee[], scenario: Scenario): ApiError | null {
+    const changes = getScenarioChanges(scenario);
+    const liveById = new Map(live.map(emp => [emp.id, emp]));
+    const baseById = new Map(scenario.baseEmployees.map(emp => [emp.id, emp]));
+
+    const conflicting = changes
+        .map(change => (change.type === 'deleted' ? change.id : change.employee.id))
+        .filter(id => {
+            const base = baseById.get(id);
+            const current = liveById.get(id);
+            return base ? !current || !isSameEmployee(base, current) : Boolean(current);
+        });
+    if (conflicting.length > 0) {
+        return {
+            code: 'CONFLICT',
+            message: `${conflicting.length === 1 ? '1 employee was' : `${conflicting.length} employees were`} changed in the live org after this draft was created`,
+            ids: conflicting,
+        };
+    }
+
+    const existingIssues = new Set(validateHierarchy(live).map(issueKey));
+    const issue = validateHierarchy(applyEmployeeChanges(live, changes).employees)
+        .find(found => HIERARCHY_ERROR_CODE[found.type] && !existingIssues.has(issueKey(found)));
+    if (issue) {
+        return {
+            code: HIERARCHY_ERROR_CODE[issue.type] as ApiErrorCode,
+            message: issue.message,
+            ids: issue.ids,
+        };
+    }
+    return null;
+}
+
+/**
+ * An id for an employee added in a draft that is not used in either org.
+ */
+export function createDraftEmployeeId(...orgs: Employee[][]): string {
+    const used = new Set(orgs.flatMap(org => org.map(emp => emp.id)));
+    let next = 1;
+    while (used.has(`new-${next}`)) next++;
+    return `new-${next}`;
+}
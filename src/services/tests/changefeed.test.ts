@@ -0,0 +1,164 @@
+import { expect, test, describe, vi, beforeEach, afterEach } from 'vitest'
+import axios from 'axios'
+import {
+  EmployeeChange,
+  applyEmployeeChanges,
+  createEventStreamChangeFeed,
+  diffEmployees,
+  formatEventStream,
+  parseEventStream,
+  toStreamEvent,
+} from '../changeFeed'
+import { createEmployee, withNullManager } from './fixtures'
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn(),
+  },
+}))
+
+describe('event stream format', () => {
+  test('round-trips changes through the text format', () => {
+    const updated = createEmployee('2', '1', { name: 'Line\nbreak' })
+    const changes: EmployeeChange[] = [
+      { type: 'updated', employee: updated },
+      { type: 'deleted', id: '3' },
+    ]
+    const text = formatEventStream(changes.map((change, index) => toStreamEvent(change, String(index + 1))))
+    expect(text).toContain('id: 1\nevent: updated\ndata: {')
+    expect(parseEventStream(text)).toEqual([
+      { id: '1', event: 'updated', data: JSON.stringify({ employee: updated }) },
+      { id: '2', event: 'deleted', data: '{"id":"3"}' },
+    ])
+  })
+
+  test('reads multi-line data, comments and id-only events', () => {
+    expect(parseEventStream(': keep-alive\r\n\r\nid: 7\r\n\r\ndata: a\ndata:b\n\n')).toEqual([
+      { id: '7', event: 'message', data: '' },
+      { id: null, event: 'message', data: 'a\nb' },
+    ])
+  })
+})
+
+describe('applyEmployeeChanges', () => {
+  const employees = [createEmployee('1'), createEmployee('2', '1')]
+
+  test('applies changes in order and reports what changed', () => {
+    const result = applyEmployeeChanges(employees, [
+      { type: 'created', employee: createEmployee('3', '2') },
+      { type: 'updated', employee: createEmployee('3', '1') },
+      { type: 'deleted', id: '2' },
+    ])
+    expect(result.employees).toEqual([createEmployee('1'), createEmployee('3', '1')])
+    expect(result.changedIds).toEqual(['3', '2'])
+  })
+
+  test('skips changes that are already reflected, treating null managers as empty', () => {
+    const result = applyEmployeeChanges(employees, [
+      { type: 'updated', employee: withNullManager(createEmployee('1')) },
+      { type: 'created', employee: createEmployee('2', '1') },
+      { type: 'deleted', id: '9' },
+    ])
+    expect(result.employees).toBe(employees)
+    expect(result.changedIds).toEqual([])
+  })
+
+  test('diffEmployees produces the changes between two versions', () => {
+    const target = [createEmployee('1', '', { name: 'Renamed' }), createEmployee('3', '1')]
+    const changes = diffEmployees(employees, target)
+    expect(changes).toEqual([
+      { type: 'updated', employee: target[0] },
+      { type: 'created', employee: target[1] },
+      { type: 'deleted', id: '2' },
+    ])
+    expect(applyEmployeeChanges(employees, changes).employees).toEqual(target)
+  })
+})
+
+describe('createEventStreamChangeFeed', () => {
+  const mockAxiosGet = vi.mocked(axios.get)
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.clearAllMocks()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  test('starts at the current position and then follows from the last event id', async () => {
+    const change: EmployeeChange = { type: 'updated', employee: createEmployee('2') }
+    mockAxiosGet
+      .mockResolvedValueOnce({ data: 'id: 4\n\n' })
+      .mockResolvedValueOnce({ data: formatEventStream([toStreamEvent(change, '5')]) })
+      .mockResolvedValue({ data: '' })
+    const listener = vi.fn()
+
+    const unsubscribe = createEventStreamChangeFeed({ baseUrl: 'https://hr.example.com', intervalMs: 1000 }).subscribe(listener)
+    await vi.advanceTimersByTimeAsync(0)
+    expect(mockAxiosGet).toHaveBeenLastCalledWith('https://hr.example.com/api/employees/changes', expect.objectContaining({ params: {} }))
+    expect(listener).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(mockAxiosGet).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({ params: { since: '4' } }))
+    expect(listener).toHaveBeenCalledWith([change])
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(mockAxiosGet).toHaveBeenLastCalledWith(expect.any(String), expect.objectContaining({ params: { since: '5' } }))
+    expect(listener).toHaveBeenCalledTimes(1)
+
+    unsubscribe()
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(3)
+  })
+
+  test('keeps following after a failed request', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockAxiosGet.mockRejectedValueOnce(new Error('Network error')).mockResolvedValue({ data: 'id: 1\n\n' })
+
+    const unsubscribe = createEventStreamChangeFeed({ intervalMs: 1000 }).subscribe(vi.fn())
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(2)
+    expect(mockAxiosGet).toHaveBeenLastCalledWith('/api/employees/changes', expect.objectContaining({ params: {} }))
+    unsubscribe()
+  })
+
+  test('backs off while requests fail and logs only the first failure', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+    mockAxiosGet.mockRejectedValue(new Error('Network error'))
+
+    const unsubscribe = createEventStreamChangeFeed({ intervalMs: 1000, maxIntervalMs: 4000 }).subscribe(vi.fn())
+    await vi.advanceTimersByTimeAsync(0)
+    // Waits of 2, 4 and then at most 4 seconds
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(2)
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(3)
+    await vi.advanceTimersByTimeAsync(4000)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(4)
+    expect(consoleError).toHaveBeenCalledTimes(1)
+
+    mockAxiosGet.mockResolvedValue({ data: 'id: 1\n\n' })
+    await vi.advanceTimersByTimeAsync(4000)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(6)
+    unsubscribe()
+  })
+
+  test('waits for the browser to come back online before polling again', async () => {
+    const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false)
+    mockAxiosGet.mockResolvedValue({ data: 'id: 1\n\n' })
+
+    const unsubscribe = createEventStreamChangeFeed({ intervalMs: 1000 }).subscribe(vi.fn())
+    await vi.advanceTimersByTimeAsync(10000)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(1)
+
+    onLine.mockReturnValue(true)
+    window.dispatchEvent(new Event('online'))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(mockAxiosGet).toHaveBeenCalledTimes(2)
+    unsubscribe()
+  })
+})
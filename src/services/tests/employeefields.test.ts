@@ -0,0 +1,92 @@
+import { expect, test, describe } from 'vitest'
+import {
+  encodeFieldFilter,
+  getEmployeeFields,
+  getFilterGroups,
+  matchesFieldFilter,
+  matchesSearch,
+  validateCustomFields,
+  validateEmployeeDetails,
+  validateFieldSchema,
+} from '../employeeFields'
+import { CustomFieldDefinition, Employee } from '../types'
+
+const schema: CustomFieldDefinition[] = [
+  { key: 'costCenter', label: 'Cost center', type: 'text', required: true },
+  { key: 'remote', label: 'Remote', type: 'boolean', required: false },
+  { key: 'clearance', label: 'Clearance', type: 'enum', required: false, options: ['Confidential', 'Secret'] },
+]
+
+const fields = getEmployeeFields(schema)
+
+const employees: Employee[] = [
+  {
+    id: '1',
+    name: 'Ada Lovelace',
+    designation: 'CTO',
+    team: 'Technology',
+    managerId: '',
+    location: 'London',
+    employmentType: 'fte',
+    customFields: { costCenter: 'CC-100', remote: true, clearance: 'Secret' },
+  },
+  {
+    id: '2',
+    name: 'Alan Turing',
+    designation: 'Engineer',
+    team: 'Technology',
+    managerId: '1',
+    location: 'Manchester',
+    employmentType: 'contractor',
+    customFields: { costCenter: 'CC-200', remote: false },
+  },
+]
+
+describe('search and filters', () => {
+  test('searches built-in and custom field values as they are displayed', () => {
+    expect(employees.filter((emp) => matchesSearch(emp, 'manchester', fields)).map((emp) => emp.id)).toEqual(['2'])
+    expect(employees.filter((emp) => matchesSearch(emp, 'contractor', fields)).map((emp) => emp.id)).toEqual(['2'])
+    expect(employees.filter((emp) => matchesSearch(emp, 'cc-', fields)).map((emp) => emp.id)).toEqual(['1', '2'])
+  })
+
+  test('groups the filter values present in the org by field', () => {
+    const groups = getFilterGroups(employees, fields).map(({ field, values }) => [field.key, values])
+    expect(groups).toEqual([
+      ['team', ['Technology']],
+      ['location', ['London', 'Manchester']],
+      ['employmentType', ['fte', 'contractor']],
+      ['remote', [false, true]],
+      ['clearance', ['Secret']],
+    ])
+  })
+
+  test('filters by an encoded field and value', () => {
+    const notRemote = encodeFieldFilter('remote', false)
+    expect(employees.filter((emp) => matchesFieldFilter(emp, notRemote, fields)).map((emp) => emp.id)).toEqual(['2'])
+    expect(employees.filter((emp) => matchesFieldFilter(emp, encodeFieldFilter('missing', 'x'), fields))).toEqual([])
+  })
+})
+
+describe('validation', () => {
+  test('rejects field schemas with bad, repeated or built-in keys', () => {
+    expect(validateFieldSchema(schema)).toBeNull()
+    expect(validateFieldSchema([{ key: '1st', label: 'First', type: 'text', required: false }])).toMatch('not a valid field key')
+    expect(validateFieldSchema([{ key: 'location', label: 'Office', type: 'text', required: false }])).toMatch('built-in')
+    expect(validateFieldSchema([schema[0], schema[0]])).toMatch('more than once')
+    expect(validateFieldSchema([{ key: 'tier', label: 'Tier', type: 'enum', required: false }])).toMatch('at least one value')
+  })
+
+  test('checks custom values against their definitions', () => {
+    expect(validateCustomFields({ costCenter: 'CC-1', clearance: 'Secret' }, schema)).toBeNull()
+    expect(validateCustomFields({}, schema)).toBe('Cost center is required')
+    expect(validateCustomFields({ costCenter: 'CC-1', remote: 'yes' }, schema)).toBe('Remote must be a boolean')
+    expect(validateCustomFields({ costCenter: 'CC-1', clearance: 'Top' }, schema)).toBe('Clearance must be one of Confidential, Secret')
+    expect(validateCustomFields({ costCenter: 'CC-1', shoeSize: 9 }, schema)).toBe('There is no field called "shoeSize"')
+  })
+
+  test('checks the optional built-in details', () => {
+    expect(validateEmployeeDetails({ email: 'ada@example.com', startDate: '2021-04-01', employmentType: 'intern' })).toBeNull()
+    expect(validateEmployeeDetails({ email: 'ada' })).toMatch('not an email address')
+    expect(validateEmployeeDetails({ startDate: 'April' })).toMatch('Start date')
+  })
+})
@@ -0,0 +1,169 @@
+import { expect, test, describe } from 'vitest'
+import {
+  DataExportFormat,
+  DATA_EXPORT_FILES,
+  parseDot,
+  parseMermaid,
+  serializeEmployees,
+  toCsv,
+  toDot,
+  toEmployeeTree,
+  toMermaid,
+} from '../employeeFormats'
+import { applyColumnMapping, guessColumnMapping, mergeImport, parseImportFile } from '../importEmployees'
+import { VACANCY_NAME, countHeadcount } from '../vacancies'
+import { CustomFieldDefinition, Employee } from '../types'
+import { withNullManager } from './fixtures'
+
+const employees: Employee[] = [
+  { id: '1', name: 'Mark Hill', designation: 'Chief Executive Officer', team: 'Executive', managerId: '' },
+  { id: '2', name: 'Joe "JL" Linux', designation: 'CTO, Technology', team: 'R&D', managerId: '1' },
+  { id: '3', name: 'Linda <May>', designation: 'Line one\nline two', team: '', managerId: '1' },
+  { id: 'x-4', name: ' Padded ', designation: 'Back\\slash', team: 'Ops', managerId: '2' },
+]
+
+const schema: CustomFieldDefinition[] = [
+  { key: 'costCenter', label: 'Cost center', type: 'text', required: false },
+  { key: 'headcount', label: 'Headcount', type: 'number', required: false },
+  { key: 'remote', label: 'Remote', type: 'boolean', required: false },
+]
+
+const detailedEmployees: Employee[] = [
+  {
+    ...employees[0],
+    email: 'mark.hill@example.com',
+    location: 'New York, NY',
+    photoUrl: 'https://example.com/mark.png',
+    startDate: '2015-03-02',
+    employmentType: 'fte',
+    jobLevel: 'E9',
+    customFields: { costCenter: 'CC "100"', headcount: 12, remote: false },
+  },
+  { ...employees[1], employmentType: 'contractor', customFields: { remote: true } },
+  { ...employees[3], name: 'Padded' },
+]
+
+const FORMATS = Object.keys(DATA_EXPORT_FILES) as DataExportFormat[]
+
+const roundTrip = (records: Employee[], format: DataExportFormat) => {
+  const fileName = `employees.${DATA_EXPORT_FILES[format].extension}`
+  const table = parseImportFile(fileName, serializeEmployees(records, format, schema))
+  const roundTripped = applyColumnMapping(table, guessColumnMapping(table.columns, schema), schema)
+  return [...roundTripped].sort((a, b) => a.id.localeCompare(b.id))
+}
+
+describe('data export', () => {
+  test.each(FORMATS)('%s round-trips every employee field through the importer', (format) => {
+    // Import trims cells, so compare against trimmed values
+    const expected = employees.map((emp) => ({ ...emp, name: emp.name.trim() }))
+    expect(roundTrip(employees, format)).toEqual(expected)
+  })
+
+  test.each(FORMATS)('%s round-trips optional details and custom fields', (format) => {
+    expect(roundTrip(detailedEmployees, format)).toEqual(detailedEmployees)
+  })
+
+  test.each(FORMATS)('%s keeps open positions open', (format) => {
+    const positions: Employee[] = [
+      employees[0],
+      {
+        id: '5',
+        name: VACANCY_NAME,
+        designation: 'Designer',
+        team: 'Design',
+        managerId: '1',
+        vacancy: { requisitionId: 'REQ-5', targetStartDate: '2026-01-12' },
+      },
+      { id: '6', name: VACANCY_NAME, designation: 'Analyst', team: '', managerId: '1', vacancy: { requisitionId: 'REQ-6' } },
+    ]
+    const roundTripped = roundTrip(positions, format)
+    expect(roundTripped).toEqual(positions)
+    expect(countHeadcount(mergeImport([], roundTripped))).toEqual({ people: 1, openPositions: 2 })
+  })
+
+  test.each(FORMATS)('%s keeps dotted-line managers', (format) => {
+    const dotted: Employee[] = [
+      employees[0],
+      { ...employees[1], secondaryManagerIds: ['3'] },
+      { ...employees[2], team: 'Ops' },
+      // Dotted lines to people outside the export are kept too
+      { ...employees[3], name: 'Padded', secondaryManagerIds: ['1', 'elsewhere'] },
+    ]
+    expect(roundTrip(dotted, format)).toEqual(dotted)
+  })
+
+  test('toCsv writes a column for every custom field in the schema', () => {
+    const [header, row] = toCsv([employees[1]], schema).split('\n')
+    expect(header).toBe('id,name,designation,team,managerId,customFields.costCenter,customFields.headcount,customFields.remote')
+    expect(row).toBe('2,"Joe ""JL"" Linux","CTO, Technology",R&D,1,,,')
+  })
+
+  test('toCsv quotes cells that need it and writes null managers as empty', () => {
+    const csv = toCsv([
+      { ...employees[1] },
+      withNullManager({ id: '9', name: 'Root', designation: 'CEO', team: 'T', managerId: '' }),
+    ])
+    expect(csv).toBe('id,name,designation,team,managerId\n2,"Joe ""JL"" Linux","CTO, Technology",R&D,1\n9,Root,CEO,T,\n')
+  })
+
+  test('toEmployeeTree nests reports and keeps managerId', () => {
+    const [root] = toEmployeeTree(employees)
+    expect(root.id).toBe('1')
+    expect(root.children.map((child) => child.id)).toEqual(['2', '3'])
+    expect(root.children[0].children[0]).toMatchObject({ id: 'x-4', managerId: '2', children: [] })
+  })
+
+  test('toEmployeeTree makes roots of people whose manager is not exported and of cycles', () => {
+    const tree = toEmployeeTree([
+      employees[1],
+      employees[3],
+      { id: 'a', name: 'A', designation: '', team: '', managerId: 'b' },
+      { id: 'b', name: 'B', designation: '', team: '', managerId: 'a' },
+    ])
+    expect(tree.map((node) => node.id)).toEqual(['2', 'a'])
+    expect(tree[1].children.map((node) => node.id)).toEqual(['b'])
+  })
+
+  test('toDot only draws edges between exported employees', () => {
+    const dot = toDot(employees.slice(1))
+    expect(dot).toContain('"2" -> "x-4";')
+    expect(dot).not.toContain('"1" -> ')
+    expect(dot).toContain('managerId="1"')
+    expect(parseDot(dot)).toHaveLength(3)
+  })
+
+  test('toDot keeps details and custom fields as attributes', () => {
+    const dot = toDot(detailedEmployees.slice(0, 1))
+    expect(dot).toContain('email="mark.hill@example.com"')
+    expect(dot).toContain('"customFields.headcount"="12"')
+    expect(parseDot(dot, schema)[0]).toEqual(detailedEmployees[0])
+  })
+
+  test('toDot draws dotted-line managers as dashed edges, which parseDot reads back', () => {
+    const dot = toDot([employees[0], employees[1], { ...employees[2], secondaryManagerIds: ['2', 'elsewhere'] }])
+    expect(dot).toContain('"1" -> "3";')
+    expect(dot).toContain('"2" -> "3" [style=dashed];')
+    expect(dot).not.toContain('"elsewhere" ->')
+
+    const handWritten = ['digraph org {', '  "a" [name="A"];', '  "b" [name="B"];', '  "a" -> "b" [style="dashed"];', '}'].join('\n')
+    expect(parseDot(handWritten)[1].secondaryManagerIds).toEqual(['a'])
+  })
+
+  test('toMermaid escapes labels and links by position', () => {
+    const mermaid = toMermaid(employees)
+    expect(mermaid.startsWith('flowchart TD\n')).toBe(true)
+    expect(mermaid).toContain('e2["Linda #lt;May#gt;<br/>Line one line two"]')
+    expect(mermaid).toContain('e1 --> e3')
+    expect(parseMermaid(mermaid)).toEqual(employees)
+    expect(parseMermaid(toMermaid(detailedEmployees))).toEqual(detailedEmployees)
+  })
+
+  test('toMermaid draws dotted-line managers as dotted links, which parseMermaid reads back', () => {
+    const mermaid = toMermaid([employees[0], employees[1], { ...employees[2], secondaryManagerIds: ['2'] }])
+    expect(mermaid).toContain('e1 -.-> e2')
+
+    const linkOnly = mermaid.replace(',"secondaryManagerIds":["2"]', '')
+    expect(linkOnly).not.toContain('secondaryManagerIds')
+    expect(parseMermaid(linkOnly)[2].secondaryManagerIds).toEqual(['2'])
+  })
+})
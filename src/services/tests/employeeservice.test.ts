@@ -0,0 +1,275 @@
+import { expect, test, describe, vi, beforeEach } from 'vitest'
+import axios from 'axios'
+import { createHttpEmployeeService } from '../employeeService'
+import { createInMemoryEmployeeService } from '../inMemoryEmployeeService'
+import { EmployeeServiceError, describeApiError } from '../apiErrors'
+import { createEmployee } from './fixtures'
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn(),
+    patch: vi.fn(),
+    post: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
+  },
+}))
+
+const seed = () => [createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '2')]
+
+describe('in-memory employee service', () => {
+  test('lists copies of the seed', async () => {
+    const employees = seed()
+    const service = createInMemoryEmployeeService(employees)
+    const listed = await service.list()
+    listed[0].name = 'Changed'
+    employees[1].name = 'Changed'
+    expect((await service.list()).map((emp) => emp.name)).toEqual(['Employee 1', 'Employee 2', 'Employee 3'])
+  })
+
+  test('creates employees with fresh ids and rejects unknown managers', async () => {
+    const service = createInMemoryEmployeeService(seed())
+    const created = await service.create({ name: 'New', designation: '', team: '', managerId: '1' })
+    expect(created.id).toBe('4')
+    expect(await service.get('4')).toEqual(created)
+    await expect(service.create({ name: 'X', designation: '', team: '', managerId: '99' })).rejects.toMatchObject({
+      code: 'MANAGER_NOT_FOUND',
+      ids: ['99'],
+    })
+  })
+
+  test('rejects updates that would create a cycle with a typed error', async () => {
+    const service = createInMemoryEmployeeService(seed())
+    const error = await service.update('1', { managerId: '3' }).catch((e) => e)
+    expect(error).toBeInstanceOf(EmployeeServiceError)
+    expect(error.code).toBe('CYCLE')
+    expect(describeApiError(error)).toContain('reporting cycle')
+    expect((await service.get('1')).managerId).toBe('')
+  })
+
+  test('applies a batch as a unit', async () => {
+    const service = createInMemoryEmployeeService(seed())
+    await expect(
+      service.batch([
+        { employeeId: '3', managerId: '1' },
+        { employeeId: '2', managerId: '99' },
+      ])
+    ).rejects.toMatchObject({ code: 'MANAGER_NOT_FOUND' })
+    expect((await service.get('3')).managerId).toBe('2')
+
+    const moved = await service.batch([{ employeeId: '3', managerId: '1' }])
+    expect(moved).toEqual([createEmployee('3', '1')])
+  })
+
+  test('deletes an employee and moves their reports', async () => {
+    const service = createInMemoryEmployeeService(seed())
+    await expect(service.delete('2', '3')).rejects.toMatchObject({ code: 'CYCLE' })
+    await service.delete('2', '1')
+    expect(await service.list()).toEqual([createEmployee('1'), createEmployee('3', '1')])
+    await expect(service.get('2')).rejects.toMatchObject({ code: 'EMPLOYEE_NOT_FOUND' })
+  })
+
+  test('imports by upserting and rejects files with problems', async () => {
+    const service = createInMemoryEmployeeService(seed())
+    await expect(service.importEmployees([createEmployee('4', '99')])).rejects.toMatchObject({
+      code: 'MANAGER_NOT_FOUND',
+    })
+    const org = await service.importEmployees([{ ...createEmployee('2', '1'), name: 'Renamed' }, createEmployee('4', '3')])
+    expect(org.map((emp) => emp.name)).toEqual(['Employee 1', 'Renamed', 'Employee 3', 'Employee 4'])
+  })
+
+  test('records every change so earlier states can be listed', async () => {
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') })
+    try {
+      const service = createInMemoryEmployeeService(seed())
+      vi.setSystemTime(new Date('2024-02-01T00:00:00.000Z'))
+      await service.update('3', { managerId: '1' })
+      vi.setSystemTime(new Date('2024-03-01T00:00:00.000Z'))
+      await service.delete('2', '1')
+
+      expect(await service.listAsOf('2024-01-15')).toEqual(seed())
+      expect(await service.listAsOf('2024-02-15')).toEqual([createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '1')])
+      expect((await service.history('2')).map((event) => [event.type, event.effectiveAt])).toEqual([
+        ['created', '2024-01-01T00:00:00.000Z'],
+        ['deleted', '2024-03-01T00:00:00.000Z'],
+      ])
+      expect(await service.events()).toHaveLength(5)
+      await expect(service.listAsOf('soon')).rejects.toMatchObject({ code: 'INVALID_DATE' })
+      await expect(service.history('99')).rejects.toMatchObject({ code: 'EMPLOYEE_NOT_FOUND' })
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test('dates a change with effectiveAt and rejects dates that do not parse', async () => {
+    vi.useFakeTimers({ now: new Date('2024-01-01T00:00:00.000Z') })
+    try {
+      const service = createInMemoryEmployeeService(seed())
+      vi.setSystemTime(new Date('2024-06-01T00:00:00.000Z'))
+      await service.update('3', { managerId: '1' }, { effectiveAt: '2024-03-01' })
+      await service.batch([{ employeeId: '2', managerId: '3' }], { effectiveAt: '2024-04-01T12:00:00Z' })
+
+      expect((await service.history('3')).map((event) => event.effectiveAt)).toEqual([
+        '2024-01-01T00:00:00.000Z',
+        '2024-03-01T00:00:00.000Z',
+      ])
+      expect((await service.history('2')).map((event) => event.effectiveAt)).toEqual([
+        '2024-01-01T00:00:00.000Z',
+        '2024-04-01T12:00:00.000Z',
+      ])
+      expect(await service.listAsOf('2024-03-15')).toEqual([createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '1')])
+
+      await expect(service.update('3', { managerId: '2' }, { effectiveAt: 'last week' }))
+        .rejects.toMatchObject({ code: 'INVALID_DATE', message: 'last week is not a valid date' })
+      await expect(service.delete('2', '1', { effectiveAt: '' })).rejects.toMatchObject({ code: 'INVALID_DATE' })
+
+      // Each event holds the whole record, so nothing may be dated before the employee's latest one
+      await expect(service.update('3', { name: 'Renamed' }, { effectiveAt: '2024-02-01' }))
+        .rejects.toMatchObject({ code: 'INVALID_DATE', ids: ['3'] })
+      await expect(service.delete('2', '1', { effectiveAt: '2024-02-01' }))
+        .rejects.toMatchObject({ code: 'INVALID_DATE', ids: ['2'] })
+      await expect(service.create(createEmployee('9'), { effectiveAt: '2024-07-01' }))
+        .rejects.toMatchObject({ code: 'INVALID_DATE', message: '2024-07-01T00:00:00.000Z is in the future' })
+      expect((await service.get('3')).managerId).toBe('1')
+      expect(await service.list()).toHaveLength(3)
+      expect(await service.listAsOf('2024-06-01')).toEqual(await service.list())
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  test('keeps dotted-line managers valid as the org changes', async () => {
+    const service = createInMemoryEmployeeService([...seed(), createEmployee('4', '1')])
+    await expect(service.update('3', { secondaryManagerIds: ['2'] })).rejects.toMatchObject({ code: 'INVALID_EMPLOYEE' })
+    expect(await service.update('3', { secondaryManagerIds: ['4', '1'] })).toMatchObject({ secondaryManagerIds: ['4', '1'] })
+
+    // Moving under a dotted-line manager turns that line solid
+    expect(await service.update('3', { managerId: '4' })).toMatchObject({ managerId: '4', secondaryManagerIds: ['1'] })
+    await service.delete('1', '')
+    expect((await service.get('3')).secondaryManagerIds).toEqual([])
+  })
+
+  test('checks optional details and custom fields against the schema', async () => {
+    const service = createInMemoryEmployeeService(seed(), [
+      { key: 'costCenter', label: 'Cost center', type: 'text', required: true },
+    ])
+    await expect(
+      service.create({ name: 'New', designation: '', team: '', managerId: '1' })
+    ).rejects.toMatchObject({ code: 'INVALID_EMPLOYEE', message: 'Cost center is required' })
+    await expect(service.update('2', { email: 'nobody' })).rejects.toMatchObject({ code: 'INVALID_EMPLOYEE' })
+
+    const created = await service.create({
+      name: 'New', designation: '', team: '', managerId: '1', location: 'Berlin', customFields: { costCenter: 'CC-1' },
+    })
+    expect(await service.get(created.id)).toMatchObject({ location: 'Berlin', customFields: { costCenter: 'CC-1' } })
+
+    await expect(
+      service.saveFieldSchema([{ key: 'team', label: 'Team', type: 'text', required: false }])
+    ).rejects.toMatchObject({ code: 'INVALID_FIELD_SCHEMA' })
+    expect(await service.getFieldSchema()).toHaveLength(1)
+  })
+
+  test('fills open positions with existing employees or new hires', async () => {
+    const vacancy = { requisitionId: 'REQ-1' }
+    const service = createInMemoryEmployeeService([
+      ...seed(),
+      { ...createEmployee('4', '1'), designation: 'Designer', vacancy },
+      createEmployee('5', '4'),
+      { ...createEmployee('6', '1'), vacancy },
+    ], [{ key: 'costCenter', label: 'Cost center', type: 'text', required: true }])
+
+    // Required custom fields wait until someone fills the position
+    await expect(service.create({ name: 'Open', designation: 'Role', team: '', managerId: '1', vacancy: { requisitionId: '' } }))
+      .rejects.toMatchObject({ code: 'INVALID_EMPLOYEE' })
+    await expect(service.fillVacancy('4', { employeeId: '6' })).rejects.toMatchObject({ code: 'INVALID_EMPLOYEE' })
+
+    const employees = await service.fillVacancy('4', { employeeId: '3' })
+    expect(employees.find((emp) => emp.id === '4')).toBeUndefined()
+    expect(employees.find((emp) => emp.id === '3')).toMatchObject({ managerId: '1', designation: 'Designer' })
+    expect(employees.find((emp) => emp.id === '5')?.managerId).toBe('3')
+
+    await expect(
+      service.fillVacancy('6', { employee: { name: 'Hire', designation: '', team: '', managerId: '' } })
+    ).rejects.toMatchObject({ message: 'Cost center is required' })
+    const hired = await service.fillVacancy('6', {
+      employee: { name: 'Hire', designation: '', team: '', managerId: '', customFields: { costCenter: 'CC-1' } },
+    })
+    expect(hired.find((emp) => emp.name === 'Hire')).toMatchObject({ managerId: '1' })
+    expect(hired.some((emp) => emp.id === '6')).toBe(false)
+  })
+})
+
+describe('HTTP employee service', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  test('prefixes requests with the base URL', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: { employee: createEmployee('a b') } })
+    const service = createHttpEmployeeService({ baseUrl: 'https://hr.example.com/' })
+    await service.get('a b')
+    expect(axios.get).toHaveBeenCalledWith('https://hr.example.com/api/employees/a%20b')
+  })
+
+  test('reads the org at a date and the recorded history', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: { employees: [], events: [] } })
+    const service = createHttpEmployeeService()
+    await service.listAsOf('2024-06-01T00:00:00.000Z')
+    await service.events()
+    await service.history('3')
+    expect(axios.get).toHaveBeenCalledWith('/api/employees', { params: { asOf: '2024-06-01T00:00:00.000Z' } })
+    expect(axios.get).toHaveBeenCalledWith('/api/employees/history')
+    expect(axios.get).toHaveBeenCalledWith('/api/employees/3/history')
+  })
+
+  test('reads and replaces the custom field schema', async () => {
+    const fields = [{ key: 'remote', label: 'Remote', type: 'boolean' as const, required: false }]
+    vi.mocked(axios.get).mockResolvedValue({ data: { fields } })
+    vi.mocked(axios.put).mockResolvedValue({ data: { fields } })
+    const service = createHttpEmployeeService()
+    expect(await service.getFieldSchema()).toEqual(fields)
+    expect(await service.saveFieldSchema(fields)).toEqual(fields)
+    expect(axios.get).toHaveBeenCalledWith('/api/employee-fields')
+    expect(axios.put).toHaveBeenCalledWith('/api/employee-fields', { fields })
+  })
+
+  test('fills an open position and returns the whole org', async () => {
+    vi.mocked(axios.post).mockResolvedValue({ data: { employees: [createEmployee('3', '1')] } })
+    const service = createHttpEmployeeService()
+    expect(await service.fillVacancy('4', { employeeId: '3' })).toEqual([createEmployee('3', '1')])
+    expect(axios.post).toHaveBeenCalledWith('/api/employees/4/fill', { employeeId: '3' })
+  })
+
+  test('sends effectiveAt with a change', async () => {
+    vi.mocked(axios.patch).mockResolvedValue({ data: { employee: createEmployee('3', '1') } })
+    vi.mocked(axios.post).mockResolvedValue({ data: { employees: [] } })
+    vi.mocked(axios.delete).mockResolvedValue({ data: null })
+    const service = createHttpEmployeeService()
+    const options = { effectiveAt: '2024-06-01T00:00:00.000Z' }
+    await service.update('3', { managerId: '1' }, options)
+    await service.batch([{ employeeId: '3', managerId: '1' }], options)
+    await service.delete('2', '1', options)
+    expect(axios.patch).toHaveBeenCalledWith('/api/employees/3', { managerId: '1', ...options })
+    expect(axios.post).toHaveBeenCalledWith('/api/employees/batch', { moves: [{ employeeId: '3', managerId: '1' }], ...options })
+    expect(axios.delete).toHaveBeenCalledWith('/api/employees/2', { params: { reassignTo: '1', ...options } })
+  })
+
+  test('turns API error bodies and network failures into typed errors', async () => {
+    const service = createHttpEmployeeService()
+    vi.mocked(axios.patch).mockRejectedValue({
+      response: { status: 409, data: { error: { code: 'CYCLE', message: 'Would create a cycle', ids: ['1'] } } },
+    })
+    await expect(service.update('1', { managerId: '2' })).rejects.toMatchObject({
+      name: 'EmployeeServiceError',
+      code: 'CYCLE',
+      message: 'Would create a cycle',
+      ids: ['1'],
+    })
+
+    vi.mocked(axios.get).mockRejectedValue(new Error('Network Error'))
+    const error = await service.list().catch((e) => e)
+    expect(error).toBeInstanceOf(EmployeeServiceError)
+    expect(error.code).toBe('NETWORK_ERROR')
+    expect(describeApiError(error)).toBe('Please try again later')
+  })
+})
@@ -0,0 +1,19 @@
+import { Employee } from '../types'
+
+/** A valid employee named after their id; an empty `managerId` puts them at the top. */
+export const createEmployee = (id: string, managerId: string = '', overrides: Partial<Employee> = {}): Employee => ({
+  id,
+  name: `Employee ${id}`,
+  designation: 'Role',
+  team: 'Team',
+  managerId,
+  ...overrides,
+})
+
+/**
+ * `employee` the way the API may send a top-level record, with a null
+ * manager that the `Employee` type does not allow. Going through JSON keeps
+ * the invalid value out of the type system, as it is when read off the wire.
+ */
+export const withNullManager = (employee: Employee): Employee =>
+  JSON.parse(JSON.stringify({ ...employee, managerId: null }))
@@ -0,0 +1,300 @@
+import { expect, test, describe } from 'vitest'
+import {
+  countReports,
+  getCollapsedDescendantIds,
+  getDescendantIds,
+  getManagerChain,
+  getReassignmentBlocker,
+  isSubordinate,
+  removeSecondaryManager,
+  validateBatchReassignment,
+  validateHierarchy,
+  validateReassignment,
+  validateSecondaryManagers,
+  withManager,
+} from '../hierarchy'
+import { describeApiError, getApiError } from '../apiErrors'
+import { Employee } from '../types'
+import { createEmployee } from './fixtures'
+
+describe('getDescendantIds', () => {
+  test('collects direct and indirect reports', () => {
+    const employees = [
+      createEmployee('1'),
+      createEmployee('2', '1'),
+      createEmployee('3', '2'),
+      createEmployee('4', '1'),
+      createEmployee('5'),
+    ]
+    expect([...getDescendantIds(employees, '1')].sort()).toEqual(['2', '3', '4'])
+    expect(getDescendantIds(employees, '5').size).toBe(0)
+  })
+
+  test('terminates when the data contains a cycle', () => {
+    const employees = [createEmployee('1', '2'), createEmployee('2', '1')]
+    expect([...getDescendantIds(employees, '1')]).toEqual(['2'])
+  })
+})
+
+describe('validateReassignment', () => {
+  const employees = [
+    createEmployee('1'),
+    createEmployee('2', '1'),
+    createEmployee('3', '2'),
+    createEmployee('4', '1'),
+  ]
+
+  test('allows a valid move', () => {
+    expect(validateReassignment(employees, '3', '4')).toBeNull()
+  })
+
+  test('allows moving to the top level', () => {
+    expect(validateReassignment(employees, '3', '')).toBeNull()
+    expect(validateReassignment(employees, '3', null)).toBeNull()
+  })
+
+  test('rejects an unknown employee', () => {
+    expect(validateReassignment(employees, '99', '1')).toMatchObject({
+      code: 'EMPLOYEE_NOT_FOUND',
+      ids: ['99'],
+    })
+  })
+
+  test('rejects an unknown manager', () => {
+    expect(validateReassignment(employees, '3', '99')).toMatchObject({
+      code: 'MANAGER_NOT_FOUND',
+      ids: ['99'],
+    })
+  })
+
+  test('rejects a self reference', () => {
+    expect(validateReassignment(employees, '3', '3')).toMatchObject({
+      code: 'SELF_REFERENCE',
+      ids: ['3'],
+    })
+  })
+
+  test('rejects a move under a subordinate and reports the chain', () => {
+    expect(validateReassignment(employees, '1', '3')).toMatchObject({
+      code: 'CYCLE',
+      ids: ['1', '3', '2'],
+    })
+  })
+})
+
+describe('API error helpers', () => {
+  const apiFailure = {
+    response: {
+      data: {
+        error: { code: 'CYCLE', message: 'Would create a cycle', ids: ['1', '2'] },
+      },
+    },
+  }
+
+  test('reads the structured error from a response', () => {
+    expect(getApiError(apiFailure)).toEqual(apiFailure.response.data.error)
+    expect(describeApiError(apiFailure)).toBe('Would create a cycle')
+  })
+
+  test('falls back to a generic message for other failures', () => {
+    expect(getApiError(new Error('Network error'))).toBeNull()
+    expect(describeApiError(new Error('Network error'))).toBe('Please try again later')
+    expect(describeApiError(null, 'Custom')).toBe('Custom')
+  })
+})
+
+describe('validateBatchReassignment', () => {
+  const employees = [
+    createEmployee('1'),
+    createEmployee('2', '1'),
+    createEmployee('3', '2'),
+    createEmployee('4', '1'),
+    createEmployee('5', '4'),
+  ]
+
+  test('accepts a group of valid moves', () => {
+    expect(
+      validateBatchReassignment(employees, [
+        { employeeId: '3', managerId: '4' },
+        { employeeId: '5', managerId: '2' },
+      ])
+    ).toBeNull()
+  })
+
+  test('rejects the whole batch when one move is invalid', () => {
+    expect(
+      validateBatchReassignment(employees, [
+        { employeeId: '3', managerId: '4' },
+        { employeeId: '5', managerId: '99' },
+      ])
+    ).toMatchObject({ code: 'MANAGER_NOT_FOUND', ids: ['99'] })
+  })
+
+  test('detects cycles formed by moves that are each valid on their own', () => {
+    expect(
+      validateBatchReassignment(employees, [
+        { employeeId: '2', managerId: '4' },
+        { employeeId: '4', managerId: '3' },
+      ])
+    ).toMatchObject({ code: 'CYCLE' })
+  })
+
+  test('rejects an employee listed twice', () => {
+    expect(
+      validateBatchReassignment(employees, [
+        { employeeId: '3', managerId: '4' },
+        { employeeId: '3', managerId: '1' },
+      ])
+    ).toMatchObject({ code: 'INVALID_EMPLOYEE', ids: ['3'] })
+  })
+})
+
+describe('dotted-line managers', () => {
+  const employees = [
+    createEmployee('1'),
+    createEmployee('2', '1'),
+    { ...createEmployee('3', '2'), secondaryManagerIds: ['4'] },
+    createEmployee('4', '1'),
+  ]
+
+  test('accepts existing managers anywhere in the org, even below the employee', () => {
+    expect(validateSecondaryManagers(employees, '2', ['3', '4'], '1')).toBeNull()
+    expect(validateSecondaryManagers(employees, '3', [], '2')).toBeNull()
+  })
+
+  test('rejects the employee, unknown ids, repeats and the solid-line manager', () => {
+    expect(validateSecondaryManagers(employees, '3', ['3'], '2')).toMatchObject({ code: 'SELF_REFERENCE' })
+    expect(validateSecondaryManagers(employees, '3', ['99'], '2')).toMatchObject({ code: 'MANAGER_NOT_FOUND', ids: ['99'] })
+    expect(validateSecondaryManagers(employees, '3', ['4', '4'], '2')).toMatchObject({ code: 'INVALID_EMPLOYEE' })
+    expect(validateSecondaryManagers(employees, '3', ['2'], '2')).toMatchObject({ code: 'INVALID_EMPLOYEE', ids: ['3', '2'] })
+    expect(validateSecondaryManagers(employees, '99', [], '')).toMatchObject({ code: 'EMPLOYEE_NOT_FOUND' })
+  })
+
+  test('a dotted line becomes the solid line when the employee moves under that manager', () => {
+    expect(withManager(employees[2], '4')).toMatchObject({ managerId: '4', secondaryManagerIds: [] })
+    expect(withManager(employees[2], '1')).toMatchObject({ managerId: '1', secondaryManagerIds: ['4'] })
+  })
+
+  test('removeSecondaryManager drops lines to a departing manager only', () => {
+    const after = removeSecondaryManager(employees, '4')
+    expect(after[2].secondaryManagerIds).toEqual([])
+    expect(after[1]).toBe(employees[1])
+  })
+})
+
+describe('getManagerChain and isSubordinate', () => {
+  const byId = (employees: Employee[]) => new Map(employees.map((e) => [e.id, e]))
+
+  test('lists managers nearest first', () => {
+    const employees = byId([createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '2')])
+    expect(getManagerChain(employees, '3')).toEqual(['2', '1'])
+    expect(isSubordinate(employees, '1', '3')).toBe(true)
+    expect(isSubordinate(employees, '3', '1')).toBe(false)
+  })
+
+  test('stops at a cycle instead of looping forever', () => {
+    const employees = byId([createEmployee('1', '3'), createEmployee('2', '1'), createEmployee('3', '2')])
+    expect(getManagerChain(employees, '1')).toEqual(['3', '2'])
+    expect(isSubordinate(employees, '4', '1')).toBe(false)
+  })
+})
+
+describe('validateHierarchy', () => {
+  test('reports nothing for a clean tree', () => {
+    expect(
+      validateHierarchy([createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '2')])
+    ).toEqual([])
+  })
+
+  test('detects each cycle once', () => {
+    const issues = validateHierarchy([
+      createEmployee('1'),
+      createEmployee('2', '4'),
+      createEmployee('3', '2'),
+      createEmployee('4', '3'),
+      createEmployee('5', '2'),
+    ])
+    const cycles = issues.filter((issue) => issue.type === 'CYCLE')
+    expect(cycles).toHaveLength(1)
+    expect([...cycles[0].ids].sort()).toEqual(['2', '3', '4'])
+  })
+
+  test('detects a self-reference as a cycle', () => {
+    const issues = validateHierarchy([createEmployee('1'), createEmployee('2', '2')])
+    expect(issues).toEqual([expect.objectContaining({ type: 'CYCLE', ids: ['2'] })])
+  })
+
+  test('detects orphans', () => {
+    const issues = validateHierarchy([createEmployee('1'), createEmployee('2', 'missing')])
+    expect(issues).toEqual([expect.objectContaining({ type: 'ORPHAN', ids: ['2'] })])
+  })
+
+  test('detects duplicate ids', () => {
+    const issues = validateHierarchy([createEmployee('1'), createEmployee('2', '1'), createEmployee('2', '1')])
+    expect(issues).toEqual([expect.objectContaining({ type: 'DUPLICATE_ID', ids: ['2'] })])
+  })
+
+  test('detects multiple roots', () => {
+    const issues = validateHierarchy([createEmployee('1'), createEmployee('2'), createEmployee('3', '1')])
+    expect(issues).toEqual([expect.objectContaining({ type: 'MULTIPLE_ROOTS', ids: ['1', '2'] })])
+  })
+})
+
+describe('countReports', () => {
+  test('counts direct and total reports', () => {
+    const counts = countReports([
+      createEmployee('1'),
+      createEmployee('2', '1'),
+      createEmployee('3', '2'),
+      createEmployee('4', '2'),
+      createEmployee('5', '1'),
+    ])
+    expect(counts.get('1')).toEqual({ direct: 2, total: 4, openPositions: 0 })
+    expect(counts.get('2')).toEqual({ direct: 2, total: 2, openPositions: 0 })
+    expect(counts.has('3')).toBe(false)
+  })
+
+  test('terminates on cycles', () => {
+    const counts = countReports([createEmployee('1', '2'), createEmployee('2', '1')])
+    expect(counts.get('1')).toEqual({ direct: 1, total: 1, openPositions: 0 })
+  })
+})
+
+describe('getCollapsedDescendantIds', () => {
+  test('hides everyone below collapsed managers', () => {
+    const employees = [
+      createEmployee('1'),
+      createEmployee('2', '1'),
+      createEmployee('3', '2'),
+      createEmployee('4', '1'),
+    ]
+    expect([...getCollapsedDescendantIds(employees, ['2'])]).toEqual(['3'])
+    expect([...getCollapsedDescendantIds(employees, ['1', '2'])].sort()).toEqual(['2', '3', '4'])
+    expect(getCollapsedDescendantIds(employees, []).size).toBe(0)
+  })
+})
+
+describe('getReassignmentBlocker', () => {
+  const employees = [
+    createEmployee('1'),
+    createEmployee('2', '1'),
+    createEmployee('3', '2'),
+    createEmployee('4', '3'),
+    createEmployee('5', '1'),
+  ]
+  const byId = new Map(employees.map(emp => [emp.id, emp]))
+
+  test('explains why a manager cannot be picked', () => {
+    expect(getReassignmentBlocker(byId, ['2'], '2')).toBe('Cannot report to themselves')
+    expect(getReassignmentBlocker(byId, ['2', '5'], '5')).toBe('Being reassigned')
+    expect(getReassignmentBlocker(byId, ['2'], '3')).toBe('Reports to Employee 2')
+    expect(getReassignmentBlocker(byId, ['2'], '4')).toBe("In Employee 2's reporting line")
+    expect(getReassignmentBlocker(byId, ['2', '5'], '1')).toBe('Current manager')
+  })
+
+  test('allows managers outside the moved reporting lines', () => {
+    expect(getReassignmentBlocker(byId, ['3'], '5')).toBeNull()
+    // Someone is still moved when only part of the group already reports there
+    expect(getReassignmentBlocker(byId, ['3', '5'], '1')).toBeNull()
+  })
+})
@@ -0,0 +1,231 @@
+import { expect, test, describe } from 'vitest'
+import {
+  applyColumnMapping,
+  applyImportedEmployee,
+  guessColumnMapping,
+  mergeImport,
+  parseCsv,
+  parseImportFile,
+  validateImport,
+} from '../importEmployees'
+import { CustomFieldDefinition } from '../types'
+import { createEmployee } from './fixtures'
+
+describe('parseCsv', () => {
+  test('handles quoted cells, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('id,name\r\n1,"Doe, John"\r\n2,"Say ""hi"""\r\n')).toEqual([
+      ['id', 'name'],
+      ['1', 'Doe, John'],
+      ['2', 'Say "hi"'],
+    ])
+  })
+
+  test('keeps line breaks inside quotes and skips blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n"x\ny",z')).toEqual([
+      ['a', 'b'],
+      ['x\ny', 'z'],
+    ])
+  })
+})
+
+describe('parseImportFile', () => {
+  test('reads CSV rows keyed by header', () => {
+    expect(parseImportFile('org.csv', 'ID,Full Name\n1,Ann\n2')).toEqual({
+      columns: ['ID', 'Full Name'],
+      rows: [
+        { ID: '1', 'Full Name': 'Ann' },
+        { ID: '2', 'Full Name': '' },
+      ],
+    })
+  })
+
+  test('reads JSON arrays and employees envelopes, stringifying values', () => {
+    const table = parseImportFile(
+      'org.json',
+      JSON.stringify({ employees: [{ id: 1, name: 'Ann', managerId: null }, { id: 2, team: 'X' }] })
+    )
+    expect(table.columns).toEqual(['id', 'name', 'managerId', 'team'])
+    expect(table.rows[0]).toEqual({ id: '1', name: 'Ann', managerId: '', team: '' })
+  })
+
+  test('rejects unreadable files', () => {
+    expect(() => parseImportFile('org.json', '{')).toThrow('not valid JSON')
+    expect(() => parseImportFile('org.json', '{"a":1}')).toThrow('list of employee objects')
+    expect(() => parseImportFile('org.csv', '')).toThrow('empty')
+  })
+})
+
+describe('column mapping', () => {
+  test('guesses columns from common header names', () => {
+    expect(guessColumnMapping(['Employee ID', 'Name', 'Job Title', 'Department', 'Reports To', 'Notes'])).toEqual({
+      id: 'Employee ID',
+      name: 'Name',
+      designation: 'Job Title',
+      team: 'Department',
+      managerId: 'Reports To',
+      secondaryManagerIds: null,
+      email: null,
+      location: null,
+      photoUrl: null,
+      startDate: null,
+      employmentType: null,
+      jobLevel: null,
+      'vacancy.requisitionId': null,
+      'vacancy.targetStartDate': null,
+    })
+    expect(guessColumnMapping(['Notes']).id).toBeNull()
+  })
+
+  test('guesses detail and custom field columns by name or label', () => {
+    const schema: CustomFieldDefinition[] = [
+      { key: 'costCenter', label: 'Cost center', type: 'text', required: false },
+      { key: 'remote', label: 'Works remotely', type: 'boolean', required: false },
+    ]
+    expect(guessColumnMapping(['Hire Date', 'Cost Center', 'customFields.remote'], schema)).toMatchObject({
+      startDate: 'Hire Date',
+      'customFields.costCenter': 'Cost Center',
+      'customFields.remote': 'customFields.remote',
+    })
+  })
+
+  test('types custom values from the schema and leaves out empty optional cells', () => {
+    const schema: CustomFieldDefinition[] = [
+      { key: 'size', label: 'Size', type: 'number', required: false },
+      { key: 'remote', label: 'Remote', type: 'boolean', required: false },
+    ]
+    const table = parseImportFile('org.csv', 'id,email,Size,Remote,Notes\n1,,3,yes,x\n2,b@example.com,,,\n')
+    expect(applyColumnMapping(table, guessColumnMapping(table.columns, schema), schema)).toEqual([
+      { id: '1', customFields: { size: 3, remote: true } },
+      { id: '2', email: 'b@example.com' },
+    ])
+  })
+
+  test('applies the mapping and trims values, leaving out unmapped fields', () => {
+    const table = { columns: ['key', 'who'], rows: [{ key: ' 7 ', who: 'Ann ' }] }
+    expect(
+      applyColumnMapping(table, { id: 'key', name: 'who', designation: null, team: null, managerId: null })
+    ).toEqual([{ id: '7', name: 'Ann' }])
+  })
+})
+
+describe('mergeImport', () => {
+  test('replaces known ids in place and appends new ones', () => {
+    const existing = [createEmployee('1'), createEmployee('2', '1')]
+    const merged = mergeImport(existing, [createEmployee('2', '', { name: 'Renamed' }), createEmployee('3', '2')])
+    expect(merged.map((emp) => [emp.id, emp.name])).toEqual([
+      ['1', 'Employee 1'],
+      ['2', 'Renamed'],
+      ['3', 'Employee 3'],
+    ])
+  })
+
+  test('keeps the fields of existing employees that the file has no column for', () => {
+    const existing = [createEmployee('1'), { ...createEmployee('2', '1'), team: 'Platform' }]
+    const table = parseImportFile('org.csv', 'id,name,managerId\n2,Renamed,1\n3,New Hire,2\n')
+    const imported = applyColumnMapping(table, guessColumnMapping(table.columns))
+
+    expect(validateImport(existing, imported)).toEqual([])
+    const merged = mergeImport(existing, imported)
+    expect(merged[1]).toEqual({ ...existing[1], name: 'Renamed' })
+    expect(merged[2]).toEqual({ id: '3', name: 'New Hire', designation: '', team: '', managerId: '2' })
+  })
+
+  test('keeps custom fields the file leaves out', () => {
+    const existing = [{ ...createEmployee('1'), customFields: { costCenter: 'CC-1', remote: true } }]
+    const [merged] = mergeImport(existing, [{ id: '1', customFields: { remote: false } }])
+    expect(merged.customFields).toEqual({ costCenter: 'CC-1', remote: false })
+  })
+})
+
+describe('applyImportedEmployee', () => {
+  test('drops a dotted line to the manager the record moves the employee under', () => {
+    const current = createEmployee('3', '1', { secondaryManagerIds: ['2', '4'] })
+    expect(applyImportedEmployee(current, { id: '3', managerId: '2' }).secondaryManagerIds).toEqual(['4'])
+    expect(applyImportedEmployee(current, { id: '3', team: 'Ops' }).secondaryManagerIds).toEqual(['2', '4'])
+  })
+})
+
+describe('validateImport', () => {
+  const existing = [createEmployee('1'), createEmployee('2', '1')]
+
+  test('accepts records whose managers are in the file or the org', () => {
+    expect(validateImport(existing, [createEmployee('3', '2'), createEmployee('4', '3')])).toEqual([])
+  })
+
+  test('reports missing ids and names by row', () => {
+    const issues = validateImport(existing, [createEmployee('', '1'), createEmployee('3', '1', { name: '' })])
+    expect(issues.map((issue) => [issue.type, issue.rows])).toEqual([
+      ['MISSING_ID', [1]],
+      ['MISSING_NAME', [2]],
+    ])
+    expect(issues[1].message).toBe('Row 2 has no name')
+  })
+
+  test('only requires names of new records when the file has no name column', () => {
+    const issues = validateImport(existing, [{ id: '2', team: 'Ops' }, { id: '3', managerId: '1' }])
+    expect(issues).toMatchObject([{ type: 'MISSING_NAME', ids: ['3'], rows: [2] }])
+  })
+
+  test('reports ids repeated within the file', () => {
+    const [issue] = validateImport(existing, [createEmployee('3', '1'), createEmployee('3', '2')])
+    expect(issue).toMatchObject({ type: 'DUPLICATE_ID', ids: ['3'], rows: [1, 2] })
+  })
+
+  test('reports details and custom field values that break the schema, row by row', () => {
+    const fields: CustomFieldDefinition[] = [
+      { key: 'level', label: 'Level', type: 'number', required: true },
+      { key: 'clearance', label: 'Clearance', type: 'enum', required: false, options: ['Secret'] },
+    ]
+    const withLevel = [{ ...createEmployee('1'), customFields: { level: 3 } }]
+    const issues = validateImport(withLevel, [
+      createEmployee('2', '1', { customFields: { level: 'high' } }),
+      createEmployee('3', '1'),
+      createEmployee('4', '1', { email: 'not-an-email', customFields: { level: 2 } }),
+      { id: '1', customFields: { clearance: 'Top' } },
+      { id: '1', team: 'Ops' },
+    ], fields)
+    expect(issues.filter((issue) => issue.type === 'INVALID_DETAILS')).toEqual([
+      { type: 'INVALID_DETAILS', message: 'Row 1: Level must be a number', ids: ['2'], rows: [1] },
+      { type: 'INVALID_DETAILS', message: 'Row 2: Level is required', ids: ['3'], rows: [2] },
+      { type: 'INVALID_DETAILS', message: 'Row 3: not-an-email is not an email address', ids: ['4'], rows: [3] },
+      { type: 'INVALID_DETAILS', message: 'Row 4: Clearance must be one of Secret', ids: ['1'], rows: [4] },
+    ])
+  })
+
+  test('reports managers that exist nowhere', () => {
+    const [issue] = validateImport(existing, [createEmployee('3', '99'), createEmployee('4', '99')])
+    expect(issue).toMatchObject({ type: 'UNKNOWN_MANAGER', ids: ['99'], rows: [1, 2] })
+  })
+
+  test('reports dotted lines that are not allowed once merged', () => {
+    const issues = validateImport(existing, [
+      createEmployee('3', '1', { secondaryManagerIds: ['4'] }),
+      createEmployee('4', '1', { secondaryManagerIds: ['99'] }),
+      { id: '2', secondaryManagerIds: ['1'] },
+      createEmployee('5', '1', { secondaryManagerIds: ['5'] }),
+    ])
+    expect(issues.filter((issue) => issue.type === 'INVALID_SECONDARY_MANAGER')).toEqual([
+      { type: 'INVALID_SECONDARY_MANAGER', message: 'Row 2: Manager 99 does not exist', ids: ['99'], rows: [2] },
+      {
+        type: 'INVALID_SECONDARY_MANAGER',
+        message: 'Row 3: The solid-line manager cannot also be a dotted-line manager',
+        ids: ['2', '1'],
+        rows: [3],
+      },
+      {
+        type: 'INVALID_SECONDARY_MANAGER',
+        message: 'Row 4: An employee cannot have a dotted line to themselves',
+        ids: ['5'],
+        rows: [4],
+      },
+    ])
+  })
+
+  test('reports cycles created together with the existing org', () => {
+    const issues = validateImport(existing, [createEmployee('1', '3'), createEmployee('3', '2')])
+    expect(issues).toHaveLength(1)
+    expect(issues[0].type).toBe('CYCLE')
+    expect(new Set(issues[0].ids)).toEqual(new Set(['1', '2', '3']))
+    expect(issues[0].rows.sort()).toEqual([1, 2])
+  })
+})
@@ -0,0 +1,310 @@
+import { expect, test, describe, beforeEach, afterEach } from 'vitest'
+import axios, { Method } from 'axios'
+import { makeServer } from '../mock-server'
+import { VACANCY_NAME } from '../vacancies'
+import { Employee } from '../types'
+import { createEmployee } from './fixtures'
+
+// 1 ─┬─ 2 ── 3
+//    └─ 4 ── 5 (open position)
+const seed = () => [
+  createEmployee('1'),
+  createEmployee('2', '1'),
+  createEmployee('3', '2'),
+  createEmployee('4', '1'),
+  { ...createEmployee('5', '4'), name: VACANCY_NAME, vacancy: { requisitionId: 'REQ-5' } },
+]
+
+// Every status is resolved so the tests can check error responses
+const send = (method: Method, url: string, data?: unknown) =>
+  axios.request({ method, url, data, validateStatus: () => true })
+
+describe('mock server', () => {
+  let server: ReturnType<typeof makeServer>
+
+  const managers = () =>
+    Object.fromEntries((server.db.employees as Employee[]).map((emp) => [emp.id, emp.managerId]))
+
+  beforeEach(() => {
+    server = makeServer({ environment: 'test' })
+    server.db.employees.insert(seed())
+  })
+
+  afterEach(() => {
+    server.shutdown()
+  })
+
+  test('keeps requests out of the console', () => {
+    server.shutdown()
+    server = makeServer()
+    expect(server.logging).toBe(false)
+  })
+
+  describe('PATCH /api/employees/:id', () => {
+    test('moves an employee under a new manager', async () => {
+      const response = await send('patch', '/api/employees/3', { managerId: '4' })
+      expect(response.status).toBe(200)
+      expect(response.data.employee).toMatchObject({ id: '3', managerId: '4' })
+    })
+
+    test('answers 404 for an unknown employee', async () => {
+      const response = await send('patch', '/api/employees/99', { managerId: '1' })
+      expect(response.status).toBe(404)
+      expect(response.data).toEqual({
+        error: { code: 'EMPLOYEE_NOT_FOUND', message: 'Employee 99 does not exist', ids: ['99'] },
+      })
+    })
+
+    test('answers 422 for an unknown manager or the employee themselves', async () => {
+      const unknown = await send('patch', '/api/employees/3', { managerId: '99' })
+      expect(unknown.status).toBe(422)
+      expect(unknown.data.error).toMatchObject({ code: 'MANAGER_NOT_FOUND', ids: ['99'] })
+
+      const self = await send('patch', '/api/employees/3', { managerId: '3' })
+      expect(self.status).toBe(422)
+      expect(self.data.error).toMatchObject({ code: 'SELF_REFERENCE', ids: ['3'] })
+    })
+
+    test('dates the change with effectiveAt, or answers 422 for a date that does not parse', async () => {
+      const response = await send('patch', '/api/employees/3', { managerId: '4', effectiveAt: '2020-05-01' })
+      expect(response.status).toBe(200)
+      expect(response.data.employee).not.toHaveProperty('effectiveAt')
+      const { events } = (await send('get', '/api/employees/3/history')).data
+      expect(events).toMatchObject([{ type: 'updated', effectiveAt: '2020-05-01T00:00:00.000Z' }])
+
+      const invalid = await send('patch', '/api/employees/3', { managerId: '1', effectiveAt: 'soon' })
+      expect(invalid.status).toBe(422)
+      expect(invalid.data).toEqual({ error: { code: 'INVALID_DATE', message: 'soon is not a valid date', ids: [] } })
+      expect(managers()['3']).toBe('4')
+    })
+
+    test('answers 409 for a move that would create a cycle, changing nothing', async () => {
+      const before = managers()
+      const response = await send('patch', '/api/employees/2', { managerId: '3' })
+      expect(response.status).toBe(409)
+      expect(response.data.error).toMatchObject({ code: 'CYCLE', ids: ['2', '3'] })
+      expect(managers()).toEqual(before)
+    })
+  })
+
+  describe('dated changes', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000
+    const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString()
+    const managerAsOf = async (asOf: string, id: string) =>
+      ((await send('get', `/api/employees?asOf=${asOf}`)).data.employees as Employee[])
+        .find((emp) => emp.id === id)?.managerId
+
+    // The seeded history moves employee 10 from 3 to 4 ninety days ago
+    beforeEach(() => {
+      server.shutdown()
+      server = makeServer()
+      server.timing = 0
+    })
+
+    test('replays a backdated change in order, agreeing with the live org today', async () => {
+      const response = await send('patch', '/api/employees/10', { managerId: '9', effectiveAt: daysAgo(60) })
+      expect(response.status).toBe(200)
+
+      expect(await managerAsOf(daysAgo(100), '10')).toBe('3')
+      expect(await managerAsOf(daysAgo(75), '10')).toBe('4')
+      expect(await managerAsOf(daysAgo(30), '10')).toBe('9')
+      expect(await managerAsOf(new Date().toISOString(), '10')).toBe(managers()['10'])
+    })
+
+    test('answers 422 for a date before the employee\'s latest change or in the future, changing nothing', async () => {
+      const before = managers()
+      const early = await send('patch', '/api/employees/10', { managerId: '9', effectiveAt: daysAgo(120) })
+      expect(early.status).toBe(422)
+      expect(early.data.error).toMatchObject({ code: 'INVALID_DATE', ids: ['10'] })
+
+      const future = await send('post', '/api/employees/batch', {
+        moves: [{ employeeId: '10', managerId: '9' }],
+        effectiveAt: new Date(Date.now() + DAY_MS).toISOString(),
+      })
+      expect(future.status).toBe(422)
+      expect(future.data.error.code).toBe('INVALID_DATE')
+
+      // Removing 4 moves their reports, 10 among them
+      const removal = await send('delete', `/api/employees/4?reassignTo=1&effectiveAt=${daysAgo(120)}`)
+      expect(removal.status).toBe(422)
+      expect(removal.data.error.ids).toEqual(['10'])
+      expect(managers()).toEqual(before)
+      expect(await managerAsOf(daysAgo(100), '10')).toBe('3')
+    })
+  })
+
+  describe('POST /api/employees/batch', () => {
+    test('applies every move', async () => {
+      const response = await send('post', '/api/employees/batch', {
+        moves: [
+          { employeeId: '3', managerId: '1' },
+          { employeeId: '4', managerId: '2' },
+        ],
+      })
+      expect(response.status).toBe(201)
+      expect(managers()).toMatchObject({ '3': '1', '4': '2' })
+    })
+
+    test('rejects the whole batch when one move is invalid', async () => {
+      const before = managers()
+      const response = await send('post', '/api/employees/batch', {
+        moves: [
+          { employeeId: '4', managerId: '2' },
+          { employeeId: '2', managerId: '3' },
+        ],
+      })
+      expect(response.status).toBe(409)
+      expect(response.data.error.code).toBe('CYCLE')
+      expect(managers()).toEqual(before)
+
+      const unknown = await send('post', '/api/employees/batch', {
+        moves: [
+          { employeeId: '4', managerId: '2' },
+          { employeeId: '3', managerId: '99' },
+        ],
+      })
+      expect(unknown.status).toBe(422)
+      expect(unknown.data.error).toMatchObject({ code: 'MANAGER_NOT_FOUND', ids: ['99'] })
+      expect(managers()).toEqual(before)
+    })
+  })
+
+  describe('POST /api/employees/import', () => {
+    test('upserts records, keeping fields they leave out', async () => {
+      const response = await send('post', '/api/employees/import', {
+        employees: [
+          { id: '3', name: 'Renamed' },
+          { id: '6', name: 'New Hire', managerId: '4' },
+        ],
+      })
+      expect(response.status).toBe(201)
+      expect(server.db.employees.find('3')).toMatchObject({ name: 'Renamed', team: 'Team', managerId: '2' })
+      expect(server.db.employees.find('6')).toMatchObject({ name: 'New Hire', designation: '', team: '', managerId: '4' })
+    })
+
+    test('rejects the whole file when a record is invalid', async () => {
+      const response = await send('post', '/api/employees/import', {
+        employees: [
+          { id: '3', name: 'Renamed' },
+          { id: '6', name: 'New Hire', managerId: '99' },
+        ],
+      })
+      expect(response.status).toBe(422)
+      expect(response.data.error).toMatchObject({ code: 'MANAGER_NOT_FOUND', ids: ['99'] })
+      expect(server.db.employees.find('3').name).toBe('Employee 3')
+      expect(server.db.employees.find('6')).toBeNull()
+    })
+
+    test('rejects records whose details or custom fields are invalid', async () => {
+      const response = await send('post', '/api/employees/import', {
+        employees: [
+          { id: '3', name: 'Renamed' },
+          { id: '6', name: 'New Hire', managerId: '4', startDate: 'soon' },
+          { id: '7', name: 'Other Hire', managerId: '4', customFields: { clearance: 'Top' } },
+        ],
+      })
+      expect(response.status).toBe(422)
+      expect(response.data.error).toMatchObject({
+        code: 'INVALID_EMPLOYEE',
+        message: 'Row 2: Start date must be a date such as 2021-04-01',
+        ids: ['6'],
+      })
+      expect(server.db.employees.find('3').name).toBe('Employee 3')
+      expect(server.db.employees.find('6')).toBeNull()
+    })
+
+    test('rejects dotted lines the merged org does not allow', async () => {
+      const response = await send('post', '/api/employees/import', {
+        employees: [
+          { id: '6', name: 'New Hire', managerId: '4' },
+          { id: '3', secondaryManagerIds: ['2'] },
+        ],
+      })
+      expect(response.status).toBe(422)
+      expect(response.data.error).toMatchObject({ code: 'INVALID_EMPLOYEE', ids: ['3', '2'] })
+      expect(server.db.employees.find('6')).toBeNull()
+    })
+  })
+
+  describe('POST /api/employees/:id/fill', () => {
+    test('puts an existing employee in the position', async () => {
+      const response = await send('post', '/api/employees/5/fill', { employeeId: '3' })
+      expect(response.status).toBe(201)
+      expect(server.db.employees.find('5')).toBeNull()
+      expect(server.db.employees.find('3')).toMatchObject({ managerId: '4' })
+    })
+
+    test('rejects filling from inside the position\'s own line, changing nothing', async () => {
+      server.db.employees.insert({ ...createEmployee('6', '5'), name: 'Report' })
+      server.db.employees.insert(createEmployee('7', '6'))
+      const before = managers()
+      const response = await send('post', '/api/employees/5/fill', { employeeId: '7' })
+      expect(response.status).toBe(409)
+      expect(response.data.error.code).toBe('CYCLE')
+      expect(managers()).toEqual(before)
+    })
+
+    test('answers 422 for a record that is not an open position', async () => {
+      const response = await send('post', '/api/employees/4/fill', { employeeId: '3' })
+      expect(response.status).toBe(422)
+      expect(response.data.error).toMatchObject({ code: 'INVALID_EMPLOYEE', ids: ['4'] })
+    })
+  })
+
+  describe('DELETE /api/employees/:id', () => {
+    test('moves reports to the chosen manager', async () => {
+      const response = await send('delete', '/api/employees/2?reassignTo=4')
+      expect(response.status).toBe(204)
+      expect(server.db.employees.find('2')).toBeNull()
+      expect(managers()['3']).toBe('4')
+    })
+
+    test('rejects moving reports into the removed employee\'s own line', async () => {
+      const response = await send('delete', '/api/employees/2?reassignTo=3')
+      expect(response.status).toBe(409)
+      expect(response.data.error).toMatchObject({ code: 'CYCLE', ids: ['2', '3'] })
+      expect(server.db.employees.find('2')).not.toBeNull()
+    })
+
+    test('answers 422 for an unknown new manager and 404 for an unknown employee', async () => {
+      const unknownManager = await send('delete', '/api/employees/2?reassignTo=99')
+      expect(unknownManager.status).toBe(422)
+      expect(unknownManager.data.error).toMatchObject({ code: 'MANAGER_NOT_FOUND', ids: ['99'] })
+
+      const unknownEmployee = await send('delete', '/api/employees/99')
+      expect(unknownEmployee.status).toBe(404)
+      expect(unknownEmployee.data.error.code).toBe('EMPLOYEE_NOT_FOUND')
+    })
+  })
+
+  describe('POST /api/scenarios/:id/publish', () => {
+    const createDraft = async (employees: Employee[]) =>
+      (await send('post', '/api/scenarios', { name: 'Draft', employees })).data.scenario
+
+    test('applies the draft and discards it', async () => {
+      const draft = await createDraft(seed().map((emp) => (emp.id === '3' ? { ...emp, managerId: '4' } : emp)))
+      const response = await send('post', `/api/scenarios/${draft.id}/publish`)
+      expect(response.status).toBe(201)
+      expect(managers()['3']).toBe('4')
+      expect((await send('get', `/api/scenarios/${draft.id}`)).status).toBe(404)
+    })
+
+    test('answers 409 when the live org changed the same employees meanwhile', async () => {
+      const draft = await createDraft(seed().map((emp) => (emp.id === '3' ? { ...emp, managerId: '4' } : emp)))
+      await send('patch', '/api/employees/3', { managerId: '1' })
+
+      const response = await send('post', `/api/scenarios/${draft.id}/publish`)
+      expect(response.status).toBe(409)
+      expect(response.data.error).toMatchObject({ code: 'CONFLICT', ids: ['3'] })
+      expect(managers()['3']).toBe('1')
+    })
+
+    test('answers 409 for a draft that would create a cycle', async () => {
+      const draft = await createDraft(seed().map((emp) => (emp.id === '2' ? { ...emp, managerId: '3' } : emp)))
+      const response = await send('post', `/api/scenarios/${draft.id}/publish`)
+      expect(response.status).toBe(409)
+      expect(response.data.error.code).toBe('CYCLE')
+      expect(managers()['2']).toBe('1')
+    })
+  })
+})
@@ -0,0 +1,28 @@
+import { expect, test, describe } from 'vitest'
+import { applyOutboxItems, createOfflineStore } from '../offlineStore'
+import { createEmployee } from './fixtures'
+
+describe('offline store', () => {
+  test('falls back to memory without IndexedDB and returns copies', async () => {
+    expect(typeof indexedDB).toBe('undefined')
+    const store = createOfflineStore()
+    expect(await store.loadEmployees()).toBeNull()
+
+    const employees = [createEmployee('1'), createEmployee('2', '1')]
+    await store.saveEmployees(employees)
+    employees[1].managerId = ''
+    const cached = await store.loadEmployees()
+    expect(cached?.employees).toEqual([createEmployee('1'), createEmployee('2', '1')])
+    expect(cached?.savedAt).toBeLessThanOrEqual(Date.now())
+  })
+
+  test('applyOutboxItems shows queued moves on top of the cached org', () => {
+    const employees = [createEmployee('1'), createEmployee('2', '1'), createEmployee('3', '1')]
+    const queued = [
+      { id: 'a', employeeId: '3', fromManagerId: '1', toManagerId: '2', queuedAt: 0 },
+      { id: 'b', employeeId: '3', fromManagerId: '2', toManagerId: '', queuedAt: 1 },
+    ]
+    expect(applyOutboxItems(employees, queued).map((emp) => emp.managerId)).toEqual(['', '1', ''])
+    expect(applyOutboxItems(employees, [])).toBe(employees)
+  })
+})
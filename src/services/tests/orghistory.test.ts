@@ -0,0 +1,53 @@
+import { expect, test, describe } from 'vitest'
+import { getEmployeeHistory, getOrgAsOf, parseAsOf, toEmployeeEvents } from '../orgHistory'
+import { EmployeeEvent } from '../types'
+import { createEmployee } from './fixtures'
+
+const events: EmployeeEvent[] = [
+  ...toEmployeeEvents(
+    [
+      { type: 'created', employee: createEmployee('1') },
+      { type: 'created', employee: createEmployee('2', '1') },
+      { type: 'created', employee: createEmployee('3', '2') },
+    ],
+    '2024-01-01T00:00:00.000Z'
+  ),
+  ...toEmployeeEvents([{ type: 'updated', employee: createEmployee('3', '1') }], '2024-06-01T00:00:00.000Z'),
+  ...toEmployeeEvents([{ type: 'deleted', id: '2' }], '2024-09-01T00:00:00.000Z'),
+  // Recorded last but backdated to before the deletion
+  ...toEmployeeEvents([{ type: 'created', employee: createEmployee('4', '2') }], '2024-03-01T00:00:00.000Z'),
+]
+
+describe('getOrgAsOf', () => {
+  test('replays the events in effect at the date', () => {
+    expect(getOrgAsOf(events, '2023-12-31T00:00:00.000Z')).toEqual([])
+    expect(getOrgAsOf(events, '2024-05-01T00:00:00.000Z')).toEqual([
+      createEmployee('1'),
+      createEmployee('2', '1'),
+      createEmployee('3', '2'),
+      createEmployee('4', '2'),
+    ])
+    expect(getOrgAsOf(events, '2024-10-01T00:00:00.000Z')).toEqual([
+      createEmployee('1'),
+      createEmployee('3', '1'),
+      createEmployee('4', '2'),
+    ])
+  })
+
+  test('includes events that take effect exactly at the date', () => {
+    expect(getOrgAsOf(events, '2024-06-01T00:00:00.000Z')).toContainEqual(createEmployee('3', '1'))
+  })
+})
+
+test('getEmployeeHistory lists one employee\'s events in effective order', () => {
+  expect(getEmployeeHistory(events, '3').map((event) => [event.type, event.employee?.managerId])).toEqual([
+    ['created', '2'],
+    ['updated', '1'],
+  ])
+  expect(getEmployeeHistory(events, '2').map((event) => event.type)).toEqual(['created', 'deleted'])
+})
+
+test('parseAsOf normalizes dates and rejects anything else', () => {
+  expect(parseAsOf('2024-06-01')).toBe('2024-06-01T00:00:00.000Z')
+  expect(parseAsOf('last quarter')).toBeNull()
+})
@@ -0,0 +1,91 @@
+import { expect, test, describe } from 'vitest'
+import { createDraftEmployeeId, diffScenario, validateScenarioPublish } from '../scenarios'
+import { Employee, Scenario } from '../types'
+import { createEmployee } from './fixtures'
+
+const live = [
+  createEmployee('1', '', { team: 'Executive' }),
+  createEmployee('2', '1', { team: 'Technology' }),
+  createEmployee('3', '2', { team: 'Technology' }),
+  createEmployee('4', '1', { team: 'Finance' }),
+]
+
+const createScenario = (employees: Employee[], baseEmployees = live): Scenario => ({
+  id: 's1',
+  name: 'Draft',
+  baseEmployees,
+  employees,
+  updatedAt: 0,
+})
+
+describe('diffScenario', () => {
+  test('lists moves, additions, removals, spans of control and team headcounts', () => {
+    const draft = [
+      createEmployee('1', '', { team: 'Executive' }),
+      createEmployee('3', '4', { team: 'Technology' }),
+      createEmployee('4', '1', { team: 'Finance' }),
+      createEmployee('new-1', '4', { team: 'Finance' }),
+    ]
+
+    const diff = diffScenario(live, draft)
+
+    expect(diff.moved).toEqual([{ employee: draft[1], fromManagerId: '2', toManagerId: '4' }])
+    expect(diff.added).toEqual([draft[3]])
+    expect(diff.removed).toEqual([live[1]])
+    expect(diff.spanChanges.map(({ manager, before, after }) => [manager.id, before, after])).toEqual([
+      ['1', 2, 1],
+      ['4', 0, 2],
+      ['2', 1, 0],
+    ])
+    expect(diff.headcounts).toEqual([
+      { team: 'Executive', before: 1, after: 1, openBefore: 0, openAfter: 0 },
+      { team: 'Finance', before: 1, after: 2, openBefore: 0, openAfter: 0 },
+      { team: 'Technology', before: 2, after: 1, openBefore: 0, openAfter: 0 },
+    ])
+  })
+
+  test('counts open positions apart from people', () => {
+    const opening = { ...createEmployee('new-1', '4', { team: 'Finance' }), vacancy: { requisitionId: 'REQ-1' } }
+    const diff = diffScenario(live, [...live, opening])
+
+    expect(diff.headcounts.find(({ team }) => team === 'Finance')).toEqual({
+      team: 'Finance', before: 1, after: 1, openBefore: 0, openAfter: 1,
+    })
+    expect(diff.spanChanges).toEqual([])
+  })
+
+  test('is empty for an unchanged draft', () => {
+    const diff = diffScenario(live, live)
+    expect([diff.moved, diff.added, diff.removed, diff.spanChanges]).toEqual([[], [], [], []])
+  })
+})
+
+describe('validateScenarioPublish', () => {
+  test('accepts a draft whose employees are unchanged in the live org', () => {
+    const draft = live.map((emp) => (emp.id === '3' ? { ...emp, managerId: '4' } : emp))
+    const liveNow = live.map((emp) => (emp.id === '4' ? { ...emp, designation: 'CFO' } : emp))
+    expect(validateScenarioPublish(liveNow, createScenario(draft))).toBeNull()
+  })
+
+  test('reports employees changed in the live org since the draft was created', () => {
+    const draft = live.map((emp) => (emp.id === '3' ? { ...emp, managerId: '4' } : emp))
+    const liveNow = live.map((emp) => (emp.id === '3' ? { ...emp, managerId: '1' } : emp))
+    expect(validateScenarioPublish(liveNow, createScenario(draft))).toMatchObject({
+      code: 'CONFLICT',
+      ids: ['3'],
+    })
+  })
+
+  test('rejects a draft that would leave an employee under a manager removed meanwhile', () => {
+    const draft = live.map((emp) => (emp.id === '3' ? { ...emp, managerId: '4' } : emp))
+    const liveNow = live.filter((emp) => emp.id !== '4')
+    expect(validateScenarioPublish(liveNow, createScenario(draft))).toMatchObject({
+      code: 'MANAGER_NOT_FOUND',
+      ids: ['3'],
+    })
+  })
+})
+
+test('createDraftEmployeeId skips ids used in either org', () => {
+  expect(createDraftEmployeeId(live, [createEmployee('new-1')])).toBe('new-2')
+})
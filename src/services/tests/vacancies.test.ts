@@ -0,0 +1,100 @@
+import { expect, test, describe } from 'vitest'
+import { VACANCY_NAME, countHeadcount, countHeadcountByTeam, fillVacancy, validateFill } from '../vacancies'
+import { Employee } from '../types'
+import { createEmployee } from './fixtures'
+
+const createVacancy = (id: string, managerId: string): Employee => ({
+  id,
+  name: VACANCY_NAME,
+  designation: 'Designer',
+  team: 'Design',
+  managerId,
+  vacancy: { requisitionId: `REQ-${id}`, targetStartDate: '2026-01-12' },
+})
+
+describe('countHeadcount', () => {
+  test('counts open positions apart from people', () => {
+    const employees = [createEmployee('1'), createEmployee('2', '1'), createVacancy('3', '1')]
+    expect(countHeadcount(employees)).toEqual({ people: 2, openPositions: 1 })
+  })
+
+  test('counts each team separately', () => {
+    const employees = [createEmployee('1'), createVacancy('2', '1'), createVacancy('3', '1')]
+    expect(countHeadcountByTeam(employees)).toEqual(new Map([
+      ['Team', { people: 1, openPositions: 0 }],
+      ['Design', { people: 0, openPositions: 2 }],
+    ]))
+  })
+})
+
+describe('validateFill', () => {
+  const employees = [
+    createEmployee('1'),
+    createVacancy('2', '1'),
+    createEmployee('3', '2'),
+    createEmployee('4', '3'),
+    createEmployee('5', '1'),
+    createVacancy('6', '1'),
+  ]
+
+  test('accepts people outside the position and its direct reports', () => {
+    expect(validateFill(employees, '2', { employeeId: '5' })).toBeNull()
+    expect(validateFill(employees, '2', { employeeId: '3' })).toBeNull()
+    expect(validateFill(employees, '2', { employee: { name: 'New Hire', designation: '', team: '', managerId: '' } })).toBeNull()
+  })
+
+  test('rejects someone further down the position\'s subtree', () => {
+    expect(validateFill(employees, '2', { employeeId: '4' })).toMatchObject({ code: 'CYCLE', ids: ['4', '2'] })
+  })
+
+  test('rejects targets that are not open positions and fillers that are', () => {
+    expect(validateFill(employees, '5', { employeeId: '3' })?.code).toBe('INVALID_EMPLOYEE')
+    expect(validateFill(employees, '2', { employeeId: '6' })?.code).toBe('INVALID_EMPLOYEE')
+    expect(validateFill(employees, '9', { employeeId: '3' })?.code).toBe('EMPLOYEE_NOT_FOUND')
+    expect(validateFill(employees, '2', { employeeId: '9' })?.code).toBe('EMPLOYEE_NOT_FOUND')
+  })
+
+  test('requires a name for a new hire', () => {
+    expect(validateFill(employees, '2', { employee: { name: ' ', designation: '', team: '', managerId: '' } }))
+      .toMatchObject({ code: 'INVALID_EMPLOYEE', message: 'Name is required' })
+  })
+})
+
+describe('fillVacancy', () => {
+  test('moves an existing employee into the position along with its reports', () => {
+    const employees = [
+      createEmployee('1'),
+      createVacancy('2', '1'),
+      createEmployee('3', '2'),
+      { ...createEmployee('4', '1'), secondaryManagerIds: ['2'] },
+      createEmployee('5', '4'),
+    ]
+    const result = fillVacancy(employees, '2', employees[4])
+    const byId = new Map(result.map(emp => [emp.id, emp]))
+
+    expect(byId.has('2')).toBe(false)
+    expect(byId.get('5')).toMatchObject({ managerId: '1', designation: 'Designer', team: 'Design' })
+    expect(byId.get('5')?.vacancy).toBeUndefined()
+    expect(byId.get('3')?.managerId).toBe('5')
+    expect(byId.get('4')?.secondaryManagerIds).toEqual(['5'])
+  })
+
+  test('lets a direct report of the position step up into it', () => {
+    const employees = [createEmployee('1'), createVacancy('2', '1'), createEmployee('3', '2'), createEmployee('4', '2')]
+    const result = fillVacancy(employees, '2', employees[2])
+    expect(result.map(emp => [emp.id, emp.managerId])).toEqual([
+      ['1', ''],
+      ['3', '1'],
+      ['4', '3'],
+    ])
+  })
+
+  test('puts a new hire where the position was', () => {
+    const employees = [createEmployee('1'), createVacancy('2', '1'), createEmployee('3', '2')]
+    const hire = { ...createEmployee('7', '1'), name: 'New Hire' }
+    const result = fillVacancy(employees, '2', hire)
+    expect(result.map(emp => emp.id)).toEqual(['1', '7', '3'])
+    expect(result[1]).toMatchObject({ name: 'New Hire', designation: 'Designer', managerId: '1' })
+    expect(result[2].managerId).toBe('7')
+  })
+})
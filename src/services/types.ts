@@ -1,8 +1,157 @@
 
+export type EmploymentType = 'fte' | 'contractor' | 'intern';
+
+export type CustomFieldValue = string | number | boolean;
+
+/**
+ * What makes a record an open position rather than a person. The position's
+ * title is the record's `designation` and it sits in the tree like anyone else.
+ */
+export type Vacancy = {
+    requisitionId: string;
+    /** ISO date the hire is meant to start, e.g. `2025-01-06`. */
+    targetStartDate?: string;
+}
+
 export type Employee = {
     id: string;
     name: string;
     designation: string;
     team: string;
     managerId: string;
+    /**
+     * Dotted-line managers the employee also works for. They are drawn but
+     * take no part in the reporting tree, so they never create cycles.
+     */
+    secondaryManagerIds?: string[];
+    email?: string;
+    location?: string;
+    photoUrl?: string;
+    /** ISO date, e.g. `2021-04-01`. */
+    startDate?: string;
+    employmentType?: EmploymentType;
+    /** Free-form level such as `L5` or `Senior`. */
+    jobLevel?: string;
+    /** Values of the admin-defined fields, keyed by `CustomFieldDefinition.key`. */
+    customFields?: Record<string, CustomFieldValue>;
+    /** Set on open positions only. */
+    vacancy?: Vacancy;
+}
+
+/** The fields every record has, and the ones files are read from and written to. */
+export type CoreEmployeeField = 'id' | 'name' | 'designation' | 'team' | 'managerId';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'enum' | 'boolean';
+
+/** An employee field defined by an admin rather than built into the app. */
+export type CustomFieldDefinition = {
+    key: string;
+    label: string;
+    type: CustomFieldType;
+    required: boolean;
+    /** The allowed values of an `enum` field. */
+    options?: string[];
+}
+
+export type NewEmployee = Omit<Employee, 'id'>;
+
+/**
+ * A record read from an import file. Fields the file has no column for are
+ * left out, so an update keeps what the employee already has.
+ */
+export type ImportedEmployee = Partial<NewEmployee> & { id: string };
+
+/**
+ * Optional for every change to the org. `effectiveAt` (an ISO 8601 date)
+ * dates the change in the history, e.g. a move agreed last week; without it
+ * the change takes effect when it is made. It cannot be in the future, or
+ * before the latest recorded change to an employee the change touches.
+ */
+export type ChangeOptions = {
+    effectiveAt?: string;
+}
+
+/** Who fills an open position: someone already in the org, or a new hire. */
+export type VacancyFiller = { employeeId: string } | { employee: NewEmployee };
+
+export type ApiErrorCode =
+    | 'EMPLOYEE_NOT_FOUND'
+    | 'MANAGER_NOT_FOUND'
+    | 'SELF_REFERENCE'
+    | 'CYCLE'
+    | 'INVALID_EMPLOYEE'
+    | 'SCENARIO_NOT_FOUND'
+    | 'INVALID_SCENARIO'
+    | 'CONFLICT'
+    | 'INVALID_DATE'
+    | 'INVALID_FIELD_SCHEMA';
+
+export type ApiError = {
+    code: ApiErrorCode;
+    message: string;
+    ids: string[];
+}
+
+export type ApiErrorBody = {
+    error: ApiError;
+}
+
+export type Reassignment = {
+    employeeId: string;
+    managerId: string;
+}
+
+export type HierarchyIssueType = 'CYCLE' | 'ORPHAN' | 'DUPLICATE_ID' | 'MULTIPLE_ROOTS';
+
+export type HierarchyIssue = {
+    type: HierarchyIssueType;
+    message: string;
+    ids: string[];
+}
+
+export type ReportCounts = {
+    direct: number;
+    total: number;
+    /** Open positions below, at every level; they are not part of `direct` or `total`. */
+    openPositions: number;
+}
+
+export type ImportIssueType =
+    | 'MISSING_ID'
+    | 'MISSING_NAME'
+    | 'DUPLICATE_ID'
+    | 'INVALID_DETAILS'
+    | 'UNKNOWN_MANAGER'
+    | 'INVALID_SECONDARY_MANAGER'
+    | 'CYCLE';
+
+export type ImportIssue = {
+    type: ImportIssueType;
+    message: string;
+    ids: string[];
+    /** 1-based positions of the affected records in the imported file. */
+    rows: number[];
+}
+
+/** A change to one employee, in effect from `effectiveAt` (an ISO 8601 timestamp). */
+export type EmployeeEvent = {
+    employeeId: string;
+    type: 'created' | 'updated' | 'deleted';
+    /** The record from this point on; null once the employee is removed. */
+    employee: Employee | null;
+    effectiveAt: string;
+}
+
+/** A draft reorganization, edited without touching the live org. */
+export type Scenario = {
+    id: string;
+    name: string;
+    /** The live org when the draft was created; publishing applies only what the draft changed since. */
+    baseEmployees: Employee[];
+    employees: Employee[];
+    updatedAt: number;
+}
+
+export type ScenarioSummary = Pick<Scenario, 'id' | 'name' | 'updatedAt'> & {
+    changeCount: number;
 }
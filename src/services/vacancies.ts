@@ -0,0 +1,113 @@
+import { ApiError, Employee, VacancyFiller } from './types';
+import { getDescendantIds, withManager } from './hierarchy';
+
+/** The name open positions are stored under; cards show the title instead. */
+export const VACANCY_NAME = 'Open position';
+
+export const isVacancy = (employee: Employee) => employee.vacancy !== undefined;
+
+export type Headcount = {
+    people: number;
+    openPositions: number;
+};
+
+export function countHeadcount(employees: Employee[]): Headcount {
+    const openPositions = employees.filter(isVacancy).length;
+    return { people: employees.length - openPositions, openPositions };
+}
+
+/** For example "12 people · 2 open positions". */
+export const describeHeadcount = ({ people, openPositions }: Headcount) =>
+    `${people} ${people === 1 ? 'person' : 'people'}${
+        openPositions > 0 ? ` · ${openPositions} open ${openPositions === 1 ? 'position' : 'positions'}` : ''
+    }`;
+
+export function countHeadcountByTeam(employees: Employee[]): Map<string, Headcount> {
+    const byTeam = new Map<string, Employee[]>();
+    employees.forEach(emp => {
+        const team = emp.team ?? '';
+        const members = byTeam.get(team) || [];
+        members.push(emp);
+        byTeam.set(team, members);
+    });
+    return new Map([...byTeam].map(([team, members]) => [team, countHeadcount(members)]));
+}
+
+/**
+ * Checks whether `filler` can take the open position `vacancyId`. Someone
+ * already in the org must not be another open position, and must not sit
+ * below the position except as a direct report, since the position's reports
+ * move under whoever fills it.
+ */
+export function validateFill(employees: Employee[], vacancyId: string, filler: VacancyFiller): ApiError | null {
+    const byId = new Map(employees.map(emp => [emp.id, emp]));
+    const vacancy = byId.get(vacancyId);
+    if (!vacancy) {
+        return { code: 'EMPLOYEE_NOT_FOUND', message: `Position ${vacancyId} does not exist`, ids: [vacancyId] };
+    }
+    if (!isVacancy(vacancy)) {
+        return { code: 'INVALID_EMPLOYEE', message: `${vacancy.name} is not an open position`, ids: [vacancyId] };
+    }
+    if (!('employeeId' in filler)) {
+        return filler.employee.name?.trim()
+            ? null
+            : { code: 'INVALID_EMPLOYEE', message: 'Name is required', ids: [] };
+    }
+
+    const person = byId.get(filler.employeeId);
+    if (!person) {
+        return {
+            code: 'EMPLOYEE_NOT_FOUND',
+            message: `Employee ${filler.employeeId} does not exist`,
+            ids: [filler.employeeId],
+        };
+    }
+    if (isVacancy(person)) {
+        return {
+            code: 'INVALID_EMPLOYEE',
+            message: 'An open position cannot fill another one',
+            ids: [person.id],
+        };
+    }
+    if (person.managerId !== vacancyId && getDescendantIds(employees, vacancyId).has(person.id)) {
+        return {
+            code: 'CYCLE',
+            message: `${person.name} works below this position, so filling it would create a reporting cycle`,
+            ids: [person.id, vacancyId],
+        };
+    }
+    return null;
+}
+
+/**
+ * The org once `person` fills the open position `vacancyId`: they take its
+ * place in the tree, its title and its team, the position's reports and
+ * dotted lines move to them, and the position goes away. A `person` who is
+ * not in `employees` yet is added where the position was.
+ */
+export function fillVacancy(employees: Employee[], vacancyId: string, person: Employee): Employee[] {
+    const vacancy = employees.find(emp => emp.id === vacancyId);
+    if (!vacancy) return employees;
+    const isNewHire = !employees.some(emp => emp.id === person.id);
+
+    const moveLines = (emp: Employee): Employee => {
+        if (!emp.secondaryManagerIds?.includes(vacancyId)) return emp;
+        const ids = emp.secondaryManagerIds.map(id => (id === vacancyId ? person.id : id));
+        return {
+            ...emp,
+            secondaryManagerIds: [...new Set(ids)].filter(id => id !== emp.id && id !== emp.managerId),
+        };
+    };
+
+    const filled = moveLines({
+        ...withManager(person, vacancy.managerId ?? ''),
+        designation: vacancy.designation,
+        team: vacancy.team,
+    });
+
+    return employees.flatMap(emp => {
+        if (emp.id === vacancyId) return isNewHire ? [filled] : [];
+        if (emp.id === person.id) return [filled];
+        return [moveLines(emp.managerId === vacancyId ? withManager(emp, person.id) : emp)];
+    });
+}